@@ -0,0 +1,118 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import chalk from 'chalk';
+import { Logger } from '../utils/logger.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { PRDDiffGenerator } from '../generators/prdDiff.js';
+import { SessionCheckpointService, CHECKPOINT_FILE_NAME } from '../services/sessionCheckpoint.js';
+import { PRDData } from '../types/index.js';
+import { ListChange } from '../types/diff.js';
+import { Validator } from '../validators/index.js';
+import { PRDDataSchema } from '../validators/schemas.js';
+import { loadAnswers } from './generate.js';
+
+interface DiffOptions {
+  output?: string;
+}
+
+/**
+ * Compare the plans of two sessions and write a Markdown changelog,
+ * by default next to the newer session's PRD
+ */
+export async function diffCommand(sessionA: string, sessionB: string, options: DiffOptions): Promise<void> {
+  try {
+    const before = await loadSessionData(sessionA);
+    const after = await loadSessionData(sessionB);
+    const labels = { before: sessionLabel(sessionA), after: sessionLabel(sessionB) };
+
+    const diff = PRDDiffGenerator.compare(before, after);
+
+    Logger.title('PRD Diff');
+    Logger.info(`${labels.before} → ${labels.after}`);
+
+    if (!diff.hasChanges) {
+      Logger.success('No changes to the plan');
+    } else {
+      Logger.section('Changes');
+      logListChange('Core features', diff.features);
+      logListChange('Non-goals', diff.nonGoals);
+      logListChange('Success metrics', diff.successMetrics);
+      if (diff.timeline.totalWeeks) {
+        Logger.item(`Timeline: ${diff.timeline.totalWeeks.before} → ${diff.timeline.totalWeeks.after} weeks`);
+      }
+      const phaseChanges = diff.timeline.phases.added.length + diff.timeline.phases.removed.length + diff.timeline.phases.changed.length;
+      if (phaseChanges > 0) {
+        Logger.item(`Phases: ${phaseChanges} changed`);
+      }
+      logListChange('Milestones', diff.timeline.milestones);
+      if (diff.risks.added.length > 0 || diff.risks.removed.length > 0 || diff.risks.changed.length > 0) {
+        Logger.item(`Risks: ${chalk.green(`+${diff.risks.added.length}`)} ${chalk.red(`-${diff.risks.removed.length}`)}, ${diff.risks.changed.length} changed`);
+      }
+      Object.entries(diff.techStack).forEach(([category, change]) => logListChange(`Tech stack (${category})`, change));
+      if (diff.project.length > 0) {
+        Logger.item(`Project: ${diff.project.map(change => change.field).join(', ')} changed`);
+      }
+    }
+
+    const outputPath = options.output || path.join(await sessionDirectory(sessionB), 'PRD_CHANGELOG.md');
+    await FileSystem.writeFile(outputPath, PRDDiffGenerator.toMarkdown(diff, before, after, labels));
+  } catch (error) {
+    Logger.error('Diff failed:');
+    if (error instanceof Error) {
+      Logger.error(error.message);
+      if (process.env.DEBUG === 'true') {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * PRD data of a session directory (its prd.json, else the completed
+ * session.json checkpoint), a checkpoint file, or a prd.json/answers file
+ */
+async function loadSessionData(sessionPath: string): Promise<PRDData> {
+  const stats = await fs.stat(sessionPath).catch(() => null);
+  if (!stats) {
+    throw new Error(`${sessionPath} does not exist`);
+  }
+
+  if (stats.isDirectory()) {
+    const prdJson = path.join(sessionPath, 'prd.json');
+    if (await FileSystem.fileExists(prdJson)) {
+      return loadAnswers(prdJson);
+    }
+    return loadCheckpointData(path.join(sessionPath, CHECKPOINT_FILE_NAME));
+  }
+
+  return path.basename(sessionPath) === CHECKPOINT_FILE_NAME
+    ? loadCheckpointData(sessionPath)
+    : loadAnswers(sessionPath);
+}
+
+async function loadCheckpointData(checkpointPath: string): Promise<PRDData> {
+  const checkpoint = await SessionCheckpointService.load(checkpointPath);
+  if (!checkpoint.isCompleted()) {
+    throw new Error(`Session ${checkpointPath} is not completed; finish it with: prd-zero resume ${checkpointPath}`);
+  }
+  return Validator.validate(PRDDataSchema, checkpoint.getCheckpoint().data);
+}
+
+async function sessionDirectory(sessionPath: string): Promise<string> {
+  const stats = await fs.stat(sessionPath);
+  return stats.isDirectory() ? sessionPath : path.dirname(sessionPath);
+}
+
+function sessionLabel(sessionPath: string): string {
+  const resolved = path.resolve(sessionPath);
+  const name = path.basename(resolved);
+  return name.endsWith('.json') || name.endsWith('.yaml') || name.endsWith('.yml')
+    ? `${path.basename(path.dirname(resolved))}/${name}`
+    : name;
+}
+
+function logListChange(label: string, change: ListChange): void {
+  if (change.added.length === 0 && change.removed.length === 0) return;
+  Logger.item(`${label}: ${chalk.green(`+${change.added.length}`)} ${chalk.red(`-${change.removed.length}`)}`);
+}
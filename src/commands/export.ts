@@ -0,0 +1,69 @@
+import * as path from 'path';
+import { Logger } from '../utils/logger.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { IssueExportGenerator } from '../generators/issueExport.js';
+import { DEFAULT_TRACKER_URLS, IssueTrackerClient } from '../services/issueTracker.js';
+import { ScheduleOptions, WorkCalendar } from '../services/workCalendar.js';
+import { IssueTracker } from '../types/issues.js';
+import { loadAnswers } from './generate.js';
+
+interface ExportIssuesOptions extends ScheduleOptions {
+  tracker: string;
+  output?: string;
+  apply?: boolean;
+  apiUrl?: string;
+  repo?: string;
+}
+
+const TRACKERS: IssueTracker[] = ['github', 'gitlab', 'linear'];
+
+const TOKEN_VARIABLES: Record<Exclude<IssueTracker, 'linear'>, string> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+};
+
+/**
+ * Export roadmap sprints, core features and milestones as tracker issues.
+ * Always writes the payload file; --apply also creates them through the API.
+ */
+export async function exportIssuesCommand(prdFile: string, options: ExportIssuesOptions): Promise<void> {
+  try {
+    const tracker = options.tracker.toLowerCase() as IssueTracker;
+    if (!TRACKERS.includes(tracker)) {
+      throw new Error(`Unknown tracker "${options.tracker}". Use ${TRACKERS.join(', ')}`);
+    }
+    if (options.apply && tracker === 'linear') {
+      throw new Error('Linear is supported as CSV import only; --apply works with github and gitlab');
+    }
+    if (options.apply && !options.repo) {
+      throw new Error('--apply needs --repo (owner/repo on GitHub, project ID or path on GitLab)');
+    }
+
+    const data = await loadAnswers(prdFile);
+    const plan = IssueExportGenerator.buildPlan(data, await WorkCalendar.fromOptions(options));
+
+    const extension = tracker === 'github' ? 'json' : 'csv';
+    const outputPath = options.output || path.join(path.dirname(prdFile), `issues-${tracker}.${extension}`);
+    await FileSystem.writeFile(outputPath, IssueExportGenerator.render(plan, tracker));
+    Logger.info(`${plan.issues.length} issues and ${plan.milestones.length} milestones exported for ${tracker}`);
+
+    if (options.apply && tracker !== 'linear') {
+      const client = new IssueTrackerClient(tracker, {
+        baseUrl: options.apiUrl || DEFAULT_TRACKER_URLS[tracker],
+        project: options.repo as string,
+        token: process.env[TOKEN_VARIABLES[tracker]],
+      });
+      const created = await client.apply(plan);
+      Logger.success(`Created ${created.milestones} milestones and ${created.issues} issues in ${options.repo}`);
+    }
+  } catch (error) {
+    Logger.error('Issue export failed:');
+    if (error instanceof Error) {
+      Logger.error(error.message);
+      if (process.env.DEBUG === 'true') {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,100 @@
+import { Logger } from '../utils/logger.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { PRDGenerator } from '../generators/prd.js';
+import { TemplateRegistry } from '../services/templateRegistry.js';
+import { RoadmapGenerator } from '../generators/roadmap.js';
+import { CalendarExportGenerator } from '../generators/calendarExport.js';
+import { ScheduleOptions, WorkCalendar } from '../services/workCalendar.js';
+import { ProjectEconomicsService } from '../services/projectEconomics.js';
+import { FeatureBreakdownService } from '../services/featureBreakdown.js';
+import { FeaturePrioritizationService } from '../services/featurePrioritization.js';
+import { PRDData } from '../types/index.js';
+import { Validator } from '../validators/index.js';
+import { PRDDataSchema } from '../validators/schemas.js';
+import { validateProject, displayValidationReport } from '../validators/validationIntegrator.js';
+
+interface GenerateOptions extends ScheduleOptions {
+  answers: string;
+  output: string;
+  template?: string;
+  roadmapChart: string;
+  economics?: string;
+}
+
+/**
+ * Generate PRD and roadmap from an answers file without any prompts.
+ * Intended for CI: exits non-zero when validation blockers are found.
+ */
+export async function generateCommand(options: GenerateOptions): Promise<void> {
+  try {
+    Logger.title('Generating From Answers File');
+    Logger.info(`Answers: ${options.answers}`);
+
+    const data = await loadAnswers(options.answers);
+    const template = await TemplateRegistry.resolve(options.template);
+    const roadmapChart = Validator.validateRoadmapChart(options.roadmapChart);
+    const calendar = await WorkCalendar.fromOptions(options);
+    const economics = await ProjectEconomicsService.load(options.economics);
+
+    // Answers files without stories get the template breakdown
+    data.userStories ??= FeatureBreakdownService.breakdown(data);
+
+    const report = validateProject(data);
+    displayValidationReport(report);
+
+    if (report.blockers.length > 0) {
+      Logger.error(`Validation found ${report.blockers.length} blocker(s). No documents generated.`);
+      process.exit(1);
+    }
+
+    const prdGenerator = new PRDGenerator(template);
+    const prdPath = await prdGenerator.saveContent(prdGenerator.generate(data), options.output, 'PRD.md');
+
+    const roadmapGenerator = new RoadmapGenerator({ chart: roadmapChart, calendar, economics });
+    const roadmapPath = await FileSystem.saveFile(options.output, 'ROADMAP.md', roadmapGenerator.generate(data));
+    const calendarPath = await FileSystem.saveFile(
+      options.output,
+      'ROADMAP.ics',
+      CalendarExportGenerator.generate(data, calendar)
+    );
+
+    const jsonPath = FileSystem.getOutputPath(options.output, 'prd.json');
+    await FileSystem.saveJSON(jsonPath, data);
+
+    Logger.section('Generated Files');
+    Logger.success(`PRD: ${prdPath}`);
+    Logger.success(`Roadmap: ${roadmapPath}`);
+    Logger.success(`Calendar: ${calendarPath}`);
+    Logger.success(`Data: ${jsonPath}`);
+  } catch (error) {
+    Logger.error('Generation failed:');
+    if (error instanceof Error) {
+      Logger.error(error.message);
+      if (process.env.DEBUG === 'true') {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Load an answers file (or a generated prd.json) and validate it against the PRD data schema
+ */
+export async function loadAnswers(filePath: string): Promise<PRDData> {
+  const raw = await FileSystem.loadDataFile<Record<string, unknown>>(filePath);
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${filePath} does not contain an answers object`);
+  }
+
+  // Session metadata is optional in answers files
+  const data = Validator.validate(PRDDataSchema, {
+    generatedAt: new Date(),
+    sessionDuration: 0,
+    ...raw,
+  });
+
+  // A feature ranking keeps only its must-haves as core features
+  return data.prioritization ? FeaturePrioritizationService.apply(data, data.prioritization) : data;
+}
@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { Logger } from '../utils/logger.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { PRDImporter } from '../services/prdImporter.js';
+import { PRDDataSchema } from '../validators/schemas.js';
+import { validateProject, displayValidationReport } from '../validators/validationIntegrator.js';
+
+interface ImportOptions {
+  output?: string;
+  validate: boolean;
+}
+
+/**
+ * Parse a PRD Markdown file into PRD data. The JSON it writes works as an
+ * answers file for generate, diff and export.
+ */
+export async function importCommand(file: string, options: ImportOptions): Promise<void> {
+  try {
+    Logger.title('Importing PRD');
+    Logger.info(`Source: ${file}`);
+
+    const { data, warnings } = PRDImporter.parse(await FileSystem.readFile(file));
+
+    if (warnings.length > 0) {
+      Logger.section('Import Warnings');
+      warnings.forEach(warning => Logger.warning(warning));
+    }
+
+    Logger.section('Imported');
+    Logger.item(`Project: ${data.project.name || '(unnamed)'}`);
+    Logger.item(`Core features: ${data.mvp.coreFeatures.length}`);
+    Logger.item(`Phases: ${data.timeline.phases.length} (${data.timeline.totalWeeks} weeks)`);
+    Logger.item(`Risks: ${data.risks.length}`);
+
+    // Hand-written PRDs often miss fields the planning session enforces
+    const schema = PRDDataSchema.safeParse(data);
+    if (!schema.success) {
+      Logger.section('Schema Issues');
+      schema.error.issues.forEach(issue => Logger.warning(`${issue.path.join('.')}: ${issue.message}`));
+      Logger.info('Fix these in the JSON before using it as an answers file');
+    }
+
+    const outputPath = options.output
+      || path.join(path.dirname(file), `${path.basename(file, path.extname(file))}.imported.json`);
+    await FileSystem.saveJSON(outputPath, data);
+
+    if (options.validate) {
+      displayValidationReport(validateProject(data));
+    }
+  } catch (error) {
+    Logger.error('Import failed:');
+    if (error instanceof Error) {
+      Logger.error(error.message);
+      if (process.env.DEBUG === 'true') {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
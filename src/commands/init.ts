@@ -4,177 +4,338 @@ import { Logger } from '../utils/logger.js';
 import { Spinner } from '../utils/spinner.js';
 import { SessionTimer } from '../utils/timer.js';
 import { collectAllQuestions, askQuickStartQuestions } from '../questions/index.js';
-import { createAIEnhancedFlow } from '../questions/aiEnhanced.js';
+import { createAIEnhancedFlow, AIEnhancedQuestions } from '../questions/aiEnhanced.js';
+import { askFeaturePrioritization } from '../questions/prioritization.js';
 import { PRDGenerator } from '../generators/prd.js';
 import { RoadmapGenerator } from '../generators/roadmap.js';
 import { CostReportGenerator } from '../generators/costReport.js';
-import { PRDData } from '../types/index.js';
+import { AIMode, PRDData, PRDFormat, ProjectInfo, SessionSettings, SessionType } from '../types/index.js';
+import { AICassetteConfig, AIConfig } from '../types/ai.js';
 import { Validator } from '../validators/index.js';
 import { runInteractiveValidation } from '../validators/validationIntegrator.js';
 import { FileSystem } from '../utils/fileSystem.js';
+import { SessionCheckpointService } from '../services/sessionCheckpoint.js';
+import { parseModelRoutes } from '../services/llmProvider.js';
+import { TemplateRegistry } from '../services/templateRegistry.js';
+import { ScheduleOptions, WorkCalendar } from '../services/workCalendar.js';
+import { ProjectEconomicsService } from '../services/projectEconomics.js';
+import { FeatureBreakdownService } from '../services/featureBreakdown.js';
+import { FeaturePrioritizationService } from '../services/featurePrioritization.js';
+import { CalendarExportGenerator } from '../generators/calendarExport.js';
 import { v4 as uuidv4 } from 'uuid';
 
-interface InitOptions {
+/**
+ * CLI flags for the generated documents
+ */
+export interface OutputOptions extends ScheduleOptions {
+  template?: string;
+  format: string;
+  roadmapChart: string;
+  economics?: string;
+}
+
+interface InitOptions extends OutputOptions {
   output: string;
   timeLimit: string;
   ai: boolean;
-  aiMode?: 'active' | 'passive' | 'off';
+  aiMode?: AIMode;
+  aiRecord?: string;
+  aiReplay?: string;
+  modelRoute?: string[];
+  skipIntro: boolean;
+}
+
+/**
+ * CLI flags for recording or replaying AI interactions and routing tasks to models
+ */
+export interface AIOptions {
+  aiRecord?: string;
+  aiReplay?: string;
+  modelRoute?: string[];
+}
+
+/**
+ * Everything needed to run (or continue) a planning session
+ */
+export interface PlanningSessionSetup {
+  sessionId: string;
+  sessionDir: string;
+  timeLimit: number;
+  aiMode: AIMode;
   skipIntro: boolean;
+  checkpoint?: SessionCheckpointService;
+  aiConfig?: Partial<AIConfig>;
+  settings: SessionSettings; // Template, formats, charts, schedule and rates of the documents
 }
 
 export async function initCommand(options: InitOptions): Promise<void> {
   try {
-    const sessionStartTime = new Date();
-    const sessionId = uuidv4();
     const timeLimit = Validator.validateTimeLimit(options.timeLimit);
-    
-    // Create session-specific output directory
-    const sessionDir = FileSystem.createSessionDirectory(options.output);
-    
-    if (!options.skipIntro) {
-      showIntro();
-      await pressEnterToContinue();
-    }
+    // Resolved up front so an unknown template or a bad file fails before the session starts
+    const settings = await resolveSessionSettings(options);
+
+    await runPlanningSession({
+      sessionId: uuidv4(),
+      // Create session-specific output directory
+      sessionDir: FileSystem.createSessionDirectory(options.output),
+      timeLimit,
+      // Initialize AI (default is 'active' now)
+      aiMode: options.aiMode || 'active',
+      skipIntro: options.skipIntro,
+      aiConfig: resolveAIOptions(options),
+      settings,
+    });
+  } catch (error) {
+    handleSessionError(error);
+  }
+}
+
+/**
+ * Resolve the output flags into the settings saved with the session
+ */
+export async function resolveSessionSettings(options: OutputOptions): Promise<SessionSettings> {
+  return {
+    template: await TemplateRegistry.resolve(options.template),
+    formats: Validator.validateFormats(options.format),
+    roadmapChart: Validator.validateRoadmapChart(options.roadmapChart),
+    schedule: (await WorkCalendar.fromOptions(options)).config,
+    economics: await ProjectEconomicsService.load(options.economics),
+  };
+}
+
+/**
+ * Turn the AI flags into config overrides
+ */
+export function resolveAIOptions(options: AIOptions): Partial<AIConfig> | undefined {
+  const cassette = resolveCassetteOptions(options);
+  const routing = options.modelRoute ? parseModelRoutes(options.modelRoute) : undefined;
+  return cassette || routing ? { cassette, routing } : undefined;
+}
+
+/**
+ * Turn --ai-record/--ai-replay into a cassette config
+ */
+function resolveCassetteOptions(options: AIOptions): AICassetteConfig | undefined {
+  if (options.aiRecord && options.aiReplay) {
+    throw new Error('Use either --ai-record or --ai-replay, not both');
+  }
+  if (options.aiRecord) {
+    return { mode: 'record', dir: options.aiRecord };
+  }
+  if (options.aiReplay) {
+    return { mode: 'replay', dir: options.aiReplay };
+  }
+  return undefined;
+}
+
+/**
+ * Run the planning session. When a checkpoint is given, answered questions
+ * are restored from it and the session continues with the remaining time budget.
+ */
+export async function runPlanningSession(setup: PlanningSessionSetup): Promise<void> {
+  const { sessionId, sessionDir, timeLimit, aiMode, settings } = setup;
+  const resumed = setup.checkpoint?.getCheckpoint();
+  const elapsedMinutes = resumed?.elapsedMinutes ?? 0;
+  const sessionStartTime = new Date(Date.now() - elapsedMinutes * 60000);
+
+  if (!setup.skipIntro) {
+    showIntro();
+    await pressEnterToContinue();
+  }
 
-    // Initialize session timer
-    const timer = new SessionTimer(timeLimit);
+  // Initialize session timer
+  const timer = new SessionTimer(timeLimit, elapsedMinutes);
 
-    // Start timer with status updates
+  // Start timer with status updates. A session interrupted while generating
+  // has no questions left, so the time limit no longer applies to it.
+  if (!setup.checkpoint?.isGenerating()) {
     timer.start((_elapsed, remaining) => {
       if (remaining % 5 === 0 && remaining > 0 && remaining !== timeLimit) {
         process.stdout.write(`\r${Logger.timer(Math.floor(remaining), Math.floor((remaining % 1) * 60))}`);
       }
     });
+  }
 
-    Logger.title('MVP Planning Session');
-    Logger.info(`Session ID: ${sessionId}`);
-    Logger.info(`Time limit: ${timeLimit} minutes`);
-    Logger.info(`Output directory: ${sessionDir}`);
-    
-    // Initialize AI (default is 'active' now)
-    const aiMode = options.aiMode || 'active';
-    const aiFlow = await createAIEnhancedFlow(sessionId, {
-      aiMode,
-      showCosts: process.env.AI_SHOW_COSTS !== 'false'
-    });
+  Logger.title(resumed ? 'Resuming MVP Planning Session' : 'MVP Planning Session');
+  Logger.info(`Session ID: ${sessionId}`);
+  Logger.info(`Time limit: ${timeLimit} minutes`);
+  if (resumed) {
+    Logger.info(`Time remaining: ${timer.formatTime(timer.getRemainingMinutes())}`);
+  }
+  Logger.info(`Output directory: ${sessionDir}`);
 
-    // Ask for session type
-    const sessionType = await askSessionType();
-    
-    let prdData: PRDData;
-
-    if (sessionType === 'quick') {
-      if (aiMode !== 'off') {
-        // Use AI-enhanced quick start questions
-        prdData = await askQuickStartQuestionsWithAI(sessionStartTime, aiFlow);
-      } else {
-        prdData = await askQuickStartQuestions() as PRDData;
-      }
-    } else {
-      if (aiMode !== 'off') {
-        // Use AI-enhanced question flow
-        prdData = await collectAllQuestionsWithAI(sessionStartTime, aiFlow);
-      } else {
-        prdData = await collectAllQuestions(sessionStartTime);
-      }
-    }
+  const aiFlow = await createAIEnhancedFlow(sessionId, {
+    aiMode,
+    showCosts: process.env.AI_SHOW_COSTS !== 'false',
+    aiConfig: setup.aiConfig,
+  });
 
-    // Stop the timer
-    timer.stop();
+  if (resumed) {
+    aiFlow.restoreState(resumed.contextMemory, resumed.aiMetrics);
+  }
 
-    // Run validation before generating documents
-    Logger.title('Validating Your Plan');
-    let validationPassed = await runInteractiveValidation(prdData);
-    
-    // Additional AI validation if enabled
+  // Ask for session type (a resumed session keeps its original type)
+  const sessionType = resumed?.sessionType ?? await askSessionType();
+
+  const checkpoint = setup.checkpoint ?? SessionCheckpointService.create({
+    id: sessionId,
+    sessionType,
+    aiMode,
+    outputDir: sessionDir,
+    timeLimit,
+    settings,
+  });
+  checkpoint.attach(timer, aiFlow);
+  Logger.info(`Checkpoint: ${checkpoint.getFilePath()}`);
+
+  let prdData: PRDData;
+
+  if (sessionType === 'quick') {
     if (aiMode !== 'off') {
-      const aiValidation = await aiFlow.validateWithAI(prdData);
-      if (!aiValidation.isValid) {
-        validationPassed = false;
-      }
+      // Use AI-enhanced quick start questions
+      prdData = await askQuickStartQuestionsWithAI(sessionStartTime, aiFlow, checkpoint);
+    } else {
+      prdData = await askQuickStartQuestions(checkpoint) as PRDData;
     }
-    
-    if (!validationPassed) {
-      const continueAnyway = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'continue',
-          message: 'Do you want to generate documents despite validation warnings?',
-          default: false,
-        },
-      ]);
-      
-      if (!continueAnyway.continue) {
-        Logger.info('Session cancelled. Please refine your plan and try again.');
-        return;
-      }
+  } else {
+    if (aiMode !== 'off') {
+      // Use AI-enhanced question flow
+      prdData = await collectAllQuestionsWithAI(sessionStartTime, aiFlow, checkpoint);
+    } else {
+      prdData = await collectAllQuestions(sessionStartTime, checkpoint);
     }
+  }
 
-    // Generate outputs
-    Logger.title('Generating Documents');
-    
-    Spinner.start('Creating PRD document...');
-    const prdGenerator = new PRDGenerator();
-    let prdContent = prdGenerator.generate(prdData);
-    
-    // Optimize PRD with AI if enabled
-    if (aiMode !== 'off') {
-      prdContent = await aiFlow.optimizePRD(prdContent);
+  // Only must-haves stay core features, so stories are written for them alone
+  const prioritization = await checkpoint.step('prioritization', () => askFeaturePrioritization(prdData));
+  if (prioritization) {
+    prdData = FeaturePrioritizationService.apply(prdData, prioritization);
+    Logger.success(`${prdData.mvp.coreFeatures.length} must-have feature(s) stay in the MVP`);
+  }
+
+  // Stop the timer
+  timer.stop();
+
+  Logger.title('Breaking Down Features');
+  const drafts = aiMode !== 'off' ? await aiFlow.breakdownFeaturesWithAI(prdData) : null;
+  prdData.userStories = FeatureBreakdownService.breakdown(prdData, drafts);
+  const storyPoints = prdData.userStories.reduce((sum, story) => sum + story.points, 0);
+  Logger.success(`${prdData.userStories.length} user stories, ${storyPoints} story points`);
+
+  await checkpoint.startGenerating(prdData);
+
+  // Run validation before generating documents
+  Logger.title('Validating Your Plan');
+  let validationPassed = await runInteractiveValidation(prdData);
+  
+  // Additional AI validation if enabled
+  if (aiMode !== 'off') {
+    const aiValidation = await aiFlow.validateWithAI(prdData);
+    if (!aiValidation.isValid) {
+      validationPassed = false;
     }
+  }
+  
+  if (!validationPassed) {
+    const continueAnyway = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'continue',
+        message: 'Do you want to generate documents despite validation warnings?',
+        default: false,
+      },
+    ]);
     
-    const prdPath = await prdGenerator.saveContent(prdContent, sessionDir, 'PRD.md');
-    Spinner.succeed('PRD document created');
+    if (!continueAnyway.continue) {
+      Logger.info('Session cancelled. Please refine your plan and try again.');
+      return;
+    }
+  }
 
-    Spinner.start('Creating development roadmap...');
-    const roadmapGenerator = new RoadmapGenerator();
-    const roadmapPath = await roadmapGenerator.save(prdData, sessionDir);
-    Spinner.succeed('Roadmap created');
+  // Generate outputs
+  Logger.title('Generating Documents');
+  
+  Spinner.start('Creating PRD document...');
+  const prdGenerator = new PRDGenerator(settings.template);
+  let prdContent = prdGenerator.generate(prdData);
+  
+  // Optimize PRD with AI if enabled
+  if (aiMode !== 'off') {
+    prdContent = await aiFlow.optimizePRD(prdContent);
+  }
+  
+  const prdPaths = await prdGenerator.saveFormats(prdData, prdContent, sessionDir, settings.formats);
+  Spinner.succeed('PRD document created');
+
+  Spinner.start('Creating development roadmap...');
+  const roadmapGenerator = new RoadmapGenerator({
+    chart: settings.roadmapChart,
+    calendar: new WorkCalendar(settings.schedule),
+    economics: settings.economics,
+  });
+  const roadmapPath = await roadmapGenerator.save(prdData, sessionDir);
+  const calendarPath = await FileSystem.saveFile(
+    sessionDir,
+    'ROADMAP.ics',
+    CalendarExportGenerator.generate(prdData, roadmapGenerator.calendar)
+  );
+  Spinner.succeed('Roadmap created');
+  
+  // Generate cost report if AI was used
+  if (aiMode !== 'off') {
+    Spinner.start('Creating cost report...');
+    const metrics = aiFlow.getMetrics();
+    const budget = aiFlow.getAIService().getMaxBudget();
+    const costReport = CostReportGenerator.generateCostReport(
+      metrics.aiMetrics,
+      metrics.sessionAnalytics,
+      budget,
+      settings.economics
+    );
+    const costJson = CostReportGenerator.generateCostJSON(
+      metrics.aiMetrics,
+      metrics.sessionAnalytics,
+      budget,
+      settings.economics
+    );
     
-    // Generate cost report if AI was used
-    if (aiMode !== 'off') {
-      Spinner.start('Creating cost report...');
-      const metrics = aiFlow.getMetrics();
-      const costReport = CostReportGenerator.generateCostReport(
-        metrics.aiMetrics,
-        metrics.sessionAnalytics
-      );
-      const costJson = CostReportGenerator.generateCostJSON(
-        metrics.aiMetrics,
-        metrics.sessionAnalytics
-      );
-      
-      await FileSystem.saveFile(
-        sessionDir,
-        'ai-cost-report.md',
-        costReport
-      );
-      await FileSystem.saveFile(
-        sessionDir,
-        'ai-cost-report.json',
-        JSON.stringify(costJson, null, 2)
-      );
-      Spinner.succeed('Cost report created');
-    }
+    await FileSystem.saveFile(
+      sessionDir,
+      'ai-cost-report.md',
+      costReport
+    );
+    await FileSystem.saveFile(
+      sessionDir,
+      'ai-cost-report.json',
+      JSON.stringify(costJson, null, 2)
+    );
+    Spinner.succeed('Cost report created');
+  }
 
-    // Show summary
-    showSummary(prdData, prdPath, roadmapPath, aiMode !== 'off' ? aiFlow.getMetrics() : null);
+  await checkpoint.complete(prdData);
 
-    // Ask for feedback
-    await askForFeedback();
+  // Show summary
+  showSummary(prdData, prdPaths, roadmapPath, calendarPath, aiMode !== 'off' ? aiFlow.getMetrics() : null);
 
-    Logger.success('Session completed successfully!');
-    
-  } catch (error) {
-    Spinner.fail();
-    Logger.error('Session failed:');
-    if (error instanceof Error) {
-      Logger.error(error.message);
-      if (process.env.DEBUG === 'true') {
-        console.error(error.stack);
-      }
+  // Ask for feedback
+  await askForFeedback();
+
+  Logger.success('Session completed successfully!');
+}
+
+/**
+ * Report a failed session and exit
+ */
+export function handleSessionError(error: unknown): never {
+  Spinner.fail();
+  Logger.error('Session failed:');
+  if (error instanceof Error) {
+    Logger.error(error.message);
+    if (process.env.DEBUG === 'true') {
+      console.error(error.stack);
     }
-    process.exit(1);
   }
+  process.exit(1);
 }
 
 function showIntro(): void {
@@ -210,7 +371,7 @@ async function pressEnterToContinue(): Promise<void> {
   ]);
 }
 
-async function askSessionType(): Promise<string> {
+async function askSessionType(): Promise<SessionType> {
   const answer = await inquirer.prompt([
     {
       type: 'list',
@@ -231,38 +392,52 @@ async function askSessionType(): Promise<string> {
   return answer.type;
 }
 
-async function collectAllQuestionsWithAI(sessionStartTime: Date, aiFlow: any): Promise<PRDData> {
+async function collectAllQuestionsWithAI(
+  sessionStartTime: Date,
+  aiFlow: AIEnhancedQuestions,
+  checkpoint: SessionCheckpointService
+): Promise<PRDData> {
   // Import needed functions
   const { enforceTimeBox } = await import('../questions/coreQuestions.js');
+  checkpoint.setTotalSteps(17); // Includes the feature prioritization after the questions
   
   // Start with core questions using AI enhancement
   Logger.section('Core Project Definition');
   
   // Use optimized AI-enhanced questions for core questions
-  const projectName = await aiFlow.askWithAIOptimized(
+  const projectName = await checkpoint.step('projectName', () => aiFlow.askWithAIOptimized(
     'What is the name of your project?',
     (v: string) => v.length >= 2 || 'Project name must be at least 2 characters'
-  );
+  ));
   
-  const problem = await aiFlow.askWithAIOptimized(
+  const problem = await checkpoint.step('problem', () => aiFlow.askWithAIOptimized(
     'What problem does your project solve? (Be specific)',
     (v: string) => v.length >= 20 || 'Please provide a more detailed problem statement (min 20 chars)'
-  );
+  ));
   
-  const solution = await aiFlow.askWithAIOptimized(
+  const solution = await checkpoint.step('solution', () => aiFlow.askWithAIOptimized(
     'How does your project solve this problem?',
     (v: string) => v.length >= 20 || 'Please provide a more detailed solution (min 20 chars)'
-  );
+  ));
   
-  const targetAudience = await aiFlow.askWithAIOptimized(
+  const targetAudience = await checkpoint.step('targetAudience', () => aiFlow.askWithAIOptimized(
     'Who is your target audience? (Be specific about demographics)',
     (v: string) => v.length >= 10 || 'Please be more specific about your target audience'
-  );
+  ));
   
-  const uniqueValue = await aiFlow.askWithAIOptimized(
+  const uniqueValue = await checkpoint.step('uniqueValue', () => aiFlow.askWithAIOptimized(
     'What makes your solution unique compared to existing alternatives?',
     (v: string) => v.length >= 20 || 'Please provide more detail about your unique value'
-  );
+  ));
+  
+  const project: ProjectInfo = {
+    name: projectName,
+    description: solution,
+    targetAudience,
+    problemStatement: problem,
+    uniqueValue
+  };
+  await checkpoint.recordSection('project', project);
   
   // Check time box
   if (enforceTimeBox(sessionStartTime, 15)) {
@@ -272,111 +447,105 @@ async function collectAllQuestionsWithAI(sessionStartTime: Date, aiFlow: any): P
   // MVP Questions with AI
   Logger.section('MVP Scope');
   
-  const coreFeatures = await aiFlow.askListWithAI(
+  const coreFeatures = await checkpoint.step('coreFeatures', () => aiFlow.askListWithAI(
     'List 3-5 core features for your MVP (most essential only):',
     {
       minItems: 3,
       maxItems: 5,
       itemMinLength: 5
     }
-  );
+  ));
   
-  const successMetrics = await aiFlow.askListWithAI(
+  const successMetrics = await checkpoint.step('successMetrics', () => aiFlow.askListWithAI(
     'List 2-4 success metrics (how will you measure success?):',
     {
       minItems: 2,
       maxItems: 4,
       itemMinLength: 5
     }
-  );
+  ));
   
-  const outOfScope = await aiFlow.askListWithAI(
+  const outOfScope = await checkpoint.step('outOfScope', () => aiFlow.askListWithAI(
     'List features that are OUT of scope for MVP (save for later):',
     {
       minItems: 2,
       maxItems: 10,
       itemMinLength: 5
     }
-  );
+  ));
   
   // Timeline Questions with AI
   Logger.section('Timeline Planning');
   
-  const timelineWeeks = await aiFlow.askWithAIOptimized(
+  const timelineWeeks = await checkpoint.step('timelineWeeks', () => aiFlow.askWithAIOptimized(
     'How many weeks do you estimate for MVP development? (be realistic)',
     (v: string) => {
       const weeks = parseInt(v);
       return (!isNaN(weeks) && weeks >= 2 && weeks <= 52) || 'Please enter a number between 2 and 52 weeks';
     }
-  );
+  ));
   
   // Technical Questions with AI
   Logger.section('Technical Decisions');
   
-  const techStackFrontend = await aiFlow.askWithAIOptimized(
+  const techStackFrontend = await checkpoint.step('techStackFrontend', () => aiFlow.askWithAIOptimized(
     'What frontend technology will you use? (e.g., React, Vue, vanilla JS)',
     (v: string) => v.length >= 2 || 'Please specify a frontend technology'
-  );
+  ));
   
-  const techStackBackend = await aiFlow.askWithAIOptimized(
+  const techStackBackend = await checkpoint.step('techStackBackend', () => aiFlow.askWithAIOptimized(
     'What backend technology will you use? (e.g., Node.js, Python, Rails)',
     (v: string) => v.length >= 2 || 'Please specify a backend technology'
-  );
+  ));
   
-  const techStackDatabase = await aiFlow.askWithAIOptimized(
+  const techStackDatabase = await checkpoint.step('techStackDatabase', () => aiFlow.askWithAIOptimized(
     'What database will you use? (e.g., PostgreSQL, MongoDB, Firebase)',
     (v: string) => v.length >= 2 || 'Please specify a database'
-  );
+  ));
   
   // Risk Assessment with AI
-  const risks = await aiFlow.askListWithAI(
+  const risks = await checkpoint.step('risks', () => aiFlow.askListWithAI(
     'List 2-5 main risks or challenges for this project:',
     {
       minItems: 2,
       maxItems: 5,
       itemMinLength: 10
     }
-  );
+  ));
   
   // Final Details with AI
   Logger.section('Final Details');
   
-  const assumptions = await aiFlow.askListWithAI(
+  const assumptions = await checkpoint.step('assumptions', () => aiFlow.askListWithAI(
     'List key assumptions (what you assume to be true):',
     {
       minItems: 1,
       maxItems: 10,
       itemMinLength: 5
     }
-  );
+  ));
   
-  const openQuestions = await aiFlow.askListWithAI(
+  const openQuestions = await checkpoint.step('openQuestions', () => aiFlow.askListWithAI(
     'List open questions to research:',
     {
       minItems: 1,
       maxItems: 10,
       itemMinLength: 5
     }
-  );
+  ));
   
-  const nextSteps = await aiFlow.askListWithAI(
+  const nextSteps = await checkpoint.step('nextSteps', () => aiFlow.askListWithAI(
     'List immediate next steps after this planning session:',
     {
       minItems: 3,
       maxItems: 10,
       itemMinLength: 5
     }
-  );
+  ));
   
   // Construct PRDData object
   const prdData: PRDData = {
-    project: {
-      name: projectName,
-      description: solution,
-      targetAudience,
-      problemStatement: problem,
-      uniqueValue
-    },
+    project,
     mvp: {
       problemStatement: problem,
       solutionApproach: solution,
@@ -408,12 +577,12 @@ async function collectAllQuestionsWithAI(sessionStartTime: Date, aiFlow: any): P
       milestones: [
         {
           name: 'Development Start',
-          date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          date: 'Week 1',
           criteria: ['Environment ready', 'Project structure defined']
         },
         {
           name: 'MVP Complete',
-          date: new Date(Date.now() + parseInt(timelineWeeks) * 7 * 24 * 60 * 60 * 1000).toISOString(),
+          date: `Week ${parseInt(timelineWeeks)}`,
           criteria: ['All core features complete', 'Testing passed', 'Ready for deployment']
         }
       ]
@@ -441,102 +610,110 @@ async function collectAllQuestionsWithAI(sessionStartTime: Date, aiFlow: any): P
   return prdData;
 }
 
-async function askQuickStartQuestionsWithAI(sessionStartTime: Date, aiFlow: any): Promise<PRDData> {
+async function askQuickStartQuestionsWithAI(
+  sessionStartTime: Date,
+  aiFlow: AIEnhancedQuestions,
+  checkpoint: SessionCheckpointService
+): Promise<PRDData> {
   Logger.title('QUICK START MODUS MIT KI');
+  checkpoint.setTotalSteps(11); // Includes the feature prioritization after the questions
   
   // Project Questions with AI
   Logger.section('Projektinformationen');
   
-  const projectName = await aiFlow.askWithAIOptimized(
+  const projectName = await checkpoint.step('projectName', () => aiFlow.askWithAIOptimized(
     'Wie lautet der Name Ihres Projekts?',
     (v: string) => v.length >= 2 || 'Projektname muss mindestens 2 Zeichen lang sein'
-  );
+  ));
   
-  const description = await aiFlow.askWithAIOptimized(
+  const description = await checkpoint.step('description', () => aiFlow.askWithAIOptimized(
     'Beschreiben Sie Ihr Projekt in 2-3 Sätzen:',
     (v: string) => v.length >= 10 || 'Bitte geben Sie eine detailliertere Beschreibung (min. 10 Zeichen)'
-  );
+  ));
   
-  const targetAudience = await aiFlow.askWithAIOptimized(
+  const targetAudience = await checkpoint.step('targetAudience', () => aiFlow.askWithAIOptimized(
     'Wer ist Ihre Zielgruppe?',
     (v: string) => v.length >= 10 || 'Bitte seien Sie spezifischer bei Ihrer Zielgruppe'
-  );
+  ));
   
-  const problem = await aiFlow.askWithAIOptimized(
+  const problem = await checkpoint.step('problem', () => aiFlow.askWithAIOptimized(
     'Welches Problem löst Ihr Projekt?',
     (v: string) => v.length >= 20 || 'Bitte geben Sie eine detailliertere Problembeschreibung (min. 20 Zeichen)'
-  );
+  ));
   
-  const uniqueValue = await aiFlow.askWithAIOptimized(
+  const uniqueValue = await checkpoint.step('uniqueValue', () => aiFlow.askWithAIOptimized(
     'Was macht Ihre Lösung einzigartig?',
     (v: string) => v.length >= 10 || 'Bitte beschreiben Sie, was Ihre Lösung einzigartig macht'
-  );
+  ));
+  
+  const project: ProjectInfo = {
+    name: projectName,
+    description,
+    targetAudience,
+    problemStatement: problem,
+    uniqueValue
+  };
+  await checkpoint.recordSection('project', project);
   
   // MVP Questions with AI
   Logger.section('MVP-Umfang');
   
-  const numFeaturesStr = await aiFlow.askWithAIOptimized(
+  const numFeaturesStr = await checkpoint.step('featureCount', () => aiFlow.askWithAIOptimized(
     'Wie viele Kernfunktionen soll Ihr MVP haben? (3-5 empfohlen für echtes MVP):',
     (v: string) => {
       const num = parseInt(v);
       return (!isNaN(num) && num >= 1 && num <= 10) || 'Bitte geben Sie eine Zahl zwischen 1 und 10 ein';
     },
     '3'
-  );
+  ));
   const numFeatures = parseInt(numFeaturesStr);
   
   // Use individual prompts for MVP features for better user experience
-  const coreFeatures = await aiFlow.askIndividualItemsWithAI(
+  const coreFeatures = await checkpoint.step('coreFeatures', () => aiFlow.askIndividualItemsWithAI(
     `Geben Sie Ihre ${numFeatures} MVP-Kernfunktionen ein:`,
     numFeatures,
     {
       itemMinLength: 5,
       itemName: 'Kernfunktion'
     }
-  );
+  ));
   
-  const successMetrics = await aiFlow.askListWithAI(
+  const successMetrics = await checkpoint.step('successMetrics', () => aiFlow.askListWithAI(
     'Listen Sie 2-3 Erfolgsmetriken auf (wie messen Sie den Erfolg?):',
     {
       minItems: 2,
       maxItems: 3,
       itemMinLength: 5
     }
-  );
+  ));
   
   // Timeline with AI
   Logger.section('Zeitplan');
   
-  const timelineWeeks = await aiFlow.askWithAIOptimized(
+  const timelineWeeks = await checkpoint.step('timelineWeeks', () => aiFlow.askWithAIOptimized(
     'Wie viele Wochen für die MVP-Entwicklung? (seien Sie realistisch):',
     (v: string) => {
       const weeks = parseInt(v);
       return (!isNaN(weeks) && weeks >= 2 && weeks <= 52) || 'Bitte geben Sie eine Zahl zwischen 2 und 52 Wochen ein';
     },
     '8'
-  );
+  ));
   
   // Risks with AI
   Logger.section('Risikobewertung');
   
-  const risks = await aiFlow.askListWithAI(
+  const risks = await checkpoint.step('risks', () => aiFlow.askListWithAI(
     'Listen Sie 2-3 Hauptrisiken für dieses Projekt auf:',
     {
       minItems: 2,
       maxItems: 3,
       itemMinLength: 10
     }
-  );
+  ));
   
   // Build PRDData
   const prdData: PRDData = {
-    project: {
-      name: projectName,
-      description,
-      targetAudience,
-      problemStatement: problem,
-      uniqueValue
-    },
+    project,
     mvp: {
       problemStatement: problem,
       solutionApproach: description,
@@ -558,7 +735,7 @@ async function askQuickStartQuestionsWithAI(sessionStartTime: Date, aiFlow: any)
       milestones: [
         {
           name: 'MVP Complete',
-          date: new Date(Date.now() + parseInt(timelineWeeks) * 7 * 24 * 60 * 60 * 1000).toISOString(),
+          date: `Week ${parseInt(timelineWeeks)}`,
           criteria: ['All core features complete']
         }
       ]
@@ -585,7 +762,13 @@ async function askQuickStartQuestionsWithAI(sessionStartTime: Date, aiFlow: any)
   return prdData;
 }
 
-function showSummary(data: PRDData, prdPath: string, roadmapPath: string, aiMetrics?: any): void {
+function showSummary(
+  data: PRDData,
+  prdPaths: Partial<Record<PRDFormat, string>>,
+  roadmapPath: string,
+  calendarPath: string,
+  aiMetrics?: any
+): void {
   Logger.title('Planning Complete!');
   
   Logger.section('Project Summary');
@@ -602,8 +785,11 @@ function showSummary(data: PRDData, prdPath: string, roadmapPath: string, aiMetr
   }
 
   Logger.section('Generated Files');
-  Logger.success(`PRD: ${prdPath}`);
+  Object.entries(prdPaths).forEach(([format, filePath]) => {
+    Logger.success(`PRD (${format}): ${filePath}`);
+  });
   Logger.success(`Roadmap: ${roadmapPath}`);
+  Logger.success(`Calendar: ${calendarPath}`);
   
   // Show AI metrics if available
   if (aiMetrics) {
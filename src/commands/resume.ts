@@ -0,0 +1,42 @@
+import chalk from 'chalk';
+import { Logger } from '../utils/logger.js';
+import { SessionCheckpointService } from '../services/sessionCheckpoint.js';
+import { runPlanningSession, handleSessionError, resolveAIOptions, AIOptions } from './init.js';
+
+export async function resumeCommand(sessionFile: string, options: AIOptions = {}): Promise<void> {
+  try {
+    const checkpoint = await SessionCheckpointService.load(sessionFile);
+    const saved = checkpoint.getCheckpoint();
+
+    if (checkpoint.isCompleted()) {
+      Logger.success(`Session ${saved.id} is already complete.`);
+      Logger.info(`Generated files are in: ${saved.outputDir}`);
+      return;
+    }
+
+    const remaining = saved.timeLimit - saved.elapsedMinutes;
+    if (remaining <= 0 && !checkpoint.isGenerating()) {
+      Logger.error(`Session ${saved.id} has no time left (${saved.timeLimit} minute limit reached).`);
+      Logger.info('Start a new session with a longer --time-limit instead.');
+      return;
+    }
+
+    Logger.info(chalk.cyan(`Resuming session ${saved.id} (${saved.progress}% complete)`));
+    Logger.item(`Answered: ${checkpoint.getAnsweredCount()} questions`);
+    Logger.item(`Last step: ${saved.currentStep}`);
+    Logger.item(`Last update: ${saved.lastUpdate.toLocaleString()}`);
+
+    await runPlanningSession({
+      sessionId: saved.id,
+      sessionDir: saved.outputDir,
+      timeLimit: saved.timeLimit,
+      aiMode: saved.aiMode,
+      skipIntro: true,
+      checkpoint,
+      aiConfig: resolveAIOptions(options),
+      settings: saved.settings,
+    });
+  } catch (error) {
+    handleSessionError(error);
+  }
+}
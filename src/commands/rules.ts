@@ -0,0 +1,31 @@
+import chalk from 'chalk';
+import { Logger } from '../utils/logger.js';
+import { ScopeRuleEngine } from '../services/scopeRuleEngine.js';
+import { ScopeRuleCategory, ScopeRuleSeverity } from '../types/scopeRules.js';
+
+const CATEGORIES: ScopeRuleCategory[] = ['complexity', 'overengineering', 'business'];
+
+const SEVERITY_COLORS: Record<ScopeRuleSeverity, (text: string) => string> = {
+  info: chalk.blue,
+  warning: chalk.yellow,
+  critical: chalk.red,
+};
+
+/**
+ * List the scope-protection rules in effect, with the ids that rule files
+ * use to override or disable them
+ */
+export async function rulesListCommand(): Promise<void> {
+  const rules = ScopeRuleEngine.getRules(true);
+
+  CATEGORIES.forEach(category => {
+    Logger.section(`${category.charAt(0).toUpperCase()}${category.slice(1)} Rules`);
+    rules.filter(rule => rule.category === category).forEach(rule => {
+      const status = rule.enabled === false ? chalk.gray(' (disabled)') : '';
+      const source = rule.source && rule.source !== 'built-in' ? chalk.gray(` [${rule.source}]`) : '';
+      Logger.item(`${chalk.bold(rule.id)} ${SEVERITY_COLORS[rule.severity](rule.severity)}${status}: ${rule.message}${source}`);
+    });
+  });
+
+  Logger.info(`User rule files: ${ScopeRuleEngine.getDirectory()} and scopeRules in the project config`);
+}
@@ -0,0 +1,54 @@
+import chalk from 'chalk';
+import { Logger } from '../utils/logger.js';
+import { TemplateRegistry } from '../services/templateRegistry.js';
+
+export async function templatesListCommand(): Promise<void> {
+  await runTemplateCommand(async () => {
+    const templates = await TemplateRegistry.list();
+    const defaultName = await TemplateRegistry.getDefault();
+
+    Logger.info(chalk.cyan('Available templates:'));
+    for (const template of templates) {
+      const marker = template.name === defaultName ? chalk.green(' (default)') : '';
+      const source = template.source === 'user' ? chalk.gray(` [${template.path}]`) : '';
+      Logger.item(`${chalk.bold(template.name)}${marker}: ${template.description}${source}`);
+    }
+  });
+}
+
+export async function templatesAddCommand(templatePath: string, options: { name?: string }): Promise<void> {
+  await runTemplateCommand(async () => {
+    const template = await TemplateRegistry.add(templatePath, options.name);
+    Logger.success(`Template "${template.name}" added`);
+    Logger.info(`Use it with: prd-zero init --template ${template.name}`);
+  });
+}
+
+export async function templatesShowCommand(name: string): Promise<void> {
+  await runTemplateCommand(async () => {
+    process.stdout.write(await TemplateRegistry.load(name));
+  });
+}
+
+export async function templatesRemoveCommand(name: string): Promise<void> {
+  await runTemplateCommand(async () => {
+    await TemplateRegistry.remove(name);
+    Logger.success(`Template "${name}" removed`);
+  });
+}
+
+export async function templatesUseCommand(name: string): Promise<void> {
+  await runTemplateCommand(async () => {
+    await TemplateRegistry.setDefault(name);
+    Logger.success(`"${name}" is now the default template`);
+  });
+}
+
+async function runTemplateCommand(action: () => Promise<void>): Promise<void> {
+  try {
+    await action();
+  } catch (error) {
+    Logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,96 @@
+import * as path from 'path';
+import { Logger } from '../utils/logger.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import {
+  ValidationReport,
+  validateProject,
+  displayValidationReport,
+} from '../validators/validationIntegrator.js';
+import { ValidationReportFormat, ValidationReportGenerator } from '../generators/validationReport.js';
+import { loadAnswers } from './generate.js';
+
+const REPORT_FORMATS = ['text', 'json', 'sarif', 'junit'];
+
+/**
+ * Exit codes of `prd-zero validate`, so CI can tell a bad plan from a broken run
+ */
+export const VALIDATE_EXIT_CODES = {
+  passed: 0,
+  criticalIssues: 1,
+  blockers: 2,
+  error: 3,
+} as const;
+
+interface ValidateOptions {
+  format: string;
+  output?: string;
+  strict?: boolean;
+}
+
+/**
+ * Validate a saved plan and print or write the report. Without --output,
+ * machine-readable formats go to stdout and nothing else is printed there.
+ */
+export async function validateCommand(prdFile: string, options: ValidateOptions): Promise<void> {
+  let exitCode: number = VALIDATE_EXIT_CODES.error;
+
+  try {
+    const format = options.format.trim().toLowerCase();
+    if (!REPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown report format "${options.format}". Use: ${REPORT_FORMATS.join(', ')}`);
+    }
+
+    const report = validateProject(await loadAnswers(prdFile));
+    exitCode = getExitCode(report, options.strict ?? false);
+
+    if (format === 'text') {
+      displayValidationReport(report);
+    } else {
+      const content = ValidationReportGenerator.generate(
+        format as ValidationReportFormat,
+        report,
+        path.relative(process.cwd(), prdFile) || prdFile,
+        { strict: options.strict }
+      );
+
+      if (options.output) {
+        await FileSystem.writeFile(options.output, content);
+      } else {
+        process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+      }
+    }
+
+    if (format === 'text' || options.output) {
+      logVerdict(report, exitCode);
+    }
+  } catch (error) {
+    Logger.error('Validation failed:');
+    if (error instanceof Error) {
+      Logger.error(error.message);
+      if (process.env.DEBUG === 'true') {
+        console.error(error.stack);
+      }
+    }
+  }
+
+  process.exit(exitCode);
+}
+
+/**
+ * Blockers outrank other critical issues; --strict also fails on warnings
+ */
+export function getExitCode(report: ValidationReport, strict: boolean): number {
+  if (report.blockers.length > 0) return VALIDATE_EXIT_CODES.blockers;
+  if (report.criticalIssues.length > 0) return VALIDATE_EXIT_CODES.criticalIssues;
+  if (strict && report.warnings.length > 0) return VALIDATE_EXIT_CODES.criticalIssues;
+  return VALIDATE_EXIT_CODES.passed;
+}
+
+function logVerdict(report: ValidationReport, exitCode: number): void {
+  const counts = `${report.blockers.length} blockers, ${report.criticalIssues.length} critical issues, ${report.warnings.length} warnings`;
+  if (exitCode === VALIDATE_EXIT_CODES.passed) {
+    Logger.success(`Validation passed (${counts})`);
+  } else {
+    Logger.error(`Validation failed with exit code ${exitCode} (${counts})`);
+  }
+}
@@ -0,0 +1,123 @@
+import { PRDData } from '../types/index.js';
+import { RoadmapGenerator } from './roadmap.js';
+import { WorkCalendar } from '../services/workCalendar.js';
+import { addDays, formatISODate } from '../utils/dates.js';
+
+// RFC 5545 limits content lines to 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * iCalendar (.ics) export of sprints and milestones as all-day events
+ */
+export class CalendarExportGenerator {
+  static generate(data: PRDData, calendar: WorkCalendar = WorkCalendar.fromToday()): string {
+    const roadmap = new RoadmapGenerator({ calendar });
+    const slug = data.project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//prd-zero//Roadmap//EN',
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${escapeText(`${data.project.name} Roadmap`)}`,
+    ];
+
+    roadmap.scheduleSprints(data).forEach(sprint => {
+      const description = [
+        `Week ${sprint.startWeek} - Week ${sprint.endWeek}, ${sprint.loadHours} of ${sprint.capacityHours} hours planned`,
+        ...sprint.goals.map(goal => `Goal: ${goal}`),
+        ...sprint.features.map(feature => `Feature: ${feature.name}`),
+        ...sprint.deliverables.map(deliverable => `Deliverable: ${deliverable}`),
+      ];
+      lines.push(...event({
+        uid: `${slug}-sprint-${sprint.number}@prd-zero`,
+        stamp,
+        start: sprint.startDate,
+        end: sprint.endDate,
+        summary: sprint.name ? `Sprint ${sprint.number}: ${sprint.name}` : `Sprint ${sprint.number}`,
+        description: description.join('\n'),
+        category: 'Sprint',
+      }));
+    });
+
+    roadmap.scheduleMilestones(data).forEach((milestone, index) => {
+      if (!milestone.dueDate) return;
+      lines.push(...event({
+        uid: `${slug}-milestone-${index + 1}@prd-zero`,
+        stamp,
+        start: milestone.dueDate,
+        end: milestone.dueDate,
+        summary: `Milestone: ${milestone.name}`,
+        description: milestone.criteria.map(criterion => `- ${criterion}`).join('\n'),
+        category: 'Milestone',
+      }));
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+}
+
+interface CalendarEvent {
+  uid: string;
+  stamp: string;
+  start: Date;
+  end: Date; // Last day of the event, inclusive
+  summary: string;
+  description: string;
+  category: string;
+}
+
+function event(details: CalendarEvent): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${details.uid}`,
+    `DTSTAMP:${details.stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(details.start)}`,
+    // DTEND is exclusive for all-day events
+    `DTEND;VALUE=DATE:${icsDate(addDays(details.end, 1))}`,
+    `SUMMARY:${escapeText(details.summary)}`,
+    `DESCRIPTION:${escapeText(details.description)}`,
+    `CATEGORIES:${details.category}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+function icsDate(date: Date): string {
+  return formatISODate(date).replace(/-/g, '');
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split long lines; continuation lines start with a space, which counts
+ * towards their length. Never splits a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
@@ -1,5 +1,9 @@
-import { AIUsageMetrics } from '../types/ai.js';
+import { AIUsageMetrics, AIInteraction } from '../types/ai.js';
+import { AIService } from '../services/aiService.js';
+import { getProviderPricing } from '../services/llmProvider.js';
 import { SessionAnalytics } from '../services/sessionAnalytics.js';
+import { ProjectEconomicsService, formatCurrency } from '../services/projectEconomics.js';
+import { ProjectEconomics } from '../types/index.js';
 import { FileSystem } from '../utils/fileSystem.js';
 import { Logger } from '../utils/logger.js';
 
@@ -11,7 +15,12 @@ export class CostReportGenerator {
   /**
    * Generate cost report markdown
    */
-  static generateCostReport(metrics: AIUsageMetrics, analytics: any): string {
+  static generateCostReport(
+    metrics: AIUsageMetrics,
+    analytics: any,
+    budget: number | undefined,
+    economics: ProjectEconomics = ProjectEconomicsService.defaults()
+  ): string {
     const duration = metrics.endTime 
       ? (metrics.endTime.getTime() - metrics.startTime.getTime()) / 60000 
       : 0;
@@ -21,6 +30,7 @@ export class CostReportGenerator {
     metrics.interactions.forEach(interaction => {
       costByType[interaction.type] = (costByType[interaction.type] || 0) + interaction.cost;
     });
+    const costByModel = this.calculateCostByModel(metrics);
 
     // Calculate cost per metric
     const costPerQuestion = analytics.questionsAnswered > 0 
@@ -31,13 +41,7 @@ export class CostReportGenerator {
       : 0;
     const costPerMinute = duration > 0 ? metrics.estimatedCost / duration : 0;
 
-    // Calculate ROI estimate (assuming 2 hours saved at $50/hour)
-    const timeSavedHours = 2;
-    const hourlyRate = 50;
-    const estimatedValue = timeSavedHours * hourlyRate;
-    const roi = metrics.estimatedCost > 0 
-      ? ((estimatedValue - metrics.estimatedCost) / metrics.estimatedCost * 100).toFixed(1)
-      : '∞';
+    const roi = this.calculateROI(metrics, economics);
 
     return `# Session Cost Report
 
@@ -52,12 +56,15 @@ export class CostReportGenerator {
 - **Total Tokens:** ${metrics.totalTokensUsed.toLocaleString()}
   - Input Tokens: ${metrics.inputTokens.toLocaleString()}
   - Output Tokens: ${metrics.outputTokens.toLocaleString()}
+  - Cache Read Tokens: ${metrics.cacheReadTokens.toLocaleString()}
+  - Cache Write Tokens: ${metrics.cacheWriteTokens.toLocaleString()}
+- **Token Counts:** ${AIService.describeTokenSource(metrics)}
 - **Model:** ${metrics.model}
 
 ## Cost Breakdown
 
 ### Total Cost
-**$${metrics.estimatedCost.toFixed(4)} USD**
+**$${metrics.estimatedCost.toFixed(4)} USD**${metrics.estimatedCalls > 0 ? ' *(includes estimated token counts)*' : ''}
 
 ### Cost by Feature
 ${Object.entries(costByType)
@@ -68,11 +75,23 @@ ${Object.entries(costByType)
   })
   .join('\n')}
 
+### Cost by Model
+${Object.entries(costByModel)
+  .sort((a, b) => b[1].cost - a[1].cost)
+  .map(([model, { calls, cost }]) => {
+    const percent = metrics.estimatedCost > 0 ? (cost / metrics.estimatedCost * 100).toFixed(1) : '0.0';
+    return `- **${model}:** $${cost.toFixed(4)} (${percent}%, ${calls} calls)`;
+  })
+  .join('\n')}
+
 ### Cost Efficiency Metrics
 - **Cost per Question:** $${costPerQuestion.toFixed(4)}
 - **Cost per Generated File:** $${costPerFile.toFixed(4)}
 - **Cost per Minute:** $${costPerMinute.toFixed(4)}
 
+## Prompt Cache Efficiency
+${this.generateCacheEfficiency(metrics)}
+
 ## Interaction Details
 
 ### By Type
@@ -81,18 +100,19 @@ ${Object.entries(costByType).map(([type, _cost]) => {
   return `
 #### ${this.formatFeatureName(type)}
 - Calls: ${interactions.length}
-- Avg Tokens: ${this.calculateAvgTokens(interactions).toFixed(0)}
+- Avg Tokens: ${this.calculateAvgTokens(interactions).toFixed(0)} (${this.describeInteractionSource(interactions)})
 - Total Cost: $${interactions.reduce((sum, i) => sum + i.cost, 0).toFixed(4)}`;
 }).join('\n')}
 
 ## Session Efficiency Analysis
 
 ### Time Savings
-- **Estimated Time Saved:** ${timeSavedHours} hours
-- **Value of Time Saved:** $${estimatedValue}
+- **Estimated Time Saved:** ${roi.hoursSaved} hours
+- **Value of Time Saved:** ${formatCurrency(roi.value)}
 - **API Cost:** $${metrics.estimatedCost.toFixed(4)}
-- **Net Value:** $${(estimatedValue - metrics.estimatedCost).toFixed(2)}
-- **ROI:** ${roi}%
+- **Net Value:** $${roi.netValue.toFixed(2)}
+- **ROI:** ${roi.percent === null ? '∞' : roi.percent.toFixed(1)}%
+- **Assumptions:** ${roi.hoursSaved} planning hours saved per session at ${formatCurrency(economics.hourlyRate)}/hour
 
 ### Quality Improvements
 - **Validation Score:** ${analytics.validationScore}%
@@ -104,7 +124,7 @@ ${Object.entries(costByType).map(([type, _cost]) => {
 - **Optimizations Performed:** ${analytics.aiOptimizationsPerformed}
 
 ## Budget Analysis
-${this.generateBudgetAnalysis(metrics)}
+${this.generateBudgetAnalysis(metrics, budget)}
 
 ## Recommendations
 ${this.generateRecommendations(metrics, analytics)}
@@ -117,7 +137,12 @@ ${this.generateRecommendations(metrics, analytics)}
   /**
    * Generate JSON cost report
    */
-  static generateCostJSON(metrics: AIUsageMetrics, analytics: any): object {
+  static generateCostJSON(
+    metrics: AIUsageMetrics,
+    analytics: any,
+    budget: number | undefined,
+    economics: ProjectEconomics = ProjectEconomicsService.defaults()
+  ): object {
     const costByType: Record<string, number> = {};
     const tokensByType: Record<string, { input: number; output: number }> = {};
     
@@ -144,10 +169,15 @@ ${this.generateRecommendations(metrics, analytics)}
         totalTokens: metrics.totalTokensUsed,
         inputTokens: metrics.inputTokens,
         outputTokens: metrics.outputTokens,
+        cacheReadTokens: metrics.cacheReadTokens,
+        cacheWriteTokens: metrics.cacheWriteTokens,
+        estimatedCalls: metrics.estimatedCalls,
+        tokenSource: AIService.describeTokenSource(metrics),
         model: metrics.model,
       },
       costBreakdown: {
         byType: costByType,
+        byModel: this.calculateCostByModel(metrics),
         perQuestion: analytics.questionsAnswered > 0 
           ? metrics.estimatedCost / analytics.questionsAnswered 
           : 0,
@@ -156,13 +186,23 @@ ${this.generateRecommendations(metrics, analytics)}
           : 0,
       },
       tokenBreakdown: tokensByType,
+      cacheEfficiency: this.calculateCacheEfficiency(metrics),
+      roi: {
+        ...this.calculateROI(metrics, economics),
+        hourlyRate: economics.hourlyRate,
+        budget: budget || null,
+      },
       interactions: metrics.interactions.map(i => ({
         type: i.type,
         timestamp: i.timestamp,
         cost: i.cost,
+        model: i.model ?? metrics.model,
         tokens: {
           input: i.inputTokens,
           output: i.outputTokens,
+          cacheRead: i.cacheReadTokens ?? 0,
+          cacheWrite: i.cacheWriteTokens ?? 0,
+          source: i.tokenSource ?? 'estimated',
         },
       })),
       efficiency: {
@@ -181,12 +221,14 @@ ${this.generateRecommendations(metrics, analytics)}
   static async saveCostReports(
     outputDir: string,
     metrics: AIUsageMetrics,
-    analytics: SessionAnalytics
+    analytics: SessionAnalytics,
+    budget: number | undefined,
+    economics?: ProjectEconomics
   ): Promise<void> {
     try {
       // Generate reports
-      const markdownReport = this.generateCostReport(metrics, analytics);
-      const jsonReport = this.generateCostJSON(metrics, analytics);
+      const markdownReport = this.generateCostReport(metrics, analytics, budget, economics);
+      const jsonReport = this.generateCostJSON(metrics, analytics, budget, economics);
 
       // Save markdown report
       const mdPath = FileSystem.getOutputPath(outputDir, 'ai-cost-report.md');
@@ -221,16 +263,113 @@ ${this.generateRecommendations(metrics, analytics)}
    */
   private static calculateAvgTokens(interactions: any[]): number {
     if (interactions.length === 0) return 0;
-    const total = interactions.reduce((sum, i) => sum + i.inputTokens + i.outputTokens, 0);
+    const total = interactions.reduce(
+      (sum, i) => sum + i.inputTokens + i.outputTokens + (i.cacheReadTokens ?? 0) + (i.cacheWriteTokens ?? 0),
+      0
+    );
     return total / interactions.length;
   }
 
+  /**
+   * Label whether a group of interactions has measured or estimated token counts
+   */
+  private static describeInteractionSource(interactions: AIInteraction[]): string {
+    const estimated = interactions.filter(i => i.tokenSource !== 'measured').length;
+    if (estimated === 0) return 'measured';
+    if (estimated === interactions.length) return 'estimated';
+    return `${estimated} of ${interactions.length} estimated`;
+  }
+
+  /**
+   * Calls and cost per model
+   */
+  private static calculateCostByModel(metrics: AIUsageMetrics): Record<string, { calls: number; cost: number }> {
+    const byModel: Record<string, { calls: number; cost: number }> = {};
+    metrics.interactions.forEach(({ model, cost }) => {
+      byModel[model] = byModel[model] || { calls: 0, cost: 0 };
+      byModel[model].calls += 1;
+      byModel[model].cost += cost;
+    });
+    return byModel;
+  }
+
+  /**
+   * Prompt cache statistics: share of prompt tokens served from the cache,
+   * what that saved compared to uncached input, and the premium paid for writes
+   */
+  private static calculateCacheEfficiency(metrics: AIUsageMetrics): {
+    hitRatio: number;
+    savings: number;
+    writePremium: number;
+    netSavings: number;
+  } {
+    const promptTokens = metrics.inputTokens + metrics.cacheReadTokens + metrics.cacheWriteTokens;
+    let savings = 0;
+    let writePremium = 0;
+
+    // Priced per interaction, since routed tasks run on models with different rates
+    metrics.interactions.forEach(interaction => {
+      const pricing = getProviderPricing(metrics.provider, interaction.model ?? metrics.model);
+      savings += (interaction.cacheReadTokens ?? 0) / 1_000_000
+        * (pricing.inputPricePerMillion - pricing.cacheReadPricePerMillion);
+      writePremium += (interaction.cacheWriteTokens ?? 0) / 1_000_000
+        * (pricing.cacheWritePricePerMillion - pricing.inputPricePerMillion);
+    });
+
+    return {
+      hitRatio: promptTokens > 0 ? metrics.cacheReadTokens / promptTokens : 0,
+      savings,
+      writePremium,
+      netSavings: savings - writePremium,
+    };
+  }
+
+  /**
+   * Generate prompt cache efficiency section
+   */
+  private static generateCacheEfficiency(metrics: AIUsageMetrics): string {
+    if (metrics.cacheReadTokens === 0 && metrics.cacheWriteTokens === 0) {
+      return `
+- No prompt cache activity recorded (caching disabled, unsupported by the provider, or prompts below the minimum cacheable length)`;
+    }
+
+    const cache = this.calculateCacheEfficiency(metrics);
+    return `
+- **Cache Hit Ratio:** ${(cache.hitRatio * 100).toFixed(1)}% of prompt tokens read from cache
+- **Cache Reads:** ${metrics.cacheReadTokens.toLocaleString()} tokens (saved $${cache.savings.toFixed(4)})
+- **Cache Writes:** ${metrics.cacheWriteTokens.toLocaleString()} tokens (premium $${cache.writePremium.toFixed(4)})
+- **Net Savings:** $${cache.netSavings.toFixed(4)}`;
+  }
+
+  /**
+   * Value of the planning time saved against the API cost.
+   * `percent` is null when the session cost nothing.
+   */
+  private static calculateROI(metrics: AIUsageMetrics, economics: ProjectEconomics): {
+    hoursSaved: number;
+    value: number;
+    netValue: number;
+    percent: number | null;
+  } {
+    const value = economics.hoursSavedPerSession * economics.hourlyRate;
+    return {
+      hoursSaved: economics.hoursSavedPerSession,
+      value,
+      netValue: value - metrics.estimatedCost,
+      percent: metrics.estimatedCost > 0 ? (value - metrics.estimatedCost) / metrics.estimatedCost * 100 : null,
+    };
+  }
+
   /**
    * Generate budget analysis section
    */
-  private static generateBudgetAnalysis(metrics: AIUsageMetrics): string {
-    // Assuming a default budget of $1.00 if not specified
-    const budget = 1.00;
+  private static generateBudgetAnalysis(metrics: AIUsageMetrics, budget: number | undefined): string {
+    if (!budget) {
+      return `
+- **Budget:** No limit (ai.maxBudget in the project config)
+- **Used:** $${metrics.estimatedCost.toFixed(4)}`;
+    }
+
     const percentUsed = (metrics.estimatedCost / budget * 100).toFixed(1);
     const remaining = budget - metrics.estimatedCost;
     
@@ -242,7 +381,7 @@ ${this.generateRecommendations(metrics, analytics)}
     }
 
     return `
-- **Budget:** $${budget.toFixed(2)}
+- **Budget:** $${budget.toFixed(2)} per session (ai.maxBudget in the project config)
 - **Used:** $${metrics.estimatedCost.toFixed(4)} (${percentUsed}%)
 - **Remaining:** $${remaining.toFixed(4)}
 - **Status:** ${status}`;
@@ -257,7 +396,12 @@ ${this.generateRecommendations(metrics, analytics)}
     // Cost efficiency recommendations
     const avgCostPerCall = metrics.estimatedCost / metrics.apiCalls;
     if (avgCostPerCall > 0.01) {
-      recommendations.push('- Consider using Claude Haiku for lower-cost operations');
+      recommendations.push('- Route more tasks to Claude Haiku, e.g. `--model-route challenge=claude-3-haiku-20240307`');
+    }
+    
+    // Cache writes only pay off when later calls read them back
+    if (metrics.cacheWriteTokens > 0 && this.calculateCacheEfficiency(metrics).netSavings < 0) {
+      recommendations.push('- Prompt cache cost more than it saved - sessions with few AI calls may run cheaper with AI_PROMPT_CACHE=false');
     }
     
     // Token usage recommendations
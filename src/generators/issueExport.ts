@@ -0,0 +1,140 @@
+import { PRDData } from '../types/index.js';
+import { IssueExportPlan, IssueTracker, TrackerIssue, TrackerMilestone } from '../types/issues.js';
+import { RoadmapGenerator } from './roadmap.js';
+import { WorkCalendar } from '../services/workCalendar.js';
+import { formatISODate } from '../utils/dates.js';
+
+/**
+ * Turns roadmap sprints, core features and milestones into tracker issues
+ */
+export class IssueExportGenerator {
+  /**
+   * Tracker-neutral plan: one issue per sprint with its goals as checklist,
+   * one issue per core feature, and the timeline milestones
+   */
+  static buildPlan(data: PRDData, calendar: WorkCalendar = WorkCalendar.fromToday()): IssueExportPlan {
+    const roadmap = new RoadmapGenerator({ calendar });
+    const milestones: TrackerMilestone[] = roadmap.scheduleMilestones(data).map(milestone => ({
+      title: milestone.name,
+      description: checklist(milestone.criteria),
+      dueDate: milestone.dueDate ? formatISODate(milestone.dueDate) : undefined,
+    }));
+
+    // Sprints belong to the first milestone due on or after their last day
+    const milestoneFor = (dueDate: string): string | undefined =>
+      milestones.find(milestone => milestone.dueDate && milestone.dueDate >= dueDate)?.title
+        ?? milestones[milestones.length - 1]?.title;
+
+    const sprintIssues: TrackerIssue[] = roadmap.scheduleSprints(data).map(sprint => {
+      const dueDate = formatISODate(sprint.endDate);
+      const sections = [
+        `**Focus:** ${sprint.focus || 'Not assigned to a phase'}`,
+        `**Duration:** Week ${sprint.startWeek} - Week ${sprint.endWeek} (${formatISODate(sprint.startDate)} to ${dueDate})`,
+        `**Capacity:** ${sprint.capacityHours} hours (${sprint.loadHours} hours planned${sprint.overloaded ? ', over capacity' : ''})`,
+      ];
+      if (sprint.goals.length > 0) {
+        sections.push(`### Goals\n${checklist(sprint.goals)}`);
+      }
+      if (sprint.features.length > 0) {
+        sections.push(`### Features\n${checklist(sprint.features.map(feature => `${feature.name} (${feature.points} pts)`))}`);
+      }
+      if (sprint.deliverables.length > 0) {
+        sections.push(`### Deliverables\n${checklist(sprint.deliverables)}`);
+      }
+
+      return {
+        title: sprint.name ? `Sprint ${sprint.number}: ${sprint.name}` : `Sprint ${sprint.number}`,
+        body: sections.join('\n\n'),
+        labels: ['sprint'],
+        milestone: milestoneFor(dueDate),
+        dueDate,
+      };
+    });
+
+    // Features are done when the MVP ships, i.e. by the last milestone
+    const featureIssues: TrackerIssue[] = data.mvp.coreFeatures.map((feature, index) => ({
+      title: feature,
+      body: [
+        `Core MVP feature ${index + 1} of ${data.mvp.coreFeatures.length} for ${data.project.name}.`,
+        data.mvp.successMetrics.length > 0 ? `### Success Metrics\n${checklist(data.mvp.successMetrics)}` : '',
+      ].filter(Boolean).join('\n\n'),
+      labels: ['feature', 'mvp'],
+      milestone: milestones[milestones.length - 1]?.title,
+    }));
+
+    return { milestones, issues: [...sprintIssues, ...featureIssues] };
+  }
+
+  /**
+   * GitHub REST payloads. Issues reference milestones by title; --apply
+   * replaces it with the milestone number GitHub assigns.
+   */
+  static toGitHub(plan: IssueExportPlan): object {
+    return {
+      milestones: plan.milestones.map(milestone => ({
+        title: milestone.title,
+        description: milestone.description,
+        state: 'open',
+        ...(milestone.dueDate ? { due_on: `${milestone.dueDate}T23:59:59Z` } : {}),
+      })),
+      issues: plan.issues.map(issue => ({
+        milestone: issue.milestone ?? null,
+        payload: { title: issue.title, body: issue.body, labels: issue.labels },
+      })),
+    };
+  }
+
+  /**
+   * GitLab issue import CSV. Labels and milestones are set through quick actions,
+   * which the importer runs; the milestones must already exist in the project.
+   */
+  static toGitLabCSV(plan: IssueExportPlan): string {
+    const rows = plan.issues.map(issue => {
+      const actions = [`/label ${issue.labels.map(label => `~"${label}"`).join(' ')}`];
+      if (issue.milestone) {
+        actions.push(`/milestone %"${issue.milestone}"`);
+      }
+      return [issue.title, `${issue.body}\n\n${actions.join('\n')}`, issue.dueDate ?? ''];
+    });
+    return toCSV([['title', 'description', 'due_date'], ...rows]);
+  }
+
+  /**
+   * Linear CSV import
+   */
+  static toLinearCSV(plan: IssueExportPlan): string {
+    const rows = plan.issues.map(issue => [
+      issue.title,
+      issue.body,
+      'Backlog',
+      issue.labels.join(','),
+      issue.dueDate ?? '',
+      issue.milestone ?? '',
+    ]);
+    return toCSV([['Title', 'Description', 'Status', 'Labels', 'Due Date', 'Milestone'], ...rows]);
+  }
+
+  /**
+   * File content for a tracker: JSON for GitHub, CSV for GitLab and Linear
+   */
+  static render(plan: IssueExportPlan, tracker: IssueTracker): string {
+    switch (tracker) {
+      case 'github':
+        return JSON.stringify(this.toGitHub(plan), null, 2);
+      case 'gitlab':
+        return this.toGitLabCSV(plan);
+      case 'linear':
+        return this.toLinearCSV(plan);
+    }
+  }
+}
+
+function checklist(items: string[]): string {
+  return items.map(item => `- [ ] ${item}`).join('\n');
+}
+
+function toCSV(rows: string[][]): string {
+  return rows
+    .map(row => row.map(cell => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\n') + '\n';
+}
@@ -1,7 +1,13 @@
 import Handlebars from 'handlebars';
-import { PRDData } from '../types/index.js';
+import { MoSCoWBucket, PRDData, PRDFormat, Risk } from '../types/index.js';
+import { MOSCOW_LABELS } from '../services/featurePrioritization.js';
 import { FileSystem } from '../utils/fileSystem.js';
 import { Logger } from '../utils/logger.js';
+import { HTML_TEMPLATE } from './prdHtmlTemplate.js';
+
+const RISK_LEVELS: Risk['impact'][] = ['low', 'medium', 'high'];
+// Indexed by impact + likelihood level (0-4)
+const RISK_SEVERITY = ['low', 'low', 'medium', 'high', 'critical'];
 
 const DEFAULT_TEMPLATE = `# Product Requirements Document (PRD)
 
@@ -34,6 +40,41 @@ const DEFAULT_TEMPLATE = `# Product Requirements Document (PRD)
 {{inc @index}}. {{this}}
 {{/each}}
 
+{{#if prioritization}}
+### Feature Prioritization
+{{#if (eq prioritization.method "rice")}}
+Ranked by RICE score: reach × impact × confidence / effort.
+
+| Rank | Feature | Priority | Reach | Impact | Confidence | Effort (weeks) | RICE Score |
+|------|---------|----------|-------|--------|------------|----------------|------------|
+{{#each prioritization.features}}
+| {{this.rank}} | {{this.feature}} | {{moscow this.bucket}} | {{this.rice.reach}} | {{this.rice.impact}} | {{percent this.rice.confidence}} | {{this.effort}} | {{this.rice.score}} |
+{{/each}}
+{{else}}
+Ranked by MoSCoW priority, smaller effort first.
+
+| Rank | Feature | Priority | Effort (weeks) |
+|------|---------|----------|----------------|
+{{#each prioritization.features}}
+| {{this.rank}} | {{this.feature}} | {{moscow this.bucket}} | {{this.effort}} |
+{{/each}}
+{{/if}}
+
+{{/if}}
+{{#if userStories}}
+### User Stories
+{{#each userStories}}
+#### {{this.id}}: {{this.title}} ({{this.points}} pts)
+**Feature:** {{this.feature}}  
+{{this.story}}
+
+Acceptance criteria:
+{{#each this.acceptanceCriteria}}
+- [ ] {{this}}
+{{/each}}
+
+{{/each}}
+{{/if}}
 ### Success Metrics
 {{#each mvp.successMetrics}}
 - {{this}}
@@ -46,6 +87,13 @@ const DEFAULT_TEMPLATE = `# Product Requirements Document (PRD)
 {{/each}}
 {{/if}}
 
+{{#if mvp.outOfScope}}
+### Out of Scope (Parking Lot)
+{{#each mvp.outOfScope}}
+- {{this}}
+{{/each}}
+
+{{/if}}
 {{#if mvp.constraints}}
 ### Constraints
 {{#each mvp.constraints}}
@@ -168,30 +216,429 @@ Deliverables:
 *This PRD was generated using [prd-zero](https://github.com/tomsolut/prd-zero) - MVP planning tool for solo developers*
 `;
 
+const MINIMAL_TEMPLATE = `# {{project.name}}
+
+{{project.description}}
+
+**Problem:** {{project.problemStatement}}  
+**For:** {{project.targetAudience}}
+
+## MVP Features
+{{#each mvp.coreFeatures}}
+{{inc @index}}. {{this}}
+{{/each}}
+
+## Success Metrics
+{{#each mvp.successMetrics}}
+- {{this}}
+{{/each}}
+
+## Timeline
+{{timeline.totalWeeks}} weeks: {{#each timeline.phases}}{{this.name}} ({{this.duration}}w){{#unless @last}} → {{/unless}}{{/each}}
+
+## Stack
+{{#if techStack.frontend}}- Frontend: {{join techStack.frontend}}
+{{/if}}
+{{#if techStack.backend}}- Backend: {{join techStack.backend}}
+{{/if}}
+{{#if techStack.database}}- Database: {{join techStack.database}}
+{{/if}}
+{{#if techStack.hosting}}- Hosting: {{join techStack.hosting}}
+{{/if}}
+
+{{#if nextSteps}}
+## Next Steps
+{{#each nextSteps}}
+- [ ] {{this}}
+{{/each}}
+{{/if}}
+
+*Generated {{generatedAt}} with [prd-zero](https://github.com/tomsolut/prd-zero)*
+`;
+
+const DETAILED_TEMPLATE = `# Product Requirements Document (PRD)
+
+## Project: {{project.name}}
+
+| | |
+|---|---|
+| **Generated** | {{generatedAt}} |
+| **Session Duration** | {{sessionDuration}} minutes |
+| **Timeline** | {{timeline.totalWeeks}} weeks |
+| **Core Features** | {{mvp.coreFeatures.length}} |
+
+---
+
+## 1. Executive Summary
+
+{{project.description}}
+
+### 1.1 Problem Statement
+{{project.problemStatement}}
+
+### 1.2 Unique Value Proposition
+{{project.uniqueValue}}
+
+### 1.3 Target Audience
+{{project.targetAudience}}
+
+---
+
+## 2. MVP Scope
+
+{{#if mvp.problemStatement}}
+### 2.1 Problem the MVP Solves
+{{mvp.problemStatement}}
+
+{{/if}}
+{{#if mvp.solutionApproach}}
+### 2.2 Solution Approach
+{{mvp.solutionApproach}}
+
+{{/if}}
+### 2.3 Core Features
+{{#each mvp.coreFeatures}}
+{{inc @index}}. {{this}}
+{{/each}}
+
+{{#if prioritization}}
+### 2.4 Feature Prioritization
+{{#if (eq prioritization.method "rice")}}
+Ranked by RICE score: reach × impact × confidence / effort.
+
+| Rank | Feature | Priority | Reach | Impact | Confidence | Effort (weeks) | RICE Score |
+|------|---------|----------|-------|--------|------------|----------------|------------|
+{{#each prioritization.features}}
+| {{this.rank}} | {{this.feature}} | {{moscow this.bucket}} | {{this.rice.reach}} | {{this.rice.impact}} | {{percent this.rice.confidence}} | {{this.effort}} | {{this.rice.score}} |
+{{/each}}
+{{else}}
+Ranked by MoSCoW priority, smaller effort first.
+
+| Rank | Feature | Priority | Effort (weeks) |
+|------|---------|----------|----------------|
+{{#each prioritization.features}}
+| {{this.rank}} | {{this.feature}} | {{moscow this.bucket}} | {{this.effort}} |
+{{/each}}
+{{/if}}
+
+{{/if}}
+### 2.5 Success Metrics
+| # | Metric |
+|---|--------|
+{{#each mvp.successMetrics}}
+| {{inc @index}} | {{this}} |
+{{/each}}
+
+### 2.6 Non-Goals
+{{#each mvp.nonGoals}}
+- {{this}}
+{{/each}}
+{{#unless mvp.nonGoals}}
+*No non-goals documented*
+{{/unless}}
+
+{{#if mvp.outOfScope}}
+### 2.7 Out of Scope (Parking Lot)
+{{#each mvp.outOfScope}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+### 2.8 Constraints
+{{#each mvp.constraints}}
+- {{this}}
+{{/each}}
+{{#unless mvp.constraints}}
+*No constraints documented*
+{{/unless}}
+{{#if userStories}}
+
+### 2.9 User Stories
+| ID | Feature | Story | Points |
+|----|---------|-------|--------|
+{{#each userStories}}
+| {{this.id}} | {{this.feature}} | {{this.story}} | {{this.points}} |
+{{/each}}
+
+{{#each userStories}}
+#### {{this.id}}: {{this.title}}
+{{#each this.acceptanceCriteria}}
+- [ ] {{this}}
+{{/each}}
+
+{{/each}}
+{{/if}}
+
+---
+
+## 3. Timeline
+
+**Total Duration:** {{timeline.totalWeeks}} weeks
+
+### 3.1 Development Phases
+| Phase | Duration | Deliverables |
+|-------|----------|--------------|
+{{#each timeline.phases}}
+| {{this.name}} | {{this.duration}} weeks | {{join this.deliverables "; "}} |
+{{/each}}
+
+### 3.2 Milestones
+{{#each timeline.milestones}}
+#### {{this.name}} ({{this.date}})
+Acceptance criteria:
+{{#each this.criteria}}
+- [ ] {{this}}
+{{/each}}
+
+{{/each}}
+{{#unless timeline.milestones}}
+*No milestones defined*
+{{/unless}}
+
+---
+
+## 4. Technical Stack
+
+| Layer | Technologies |
+|-------|--------------|
+{{#if techStack.frontend}}
+| Frontend | {{join techStack.frontend}} |
+{{/if}}
+{{#if techStack.backend}}
+| Backend | {{join techStack.backend}} |
+{{/if}}
+{{#if techStack.database}}
+| Database | {{join techStack.database}} |
+{{/if}}
+{{#if techStack.hosting}}
+| Hosting & Deployment | {{join techStack.hosting}} |
+{{/if}}
+{{#if techStack.tools}}
+| Tools | {{join techStack.tools}} |
+{{/if}}
+
+---
+
+## 5. Risk Assessment
+
+{{#if risks}}
+| # | Risk | Impact | Likelihood | Mitigation |
+|---|------|--------|------------|------------|
+{{#each risks}}
+| {{inc @index}} | {{this.description}} | {{this.impact}} | {{this.likelihood}} | {{this.mitigation}} |
+{{/each}}
+{{/if}}
+{{#unless risks}}
+*No risks identified*
+{{/unless}}
+
+---
+
+## 6. Assumptions
+
+{{#each assumptions}}
+- {{this}}
+{{/each}}
+{{#unless assumptions}}
+*No assumptions documented*
+{{/unless}}
+
+## 7. Open Questions
+
+{{#each openQuestions}}
+- [ ] {{this}}
+{{/each}}
+{{#unless openQuestions}}
+*No open questions*
+{{/unless}}
+
+---
+
+## 8. Next Steps
+
+{{#each nextSteps}}
+{{inc @index}}. {{this}}
+{{/each}}
+{{#unless nextSteps}}
+*Next steps to be determined*
+{{/unless}}
+
+---
+
+*This PRD was generated using [prd-zero](https://github.com/tomsolut/prd-zero) - MVP planning tool for solo developers*
+`;
+
+/**
+ * Templates shipped with prd-zero, selectable by name
+ */
+export const BUILTIN_TEMPLATES: Record<string, { description: string; content: string }> = {
+  default: { description: 'Standard PRD template', content: DEFAULT_TEMPLATE },
+  minimal: { description: 'Lightweight PRD for quick MVPs', content: MINIMAL_TEMPLATE },
+  detailed: { description: 'Comprehensive PRD with all sections', content: DETAILED_TEMPLATE },
+};
+
+// Every field filled, so a strict render catches references to unknown fields
+const SAMPLE_PRD_DATA: PRDData = {
+  project: {
+    name: 'Sample Project',
+    description: 'A sample project used to validate templates',
+    targetAudience: 'Solo developers',
+    problemStatement: 'Planning takes too long',
+    uniqueValue: 'A plan in 70 minutes',
+  },
+  mvp: {
+    problemStatement: 'Developers never finish planning',
+    solutionApproach: 'Time-boxed guided questions',
+    coreFeatures: ['Guided questions', 'PRD generation', 'Roadmap generation'],
+    nonGoals: ['Team collaboration'],
+    outOfScope: ['Mobile app'],
+    successMetrics: ['10 completed plans in the first month'],
+    constraints: ['Solo developer, evenings only'],
+  },
+  timeline: {
+    totalWeeks: 6,
+    phases: [{ name: 'Build', duration: 4, deliverables: ['Working CLI'] }],
+    milestones: [{ name: 'Launch', date: 'Week 6', criteria: ['Published to npm'] }],
+  },
+  techStack: {
+    frontend: ['CLI'],
+    backend: ['Node.js'],
+    database: ['JSON files'],
+    hosting: ['npm'],
+    tools: ['TypeScript'],
+  },
+  risks: [{ description: 'Scope creep', impact: 'high', likelihood: 'medium', mitigation: 'Parking lot' }],
+  assumptions: ['Developers want structure'],
+  openQuestions: ['Pricing?'],
+  nextSteps: ['Validate with 5 users'],
+  prioritization: {
+    method: 'rice',
+    features: [
+      { feature: 'Guided questions', rank: 1, bucket: 'must', effort: 2, rice: { reach: 500, impact: 2, confidence: 0.8, score: 400 } },
+      { feature: 'Mobile app', rank: 2, bucket: 'could', effort: 6, rice: { reach: 200, impact: 1, confidence: 0.5, score: 16.7 } },
+    ],
+  },
+  userStories: [{
+    id: 'US-1.1',
+    feature: 'Guided questions',
+    title: 'Answer the planning questions',
+    story: 'As a solo developer, I want guided questions, so that I finish my plan in one sitting',
+    acceptanceCriteria: ['All questions fit into 70 minutes'],
+    points: 3,
+  }],
+  generatedAt: new Date(0),
+  sessionDuration: 70,
+};
+
+function registerHelpers(): void {
+  Handlebars.registerHelper('inc', function(value: number) {
+    return value + 1;
+  });
+
+  Handlebars.registerHelper('formatDate', function(date: Date) {
+    return new Date(date).toLocaleDateString();
+  });
+
+  Handlebars.registerHelper('eq', function(a: unknown, b: unknown) {
+    return a === b;
+  });
+
+  // Safe: the labels are fixed and "Won't" must not become &#x27;
+  Handlebars.registerHelper('moscow', function(bucket: MoSCoWBucket) {
+    return new Handlebars.SafeString(MOSCOW_LABELS[bucket] ?? bucket);
+  });
+
+  Handlebars.registerHelper('percent', function(value: number) {
+    return `${Math.round(value * 100)}%`;
+  });
+
+  // The separator is optional; without it Handlebars passes its options object
+  Handlebars.registerHelper('join', function(items: unknown, separator: unknown) {
+    return Array.isArray(items) ? items.join(typeof separator === 'string' ? separator : ', ') : '';
+  });
+}
+
 export class PRDGenerator {
   private template: HandlebarsTemplateDelegate;
 
   constructor(customTemplate?: string) {
-    // Register Handlebars helpers
-    Handlebars.registerHelper('inc', function(value: number) {
-      return value + 1;
-    });
-
-    Handlebars.registerHelper('formatDate', function(date: Date) {
-      return new Date(date).toLocaleDateString();
-    });
-
+    registerHelpers();
     this.template = Handlebars.compile(customTemplate || DEFAULT_TEMPLATE);
   }
 
+  /**
+   * Compile a template and render it strictly against sample data.
+   * Returns the error message, or null when the template is usable.
+   */
+  static validateTemplate(content: string): string | null {
+    registerHelpers();
+    try {
+      Handlebars.compile(content, { strict: true })(PRDGenerator.toContext(SAMPLE_PRD_DATA));
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
   generate(data: PRDData): string {
-    const context = {
+    return this.template(PRDGenerator.toContext(data));
+  }
+
+  /**
+   * Self-contained HTML PRD with table of contents, risk matrix and print CSS
+   */
+  generateHtml(data: PRDData): string {
+    const template = Handlebars.compile(HTML_TEMPLATE);
+    return template({ ...PRDGenerator.toContext(data), riskMatrix: PRDGenerator.buildRiskMatrix(data.risks) });
+  }
+
+  /**
+   * Save the PRD in the requested formats. The Markdown content is passed in
+   * because it may have been optimized by AI after rendering.
+   */
+  async saveFormats(
+    data: PRDData,
+    markdown: string,
+    outputDir: string,
+    formats: PRDFormat[]
+  ): Promise<Partial<Record<PRDFormat, string>>> {
+    const paths: Partial<Record<PRDFormat, string>> = {};
+
+    if (formats.includes('md')) {
+      paths.md = await this.saveContent(markdown, outputDir, 'PRD.md');
+    }
+    if (formats.includes('html')) {
+      paths.html = await this.saveContent(this.generateHtml(data), outputDir, 'PRD.html');
+    }
+    if (formats.includes('json')) {
+      paths.json = FileSystem.getOutputPath(outputDir, 'prd.json');
+      await FileSystem.saveJSON(paths.json, data);
+    }
+
+    return paths;
+  }
+
+  /**
+   * Impact × likelihood grid, highest impact first, with risks numbered as in the risk table
+   */
+  private static buildRiskMatrix(risks: Risk[]): object[] {
+    return [...RISK_LEVELS].reverse().map(impact => ({
+      label: `${impact.charAt(0).toUpperCase()}${impact.slice(1)} impact`,
+      cells: RISK_LEVELS.map(likelihood => ({
+        level: RISK_SEVERITY[RISK_LEVELS.indexOf(impact) + RISK_LEVELS.indexOf(likelihood)],
+        risks: risks
+          .map((risk, index) => ({ number: index + 1, description: risk.description, risk }))
+          .filter(({ risk }) => risk.impact === impact && risk.likelihood === likelihood),
+      })),
+    }));
+  }
+
+  private static toContext(data: PRDData): object {
+    return {
       ...data,
       generatedAt: new Date(data.generatedAt).toLocaleString(),
       sessionDuration: Math.round(data.sessionDuration),
     };
-
-    return this.template(context);
   }
 
   async saveContent(content: string, outputDir: string, fileName: string): Promise<string> {
@@ -0,0 +1,192 @@
+import { PRDData, ProjectInfo, Risk } from '../types/index.js';
+import { ListChange, PRDDiff, RiskChange } from '../types/diff.js';
+
+const PROJECT_FIELDS: (keyof ProjectInfo)[] = ['name', 'description', 'targetAudience', 'problemStatement', 'uniqueValue'];
+
+/**
+ * Structural comparison of the PRD data of two sessions, and its changelog
+ */
+export class PRDDiffGenerator {
+  static compare(before: PRDData, after: PRDData): PRDDiff {
+    const beforePhases = new Map(before.timeline.phases.map(phase => [normalize(phase.name), phase]));
+    const afterPhases = new Map(after.timeline.phases.map(phase => [normalize(phase.name), phase]));
+
+    const diff: PRDDiff = {
+      project: PROJECT_FIELDS
+        .filter(field => before.project[field] !== after.project[field])
+        .map(field => ({ field, before: before.project[field], after: after.project[field] })),
+      features: compareLists(before.mvp.coreFeatures, after.mvp.coreFeatures),
+      nonGoals: compareLists(before.mvp.nonGoals, after.mvp.nonGoals),
+      successMetrics: compareLists(before.mvp.successMetrics, after.mvp.successMetrics),
+      timeline: {
+        totalWeeks: before.timeline.totalWeeks !== after.timeline.totalWeeks
+          ? { before: before.timeline.totalWeeks, after: after.timeline.totalWeeks }
+          : undefined,
+        phases: {
+          ...compareLists(before.timeline.phases.map(p => p.name), after.timeline.phases.map(p => p.name)),
+          changed: [...afterPhases]
+            .filter(([key, phase]) => beforePhases.has(key) && beforePhases.get(key)?.duration !== phase.duration)
+            .map(([key, phase]) => ({
+              name: phase.name,
+              before: beforePhases.get(key)?.duration ?? 0,
+              after: phase.duration,
+            })),
+        },
+        milestones: compareLists(before.timeline.milestones.map(m => m.name), after.timeline.milestones.map(m => m.name)),
+      },
+      risks: compareRisks(before.risks, after.risks),
+      techStack: {},
+      hasChanges: false,
+    };
+
+    const categories = new Set([...Object.keys(before.techStack), ...Object.keys(after.techStack)]);
+    categories.forEach(category => {
+      const change = compareLists(
+        before.techStack[category as keyof PRDData['techStack']] ?? [],
+        after.techStack[category as keyof PRDData['techStack']] ?? []
+      );
+      if (change.added.length > 0 || change.removed.length > 0) {
+        diff.techStack[category] = change;
+      }
+    });
+
+    diff.hasChanges = diff.project.length > 0 ||
+      [diff.features, diff.nonGoals, diff.successMetrics, diff.timeline.phases, diff.timeline.milestones]
+        .some(change => change.added.length > 0 || change.removed.length > 0) ||
+      diff.timeline.totalWeeks !== undefined ||
+      diff.timeline.phases.changed.length > 0 ||
+      diff.risks.added.length + diff.risks.removed.length + diff.risks.changed.length > 0 ||
+      Object.keys(diff.techStack).length > 0;
+
+    return diff;
+  }
+
+  /**
+   * Markdown changelog to commit next to the PRD
+   */
+  static toMarkdown(diff: PRDDiff, before: PRDData, after: PRDData, labels: { before: string; after: string }): string {
+    const lines = [
+      `# PRD Changelog: ${after.project.name}`,
+      '',
+      `**From:** ${labels.before} (generated ${formatDate(before.generatedAt)})  `,
+      `**To:** ${labels.after} (generated ${formatDate(after.generatedAt)})`,
+      '',
+    ];
+
+    if (!diff.hasChanges) {
+      lines.push('No changes to the plan.', '');
+      return lines.join('\n');
+    }
+
+    const section = (title: string, items: string[]): void => {
+      if (items.length > 0) {
+        lines.push(`## ${title}`, '', ...items.map(item => `- ${item}`), '');
+      }
+    };
+
+    section('Project', diff.project.map(change =>
+      `**${PROJECT_LABELS[change.field] ?? change.field}:** "${change.before}" → "${change.after}"`
+    ));
+    section('Core Features', listItems(diff.features));
+    section('Non-Goals', listItems(diff.nonGoals));
+    section('Success Metrics', listItems(diff.successMetrics));
+    section('Timeline', [
+      ...(diff.timeline.totalWeeks
+        ? [`**Total weeks:** ${diff.timeline.totalWeeks.before} → ${diff.timeline.totalWeeks.after}`]
+        : []),
+      ...diff.timeline.phases.added.map(phase => `Phase added: ${phase}`),
+      ...diff.timeline.phases.removed.map(phase => `Phase removed: ${phase}`),
+      ...diff.timeline.phases.changed.map(phase => `Phase ${phase.name}: ${phase.before} → ${phase.after} weeks`),
+      ...diff.timeline.milestones.added.map(milestone => `Milestone added: ${milestone}`),
+      ...diff.timeline.milestones.removed.map(milestone => `Milestone removed: ${milestone}`),
+    ]);
+    section('Risks', [
+      ...diff.risks.added.map(risk => `Added: ${risk.description} (${describeRisk(risk)})`),
+      ...diff.risks.removed.map(risk => `Removed: ${risk.description}`),
+      ...diff.risks.changed.map(change => `Changed: ${change.description} (${describeRiskChange(change)})`),
+    ]);
+    section('Tech Stack', Object.entries(diff.techStack).map(([category, change]) => {
+      const parts = [
+        change.added.length > 0 ? `added ${change.added.join(', ')}` : '',
+        change.removed.length > 0 ? `removed ${change.removed.join(', ')}` : '',
+      ].filter(Boolean);
+      return `**${category.charAt(0).toUpperCase()}${category.slice(1)}:** ${parts.join('; ')}`;
+    }));
+
+    return lines.join('\n');
+  }
+}
+
+const PROJECT_LABELS: Partial<Record<string, string>> = {
+  name: 'Name',
+  description: 'Description',
+  targetAudience: 'Target audience',
+  problemStatement: 'Problem statement',
+  uniqueValue: 'Unique value',
+};
+
+// Case and whitespace edits don't count as changes
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function compareLists(before: string[], after: string[]): ListChange {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  return {
+    added: after.filter(item => !beforeKeys.has(normalize(item))),
+    removed: before.filter(item => !afterKeys.has(normalize(item))),
+  };
+}
+
+function compareRisks(before: Risk[], after: Risk[]): PRDDiff['risks'] {
+  const beforeByKey = new Map(before.map(risk => [normalize(risk.description), risk]));
+  const afterKeys = new Set(after.map(risk => normalize(risk.description)));
+  const changed: RiskChange[] = [];
+
+  after.forEach(risk => {
+    const previous = beforeByKey.get(normalize(risk.description));
+    if (previous && (
+      previous.impact !== risk.impact ||
+      previous.likelihood !== risk.likelihood ||
+      previous.mitigation !== risk.mitigation
+    )) {
+      changed.push({ description: risk.description, before: previous, after: risk });
+    }
+  });
+
+  return {
+    added: after.filter(risk => !beforeByKey.has(normalize(risk.description))),
+    removed: before.filter(risk => !afterKeys.has(normalize(risk.description))),
+    changed,
+  };
+}
+
+function listItems(change: ListChange): string[] {
+  return [
+    ...change.added.map(item => `Added: ${item}`),
+    ...change.removed.map(item => `Removed: ${item}`),
+  ];
+}
+
+function describeRisk(risk: Risk): string {
+  return `impact ${risk.impact}, likelihood ${risk.likelihood}`;
+}
+
+function describeRiskChange(change: RiskChange): string {
+  const parts: string[] = [];
+  if (change.before.impact !== change.after.impact) {
+    parts.push(`impact ${change.before.impact} → ${change.after.impact}`);
+  }
+  if (change.before.likelihood !== change.after.likelihood) {
+    parts.push(`likelihood ${change.before.likelihood} → ${change.after.likelihood}`);
+  }
+  if (change.before.mitigation !== change.after.mitigation) {
+    parts.push('new mitigation');
+  }
+  return parts.join(', ');
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString();
+}
@@ -0,0 +1,317 @@
+/**
+ * Self-contained HTML PRD. Rendered from the same context as the Markdown
+ * templates plus a precomputed `riskMatrix`; the print stylesheet makes
+ * "Save as PDF" in the browser produce a clean document.
+ */
+export const HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>PRD: {{project.name}}</title>
+<style>
+  :root {
+    --text: #1f2933;
+    --muted: #616e7c;
+    --border: #d9e2ec;
+    --accent: #2563eb;
+    --risk-low: #c6f6d5;
+    --risk-medium: #fefcbf;
+    --risk-high: #fbd38d;
+    --risk-critical: #feb2b2;
+  }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0 auto;
+    max-width: 860px;
+    padding: 2rem 1.5rem 4rem;
+    font: 16px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    color: var(--text);
+  }
+  h1 { font-size: 2rem; margin-bottom: 0.25rem; }
+  h2 { margin-top: 2.5rem; padding-bottom: 0.3rem; border-bottom: 2px solid var(--border); }
+  h3 { margin-top: 1.5rem; }
+  a { color: var(--accent); }
+  .meta { color: var(--muted); margin-top: 0; }
+  .empty { color: var(--muted); font-style: italic; }
+  nav.toc { background: #f5f7fa; border: 1px solid var(--border); border-radius: 6px; padding: 1rem 1.5rem; }
+  nav.toc ol { margin: 0.5rem 0 0; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+  th, td { border: 1px solid var(--border); padding: 0.5rem 0.75rem; text-align: left; vertical-align: top; }
+  th { background: #f5f7fa; }
+  .risk-matrix { table-layout: fixed; }
+  .risk-matrix td { height: 4.5rem; }
+  .risk-matrix th[scope="row"] { width: 8rem; }
+  .risk-matrix .axis { text-align: center; color: var(--muted); font-weight: normal; }
+  .risk-low { background: var(--risk-low); }
+  .risk-medium { background: var(--risk-medium); }
+  .risk-high { background: var(--risk-high); }
+  .risk-critical { background: var(--risk-critical); }
+  .risk-id { display: inline-block; min-width: 1.6rem; margin: 0 0.2rem 0.2rem 0; padding: 0 0.4rem;
+    border-radius: 999px; background: rgba(255, 255, 255, 0.8); font-weight: 600; text-align: center; }
+  footer { margin-top: 3rem; color: var(--muted); font-size: 0.875rem; }
+
+  @media print {
+    @page { size: A4; margin: 18mm 16mm; }
+    body { max-width: none; padding: 0; font-size: 11pt; }
+    nav.toc { break-after: page; background: none; }
+    h2 { break-before: auto; break-after: avoid; }
+    h3 { break-after: avoid; }
+    table, li { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+    .risk-low, .risk-medium, .risk-high, .risk-critical {
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+  }
+</style>
+</head>
+<body>
+<header>
+  <h1>{{project.name}}</h1>
+  <p class="meta">Product Requirements Document &middot; Generated {{generatedAt}} &middot; Session {{sessionDuration}} minutes</p>
+</header>
+
+<nav class="toc">
+  <strong>Contents</strong>
+  <ol>
+    <li><a href="#summary">Executive Summary</a></li>
+    <li><a href="#scope">MVP Scope</a></li>
+    <li><a href="#timeline">Timeline</a></li>
+    <li><a href="#tech-stack">Technical Stack</a></li>
+    <li><a href="#risks">Risk Assessment</a></li>
+    <li><a href="#assumptions">Assumptions &amp; Open Questions</a></li>
+    <li><a href="#next-steps">Next Steps</a></li>
+  </ol>
+</nav>
+
+<section id="summary">
+  <h2>1. Executive Summary</h2>
+  <p>{{project.description}}</p>
+  <h3>Problem Statement</h3>
+  <p>{{project.problemStatement}}</p>
+  <h3>Unique Value Proposition</h3>
+  <p>{{project.uniqueValue}}</p>
+  <h3>Target Audience</h3>
+  <p>{{project.targetAudience}}</p>
+</section>
+
+<section id="scope">
+  <h2>2. MVP Scope</h2>
+  <h3>Core Features</h3>
+  <ol>
+    {{#each mvp.coreFeatures}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ol>
+  {{#if prioritization}}
+  <h3>Feature Prioritization</h3>
+  <table>
+    {{#if (eq prioritization.method "rice")}}
+    <thead><tr><th>Rank</th><th>Feature</th><th>Priority</th><th>Reach</th><th>Impact</th><th>Confidence</th><th>Effort (weeks)</th><th>RICE Score</th></tr></thead>
+    <tbody>
+      {{#each prioritization.features}}
+      <tr>
+        <td>{{this.rank}}</td>
+        <td>{{this.feature}}</td>
+        <td>{{moscow this.bucket}}</td>
+        <td>{{this.rice.reach}}</td>
+        <td>{{this.rice.impact}}</td>
+        <td>{{percent this.rice.confidence}}</td>
+        <td>{{this.effort}}</td>
+        <td>{{this.rice.score}}</td>
+      </tr>
+      {{/each}}
+    </tbody>
+    {{else}}
+    <thead><tr><th>Rank</th><th>Feature</th><th>Priority</th><th>Effort (weeks)</th></tr></thead>
+    <tbody>
+      {{#each prioritization.features}}
+      <tr>
+        <td>{{this.rank}}</td>
+        <td>{{this.feature}}</td>
+        <td>{{moscow this.bucket}}</td>
+        <td>{{this.effort}}</td>
+      </tr>
+      {{/each}}
+    </tbody>
+    {{/if}}
+  </table>
+  {{/if}}
+  {{#if userStories}}
+  <h3>User Stories</h3>
+  <table>
+    <thead><tr><th>ID</th><th>Story</th><th>Acceptance Criteria</th><th>Points</th></tr></thead>
+    <tbody>
+      {{#each userStories}}
+      <tr>
+        <td>{{this.id}}</td>
+        <td><strong>{{this.title}}</strong><br>{{this.story}}</td>
+        <td><ul>{{#each this.acceptanceCriteria}}<li>{{this}}</li>{{/each}}</ul></td>
+        <td>{{this.points}}</td>
+      </tr>
+      {{/each}}
+    </tbody>
+  </table>
+  {{/if}}
+  <h3>Success Metrics</h3>
+  <ul>
+    {{#each mvp.successMetrics}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ul>
+  {{#if mvp.nonGoals}}
+  <h3>Non-Goals (Out of Scope)</h3>
+  <ul>
+    {{#each mvp.nonGoals}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ul>
+  {{/if}}
+  {{#if mvp.outOfScope}}
+  <h3>Out of Scope (Parking Lot)</h3>
+  <ul>
+    {{#each mvp.outOfScope}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ul>
+  {{/if}}
+  {{#if mvp.constraints}}
+  <h3>Constraints</h3>
+  <ul>
+    {{#each mvp.constraints}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ul>
+  {{/if}}
+</section>
+
+<section id="timeline">
+  <h2>3. Timeline</h2>
+  <p><strong>Total Duration:</strong> {{timeline.totalWeeks}} weeks</p>
+  <table>
+    <thead><tr><th>Phase</th><th>Duration</th><th>Deliverables</th></tr></thead>
+    <tbody>
+      {{#each timeline.phases}}
+      <tr>
+        <td>{{this.name}}</td>
+        <td>{{this.duration}} weeks</td>
+        <td>{{join this.deliverables ", "}}</td>
+      </tr>
+      {{/each}}
+    </tbody>
+  </table>
+  {{#if timeline.milestones}}
+  <h3>Milestones</h3>
+  <ul>
+    {{#each timeline.milestones}}
+    <li><strong>{{this.name}}</strong> &ndash; {{this.date}}
+      {{#if this.criteria}}
+      <ul>
+        {{#each this.criteria}}
+        <li>{{this}}</li>
+        {{/each}}
+      </ul>
+      {{/if}}
+    </li>
+    {{/each}}
+  </ul>
+  {{/if}}
+</section>
+
+<section id="tech-stack">
+  <h2>4. Technical Stack</h2>
+  <table>
+    <tbody>
+      {{#if techStack.frontend}}<tr><th scope="row">Frontend</th><td>{{join techStack.frontend}}</td></tr>{{/if}}
+      {{#if techStack.backend}}<tr><th scope="row">Backend</th><td>{{join techStack.backend}}</td></tr>{{/if}}
+      {{#if techStack.database}}<tr><th scope="row">Database</th><td>{{join techStack.database}}</td></tr>{{/if}}
+      {{#if techStack.hosting}}<tr><th scope="row">Hosting &amp; Deployment</th><td>{{join techStack.hosting}}</td></tr>{{/if}}
+      {{#if techStack.tools}}<tr><th scope="row">Tools</th><td>{{join techStack.tools}}</td></tr>{{/if}}
+    </tbody>
+  </table>
+</section>
+
+<section id="risks">
+  <h2>5. Risk Assessment</h2>
+  {{#if risks}}
+  <table class="risk-matrix" aria-label="Risk matrix: impact by likelihood">
+    <thead>
+      <tr><th></th><th class="axis" colspan="3">Likelihood</th></tr>
+      <tr><th class="axis">Impact</th><th>Low</th><th>Medium</th><th>High</th></tr>
+    </thead>
+    <tbody>
+      {{#each riskMatrix}}
+      <tr>
+        <th scope="row">{{this.label}}</th>
+        {{#each this.cells}}
+        <td class="risk-{{this.level}}">
+          {{#each this.risks}}<span class="risk-id" title="{{this.description}}">{{this.number}}</span>{{/each}}
+        </td>
+        {{/each}}
+      </tr>
+      {{/each}}
+    </tbody>
+  </table>
+  <table>
+    <thead><tr><th>#</th><th>Risk</th><th>Impact</th><th>Likelihood</th><th>Mitigation</th></tr></thead>
+    <tbody>
+      {{#each risks}}
+      <tr>
+        <td>{{inc @index}}</td>
+        <td>{{this.description}}</td>
+        <td>{{this.impact}}</td>
+        <td>{{this.likelihood}}</td>
+        <td>{{this.mitigation}}</td>
+      </tr>
+      {{/each}}
+    </tbody>
+  </table>
+  {{else}}
+  <p class="empty">No risks identified</p>
+  {{/if}}
+</section>
+
+<section id="assumptions">
+  <h2>6. Assumptions &amp; Open Questions</h2>
+  <h3>Assumptions</h3>
+  {{#if assumptions}}
+  <ul>
+    {{#each assumptions}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ul>
+  {{else}}
+  <p class="empty">No assumptions documented</p>
+  {{/if}}
+  <h3>Open Questions</h3>
+  {{#if openQuestions}}
+  <ul>
+    {{#each openQuestions}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ul>
+  {{else}}
+  <p class="empty">No open questions</p>
+  {{/if}}
+</section>
+
+<section id="next-steps">
+  <h2>7. Next Steps</h2>
+  {{#if nextSteps}}
+  <ol>
+    {{#each nextSteps}}
+    <li>{{this}}</li>
+    {{/each}}
+  </ol>
+  {{else}}
+  <p class="empty">Next steps to be determined</p>
+  {{/if}}
+</section>
+
+<footer>
+  Generated with <a href="https://github.com/tomsolut/prd-zero">prd-zero</a> &ndash; MVP planning tool for solo developers
+</footer>
+</body>
+</html>
+`;
@@ -1,7 +1,23 @@
 import Handlebars from 'handlebars';
-import { PRDData } from '../types/index.js';
+import { Milestone, Phase, PRDData, ProjectEconomics, RoadmapChartStyle } from '../types/index.js';
 import { FileSystem } from '../utils/fileSystem.js';
 import { Logger } from '../utils/logger.js';
+import { WorkCalendar } from '../services/workCalendar.js';
+import { ProjectEconomicsService, formatCurrency } from '../services/projectEconomics.js';
+import {
+  analyzeFeatureComplexity,
+  detectFeatureLanguage,
+  ComplexityScore,
+  WEEKS_PER_POINT,
+} from '../validators/scopeProtection.js';
+import { addDays, formatISODate } from '../utils/dates.js';
+import { stemWord, tokenize } from '../utils/language.js';
+
+// Testing, debugging and deployment on top of the development time of a point
+const POINT_OVERHEAD = 1.3;
+
+// Share of the timeline the core features may take and leave room for surprises
+const SAFE_UTILIZATION_PERCENT = 80;
 
 const ROADMAP_TEMPLATE = `# Development Roadmap
 
@@ -9,21 +25,38 @@ const ROADMAP_TEMPLATE = `# Development Roadmap
 
 **Timeline:** {{timeline.totalWeeks}} weeks  
 **Start Date:** {{startDate}}  
-**Target Launch:** {{endDate}}
+**Target Launch:** {{endDate}}  
+**Working Week:** {{schedule.workingDaysPerWeek}} days, {{schedule.hoursPerWeek}} hours
 
 ---
 
 ## Sprint Plan
 
+**Sprint Length:** {{schedule.sprintWeeks}} weeks  
+**Core Feature Effort:** {{effort.points}} points, ~{{effort.hours}} hours ({{effort.utilizationPercent}}% of the timeline{{#unless effort.feasible}}, over the 80% safe limit{{/unless}})
+{{#each overloadedSprints}}
+
+> ⚠️ **Sprint {{this.number}} is over capacity:** {{this.loadHours}} of {{this.capacityHours}} hours planned
+{{/each}}
+
 {{#each sprints}}
 ### Sprint {{this.number}}: {{this.name}}
-**Duration:** Week {{this.startWeek}} - Week {{this.endWeek}}  
+**Duration:** Week {{this.startWeek}} - Week {{this.endWeek}} ({{isoDate this.startDate}} to {{isoDate this.endDate}})  
+**Capacity:** {{this.capacityHours}} hours  
+**Load:** {{this.loadPoints}} points, {{this.loadHours}} hours{{#if this.overloaded}} ⚠️ over capacity{{/if}}  
 **Focus:** {{this.focus}}
 
 #### Goals
 {{#each this.goals}}
 - [ ] {{this}}
 {{/each}}
+{{#if this.features.length}}
+
+#### Features
+{{#each this.features}}
+- [ ] {{this.name}} ({{this.points}} pts, ~{{this.hours}} h)
+{{/each}}
+{{/if}}
 
 #### Deliverables
 {{#each this.deliverables}}
@@ -36,6 +69,11 @@ const ROADMAP_TEMPLATE = `# Development Roadmap
 
 ## Gantt Chart View
 
+{{#if ganttChart}}
+\`\`\`mermaid
+{{{ganttChart}}}
+\`\`\`
+{{else}}
 \`\`\`
 {{#each phases}}
 {{padEnd this.name 20}} |{{generateBar this.startWeek this.duration ../timeline.totalWeeks}}|
@@ -43,11 +81,12 @@ const ROADMAP_TEMPLATE = `# Development Roadmap
 \`\`\`
 
 Week: {{generateWeekNumbers timeline.totalWeeks}}
+{{/if}}
 
 ## Key Milestones
 
-{{#each timeline.milestones}}
-- **{{this.name}}** ({{this.date}})
+{{#each milestones}}
+- **{{this.name}}** ({{#if this.dueDate}}{{isoDate this.dueDate}}{{else}}{{this.date}}{{/if}})
   - Success Criteria:
     {{#each this.criteria}}
     - {{this}}
@@ -61,6 +100,12 @@ Week: {{generateWeekNumbers timeline.totalWeeks}}
    - Dependencies: {{#if this.dependencies}}{{join this.dependencies ", "}}{{else}}None{{/if}}
    - Risk: {{this.risk}}
 {{/each}}
+{{#if criticalPathChart}}
+
+\`\`\`mermaid
+{{{criticalPathChart}}}
+\`\`\`
+{{/if}}
 
 ## Resource Allocation
 
@@ -71,17 +116,44 @@ Week: {{generateWeekNumbers timeline.totalWeeks}}
 - **Launch Phase:** 1 developer + marketing support
 
 ### Budget Estimates
-- **Development:** {{estimateBudget timeline.totalWeeks "dev"}}
-- **Infrastructure:** {{estimateBudget timeline.totalWeeks "infra"}}
-- **Marketing:** {{estimateBudget timeline.totalWeeks "marketing"}}
-- **Total:** {{estimateBudget timeline.totalWeeks "total"}}
+{{#each budget.lines}}
+- **{{this.category}}:** {{currency this.amount}} ({{this.basis}})
+{{/each}}
+- **Total:** {{currency budget.total}}
+
+#### Assumptions
+{{#each budget.assumptions}}
+- {{this}}
+{{/each}}
 
 ---
 
 *Generated with [prd-zero](https://github.com/tomsolut/prd-zero)*
 `;
 
-interface Sprint {
+/**
+ * Core feature with its effort estimate: the complexity score as story
+ * points, and the hours those points take. With user stories, each story
+ * is planned on its own.
+ */
+export interface PlannedFeature {
+  name: string;
+  points: number;
+  hours: number;
+  feature?: string; // Core feature of a user story
+}
+
+/**
+ * Effort of all core features against the hours of the timeline
+ */
+export interface EffortEstimate {
+  points: number;
+  hours: number;
+  utilizationPercent: number;
+  feasible: boolean; // Within the safe share of the timeline
+}
+
+export interface Sprint {
   number: number;
   name: string;
   startWeek: number;
@@ -89,19 +161,79 @@ interface Sprint {
   focus: string;
   goals: string[];
   deliverables: string[];
+  features: PlannedFeature[];
+  capacityHours: number;
+  loadHours: number;
+  loadPoints: number;
+  overloaded: boolean;
+}
+
+/**
+ * Sprint placed on the work calendar
+ */
+export interface ScheduledSprint extends Sprint {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ScheduledMilestone extends Milestone {
+  dueDate: Date | null; // null when the date is neither "Week N" nor a calendar date
+}
+
+export interface RoadmapOptions {
+  chart?: RoadmapChartStyle; // Mermaid diagrams by default, ASCII for plain-text viewers
+  calendar?: WorkCalendar; // Starts today with a five-day week by default
+  economics?: ProjectEconomics; // Default rates when omitted
+}
+
+interface PhaseWithWeeks {
+  name: string;
+  duration: number;
+  deliverables: string[];
+  startWeek: number;
 }
 
 interface CriticalPathItem {
   task: string;
-  week: number;
+  week: number; // Week the task is finished
   dependencies: string[];
-  risk: string;
+  risk: 'Low' | 'Medium' | 'High';
+  critical: boolean; // Delaying it delays the launch
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
 }
 
+/**
+ * Deliverables of a phase other than the core features, which are planned by effort
+ */
+function phaseDeliverables(data: PRDData, phase: Phase): string[] {
+  const coreFeatures = new Set(data.mvp.coreFeatures.map(normalizeName));
+  return phase.deliverables.filter(deliverable => !coreFeatures.has(normalizeName(deliverable)));
+}
+
+/**
+ * A phase is as risky as its riskiest feature, and low risk without features
+ */
+function phaseRisk(features: CriticalPathItem[]): CriticalPathItem['risk'] {
+  if (features.some(feature => feature.risk === 'High')) return 'High';
+  return features.length > 0 ? 'Medium' : 'Low';
+}
+
+const RISK_BY_COMPLEXITY: Record<ComplexityScore['level'], CriticalPathItem['risk']> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  extreme: 'High',
+};
+
 export class RoadmapGenerator {
   private template: HandlebarsTemplateDelegate;
+  readonly calendar: WorkCalendar;
 
-  constructor() {
+  constructor(private options: RoadmapOptions = {}) {
+    this.calendar = options.calendar ?? WorkCalendar.fromToday();
     this.registerHelpers();
     this.template = Handlebars.compile(ROADMAP_TEMPLATE);
   }
@@ -129,26 +261,23 @@ export class RoadmapGenerator {
       return '      ' + numbers.join('');
     });
 
-    Handlebars.registerHelper('join', (arr: string[], separator: string) => {
-      return arr.join(separator);
+    // Shared with the PRD templates, where the separator is optional
+    Handlebars.registerHelper('join', (arr: unknown, separator: unknown) => {
+      return Array.isArray(arr) ? arr.join(typeof separator === 'string' ? separator : ', ') : '';
     });
 
-    Handlebars.registerHelper('estimateBudget', (weeks: number, type: string) => {
-      const rates = {
-        dev: 5000,
-        infra: 500,
-        marketing: 1000,
-        total: 6500,
-      };
-      const monthly = (rates as any)[type] || 0;
-      const total = Math.round((weeks / 4) * monthly);
-      return `$${total.toLocaleString()}`;
-    });
+    Handlebars.registerHelper('isoDate', (date: Date) => formatISODate(date));
+
+    Handlebars.registerHelper('currency', (amount: number) => formatCurrency(amount));
   }
 
-  private generateSprints(data: PRDData): Sprint[] {
+  /**
+   * Sprints that follow the timeline phases, with core features allocated
+   * by estimated effort
+   */
+  generateSprints(data: PRDData): Sprint[] {
     const sprints: Sprint[] = [];
-    const sprintDuration = 2; // 2-week sprints
+    const sprintDuration = this.calendar.config.sprintWeeks;
     const totalSprints = Math.ceil(data.timeline.totalWeeks / sprintDuration);
 
     let currentWeek = 1;
@@ -156,14 +285,20 @@ export class RoadmapGenerator {
     let phaseProgress = 0;
 
     for (let i = 0; i < totalSprints; i++) {
+      const endWeek = Math.min(currentWeek + sprintDuration - 1, data.timeline.totalWeeks);
       const sprint: Sprint = {
         number: i + 1,
         name: '',
         startWeek: currentWeek,
-        endWeek: Math.min(currentWeek + sprintDuration - 1, data.timeline.totalWeeks),
+        endWeek,
         focus: '',
         goals: [],
         deliverables: [],
+        features: [],
+        capacityHours: Math.round((endWeek - currentWeek + 1) * this.calendar.config.hoursPerWeek),
+        loadHours: 0,
+        loadPoints: 0,
+        overloaded: false,
       };
 
       // Determine which phase this sprint belongs to
@@ -177,13 +312,15 @@ export class RoadmapGenerator {
           sprint.goals.push(`Begin ${phase.name.toLowerCase()} phase`);
         }
         
-        // Distribute deliverables across sprints in this phase
+        // Distribute deliverables across sprints in this phase; core features are allocated by effort
+        // below, and the deliverables of their phases follow them
+        const deliverables = phaseDeliverables(data, phase);
         const sprintsInPhase = Math.ceil(phase.duration / sprintDuration);
-        const delivsPerSprint = Math.ceil(phase.deliverables.length / sprintsInPhase);
+        const delivsPerSprint = Math.ceil(deliverables.length / sprintsInPhase);
         const startIdx = Math.floor(phaseProgress / sprintDuration) * delivsPerSprint;
-        const endIdx = Math.min(startIdx + delivsPerSprint, phase.deliverables.length);
+        const endIdx = Math.min(startIdx + delivsPerSprint, deliverables.length);
         
-        sprint.deliverables = phase.deliverables.slice(startIdx, endIdx);
+        sprint.deliverables = deliverables.slice(startIdx, endIdx);
         
         // Add some generic goals based on phase
         if (phase.name.toLowerCase().includes('planning')) {
@@ -207,66 +344,210 @@ export class RoadmapGenerator {
       currentWeek += sprintDuration;
     }
 
+    this.allocateFeatures(data, sprints);
     return sprints;
   }
 
-  private generateCriticalPath(data: PRDData): CriticalPathItem[] {
-    const criticalPath: CriticalPathItem[] = [];
-    let week = 1;
+  /**
+   * Estimated effort of each core feature: its complexity score as points,
+   * or the points of its user stories. Hours and utilization follow from
+   * the points, so all three figures agree.
+   */
+  estimateFeatures(data: PRDData): { features: PlannedFeature[]; effort: EffortEstimate } {
+    const language = detectFeatureLanguage(data.mvp.coreFeatures);
+    const { hoursPerWeek } = this.calendar.config;
+    const toHours = (points: number): number => Math.round(points * WEEKS_PER_POINT * POINT_OVERHEAD * hoursPerWeek);
+
+    const features = data.mvp.coreFeatures.flatMap((name): PlannedFeature[] => {
+      const stories = (data.userStories ?? []).filter(story => story.feature === name);
+      if (stories.length === 0) {
+        const points = Math.ceil(analyzeFeatureComplexity(name, language).score);
+        return [{ name, points, hours: toHours(points) }];
+      }
 
-    // Planning critical items
-    criticalPath.push({
-      task: 'Complete technical architecture',
-      week: Math.ceil(data.timeline.phases[0]?.duration / 2) || 1,
-      dependencies: [],
-      risk: 'Low',
+      // Template story titles name their feature already
+      return stories.map(story => ({
+        name: story.title.toLowerCase().includes(name.toLowerCase())
+          ? `${story.id}: ${story.title}`
+          : `${story.id}: ${story.title} · ${name}`,
+        points: story.points,
+        hours: toHours(story.points),
+        feature: name,
+      }));
     });
 
-    // Development critical items
-    if (data.mvp.coreFeatures.length > 0) {
-      const devPhase = data.timeline.phases.find(p => p.name.toLowerCase().includes('develop'));
-      if (devPhase) {
-        week = data.timeline.phases[0]?.duration || 0;
-        criticalPath.push({
-          task: `Implement ${data.mvp.coreFeatures[0]}`,
-          week: week + Math.ceil(devPhase.duration / 3),
-          dependencies: ['Technical architecture'],
-          risk: 'Medium',
-        });
+    const points = features.reduce((sum, feature) => sum + feature.points, 0);
+    const hours = features.reduce((sum, feature) => sum + feature.hours, 0);
+    const utilizationPercent = Math.round(hours / (data.timeline.totalWeeks * hoursPerWeek) * 100);
+
+    return {
+      features,
+      effort: { points, hours, utilizationPercent, feasible: utilizationPercent <= SAFE_UTILIZATION_PERCENT },
+    };
+  }
+
+  /**
+   * Fill the sprints of the phases that build the core features, in
+   * priority order, up to the safe share of their hours. A feature or story
+   * that does not fit the rest of a sprint moves to the next one; what is
+   * left after the last sprint overloads it.
+   */
+  private allocateFeatures(data: PRDData, sprints: Sprint[]): void {
+    const { features } = this.estimateFeatures(data);
+    if (features.length === 0 || sprints.length === 0) return;
+
+    const coreFeatures = new Set(data.mvp.coreFeatures.map(normalizeName));
+    const buildPhases = data.timeline.phases.filter(phase => phase.deliverables.some(d => coreFeatures.has(normalizeName(d))));
+    const phases = buildPhases.length > 0
+      ? buildPhases
+      : data.timeline.phases.filter(phase => /develop|build|implement/i.test(phase.name));
+    const phaseNames = new Set(phases.map(phase => phase.name));
+    const candidates = sprints.filter(sprint => phaseNames.has(sprint.name));
+    const targets = candidates.length > 0 ? candidates : sprints;
+    const safeHours = (sprint: Sprint): number => sprint.capacityHours * SAFE_UTILIZATION_PERCENT / 100;
+
+    let index = 0;
+    features.forEach(feature => {
+      while (
+        index < targets.length - 1 &&
+        targets[index].features.length > 0 &&
+        targets[index].loadHours + feature.hours > safeHours(targets[index])
+      ) {
+        index++;
       }
-    }
+      const sprint = targets[index];
+      sprint.features.push(feature);
+      sprint.loadHours += feature.hours;
+      sprint.loadPoints += feature.points;
+    });
 
-    // Testing critical item
-    const testPhase = data.timeline.phases.find(p => p.name.toLowerCase().includes('test'));
-    if (testPhase) {
-      week = data.timeline.phases.slice(0, -1).reduce((sum, p) => sum + p.duration, 0);
-      criticalPath.push({
-        task: 'Complete user acceptance testing',
-        week: week + Math.ceil(testPhase.duration / 2),
-        dependencies: ['Core features'],
-        risk: 'Medium',
-      });
-    }
+    sprints.forEach(sprint => {
+      sprint.overloaded = sprint.loadHours > sprint.capacityHours;
+    });
 
-    // Launch critical item
-    criticalPath.push({
-      task: 'Production deployment',
-      week: data.timeline.totalWeeks - 1,
-      dependencies: ['User acceptance testing'],
-      risk: 'High',
+    phases.forEach(phase => this.placeDeliverables(data, phase, sprints.filter(sprint => sprint.name === phase.name)));
+  }
+
+  /**
+   * Move the deliverables of a build phase to the sprints that build its
+   * features: one that names a feature goes with it ("Clients" with "Client
+   * list"), the others are spread over those sprints.
+   */
+  private placeDeliverables(data: PRDData, phase: Phase, phaseSprints: Sprint[]): void {
+    const building = phaseSprints.filter(sprint => sprint.features.length > 0);
+    if (building.length === 0) return;
+
+    const language = detectFeatureLanguage(data.mvp.coreFeatures);
+    const stems = (text: string): Set<string> => new Set(
+      tokenize(text).filter(word => word.length >= 4).map(word => stemWord(word, language))
+    );
+    const sprintOf = (deliverable: string): Sprint | undefined => {
+      const wanted = stems(deliverable);
+      return [...building].reverse().find(sprint => sprint.features.some(feature =>
+        [...stems(feature.feature ?? feature.name)].some(stem => wanted.has(stem))
+      ));
+    };
+
+    phaseSprints.forEach(sprint => {
+      sprint.deliverables = [];
+    });
+    const unmatched: string[] = [];
+    phaseDeliverables(data, phase).forEach(deliverable => {
+      const sprint = sprintOf(deliverable);
+      if (sprint) {
+        sprint.deliverables.push(deliverable);
+      } else {
+        unmatched.push(deliverable);
+      }
     });
 
-    return criticalPath;
+    const perSprint = Math.ceil(unmatched.length / building.length);
+    unmatched.forEach((deliverable, i) => building[Math.floor(i / perSprint)].deliverables.push(deliverable));
   }
 
-  generate(data: PRDData): string {
-    const startDate = new Date();
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + data.timeline.totalWeeks * 7);
+  /**
+   * Sprints with calendar dates and hours available
+   */
+  scheduleSprints(data: PRDData): ScheduledSprint[] {
+    return this.generateSprints(data).map(sprint => ({
+      ...sprint,
+      startDate: this.calendar.weekStart(sprint.startWeek),
+      endDate: this.calendar.weekEnd(sprint.endWeek),
+    }));
+  }
+
+  scheduleMilestones(data: PRDData): ScheduledMilestone[] {
+    return data.timeline.milestones.map(milestone => ({
+      ...milestone,
+      dueDate: this.calendar.resolveMilestoneDate(milestone.date),
+    }));
+  }
+
+  /**
+   * Dependency graph of the phases and core features. A feature depends on
+   * the phase before the one that builds it and finishes with its last
+   * sprint; a phase completes once its features are done. The critical path
+   * follows the latest-finishing dependency back from the end.
+   */
+  private generateCriticalPath(data: PRDData, phases: PhaseWithWeeks[], sprints: Sprint[]): CriticalPathItem[] {
+    const language = detectFeatureLanguage(data.mvp.coreFeatures);
+    const finished = new Map<string, { week: number; phase: string }>();
+    sprints.forEach(sprint => sprint.features.forEach(feature => {
+      finished.set(feature.feature ?? feature.name, { week: sprint.endWeek, phase: sprint.name });
+    }));
+
+    const featureItem = (feature: string, dependencies: string[]): CriticalPathItem => ({
+      task: `Implement ${feature}`,
+      week: finished.get(feature)?.week ?? data.timeline.totalWeeks,
+      dependencies,
+      risk: RISK_BY_COMPLEXITY[analyzeFeatureComplexity(feature, language).level],
+      critical: false,
+    });
+
+    const items: CriticalPathItem[] = [];
+    let previous: string | undefined;
+    phases.forEach((phase, index) => {
+      const features = data.mvp.coreFeatures
+        .filter(feature => finished.get(feature)?.phase === phase.name)
+        .map(feature => featureItem(feature, previous ? [previous] : []));
+      const task = `Complete ${phase.name}`;
+      items.push(...features, {
+        task,
+        week: Math.max(phase.startWeek + phase.duration - 1, ...features.map(feature => feature.week)),
+        dependencies: features.length > 0 ? features.map(feature => feature.task) : previous ? [previous] : [],
+        risk: index === phases.length - 1 ? 'High' : phaseRisk(features),
+        critical: false,
+      });
+      previous = task;
+    });
 
+    // Without phases the features stand on their own
+    data.mvp.coreFeatures
+      .filter(feature => !phases.some(phase => phase.name === finished.get(feature)?.phase))
+      .forEach(feature => items.push(featureItem(feature, [])));
+
+    const byTask = new Map(items.map(item => [item.task, item]));
+    let current = items.reduce<CriticalPathItem | undefined>(
+      (latest, item) => (!latest || item.week >= latest.week ? item : latest),
+      undefined
+    );
+    while (current) {
+      current.critical = true;
+      current = current.dependencies
+        .map(dependency => byTask.get(dependency))
+        .reduce<CriticalPathItem | undefined>(
+          (latest, item) => (item && (!latest || item.week > latest.week) ? item : latest),
+          undefined
+        );
+    }
+
+    return items;
+  }
+
+  generate(data: PRDData): string {
     // Calculate phase start weeks
     let weekCounter = 1;
-    const phasesWithWeeks = data.timeline.phases.map(phase => {
+    const phasesWithWeeks: PhaseWithWeeks[] = data.timeline.phases.map(phase => {
       const result = {
         ...phase,
         startWeek: weekCounter,
@@ -275,19 +556,135 @@ export class RoadmapGenerator {
       return result;
     });
 
+    const sprints = this.scheduleSprints(data);
+    const { effort } = this.estimateFeatures(data);
+    const milestones = this.scheduleMilestones(data);
+    const dependencyGraph = this.generateCriticalPath(data, phasesWithWeeks, sprints);
+    const mermaid = (this.options.chart ?? 'mermaid') === 'mermaid';
+
     const context = {
       project: data.project,
       timeline: data.timeline,
       phases: phasesWithWeeks,
-      sprints: this.generateSprints(data),
-      criticalPath: this.generateCriticalPath(data),
-      startDate: startDate.toLocaleDateString(),
-      endDate: endDate.toLocaleDateString(),
+      sprints,
+      overloadedSprints: sprints.filter(sprint => sprint.overloaded),
+      effort,
+      milestones,
+      criticalPath: dependencyGraph.filter(item => item.critical),
+      schedule: this.calendar.config,
+      budget: ProjectEconomicsService.estimateBudget(
+        data,
+        this.options.economics ?? ProjectEconomicsService.defaults(),
+        this.calendar.config.hoursPerWeek
+      ),
+      startDate: formatISODate(this.calendar.weekStart(1)),
+      endDate: formatISODate(this.calendar.weekEnd(data.timeline.totalWeeks)),
+      ganttChart: mermaid ? this.generateGanttChart(data, phasesWithWeeks, sprints, milestones) : undefined,
+      criticalPathChart: mermaid ? this.generateCriticalPathChart(dependencyGraph) : undefined,
     };
 
     return this.template(context);
   }
 
+  /**
+   * Mermaid gantt chart of phases, sprints and milestones. Bars run from the
+   * first to the last working day; Mermaid end dates are exclusive.
+   */
+  private generateGanttChart(
+    data: PRDData,
+    phases: PhaseWithWeeks[],
+    sprints: ScheduledSprint[],
+    milestones: ScheduledMilestone[]
+  ): string {
+    const bar = (start: Date, end: Date): string => `${formatISODate(start)}, ${formatISODate(addDays(end, 1))}`;
+    const lines = [
+      'gantt',
+      `  title ${mermaidText(data.project.name)}`,
+      '  dateFormat YYYY-MM-DD',
+      '  axisFormat %d %b',
+    ];
+
+    const excludes = this.getExcludedDays();
+    if (excludes.length > 0) {
+      lines.push(`  excludes ${excludes.join(', ')}`);
+    }
+
+    lines.push(
+      '  section Phases',
+      ...phases.map((phase, index) => {
+        const start = this.calendar.weekStart(phase.startWeek);
+        const end = this.calendar.weekEnd(phase.startWeek + phase.duration - 1);
+        return `  ${mermaidText(phase.name)} :p${index + 1}, ${bar(start, end)}`;
+      }),
+      '  section Sprints',
+      ...sprints.map(sprint => {
+        const name = sprint.name ? `Sprint ${sprint.number} - ${sprint.name}` : `Sprint ${sprint.number}`;
+        return `  ${mermaidText(name)} :s${sprint.number}, ${bar(sprint.startDate, sprint.endDate)}`;
+      })
+    );
+
+    const dated = milestones.filter((milestone): milestone is ScheduledMilestone & { dueDate: Date } =>
+      milestone.dueDate !== null
+    );
+
+    if (dated.length > 0) {
+      lines.push('  section Milestones');
+      dated.forEach((milestone, index) => {
+        lines.push(`  ${mermaidText(milestone.name)} :milestone, m${index + 1}, ${formatISODate(milestone.dueDate)}, 0d`);
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Non-working weekdays and holidays, shaded in the gantt chart
+   */
+  private getExcludedDays(): string[] {
+    const { workingDaysPerWeek, holidays } = this.calendar.config;
+    const days = workingDaysPerWeek === 5 ? ['weekends'] : WEEKDAYS.slice(workingDaysPerWeek);
+    holidays.forEach(holiday => {
+      for (let day = holiday.start; day <= holiday.end; day = addDays(day, 1)) {
+        days.push(formatISODate(day));
+      }
+    });
+    return days;
+  }
+
+  /**
+   * Mermaid flowchart of the dependency graph, colored by risk, with the
+   * critical path outlined
+   */
+  private generateCriticalPathChart(dependencyGraph: CriticalPathItem[]): string {
+    const ids = new Map(dependencyGraph.map((item, index) => [item.task, `c${index + 1}`]));
+    const lines = ['flowchart LR'];
+
+    dependencyGraph.forEach(item => {
+      const label = `${item.task}<br/>Week ${item.week}`.replace(/"/g, "'");
+      lines.push(`  ${ids.get(item.task)}["${label}"]:::${item.risk.toLowerCase()}`);
+    });
+
+    dependencyGraph.forEach(item => {
+      item.dependencies
+        .filter(dependency => ids.has(dependency))
+        .forEach(dependency => lines.push(`  ${ids.get(dependency)} --> ${ids.get(item.task)}`));
+    });
+
+    lines.push(
+      '  classDef low fill:#c6f6d5,stroke:#2f855a',
+      '  classDef medium fill:#fefcbf,stroke:#b7791f',
+      '  classDef high fill:#feb2b2,stroke:#c53030',
+      '  classDef critical stroke-width:3px'
+    );
+
+    const critical = dependencyGraph.filter(item => item.critical).map(item => ids.get(item.task));
+    if (critical.length > 0) {
+      lines.push(`  class ${critical.join(',')} critical`);
+    }
+
+    return lines.join('\n');
+  }
+
   async save(data: PRDData, outputDir: string): Promise<string> {
     const content = this.generate(data);
     const fileName = FileSystem.generateFileName(
@@ -301,4 +698,13 @@ export class RoadmapGenerator {
 
     return filePath;
   }
-}
\ No newline at end of file
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * Colons and semicolons separate fields in Mermaid gantt lines, # starts a comment
+ */
+function mermaidText(text: string): string {
+  return text.replace(/[:;#]/g, ' ').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,161 @@
+import { ValidationReport } from '../validators/validationIntegrator.js';
+
+const TOOL_NAME = 'prd-zero';
+const TOOL_VERSION = '1.0.0';
+const TOOL_URI = 'https://github.com/tomsolut/prd-zero';
+
+export type ValidationReportFormat = 'json' | 'sarif' | 'junit';
+
+type FindingLevel = 'error' | 'warning' | 'note';
+
+interface FindingRule {
+  id: string;
+  level: FindingLevel;
+  description: string;
+}
+
+interface Finding {
+  rule: FindingRule;
+  message: string;
+}
+
+// Findings are grouped by what they mean for the exit code
+const RULES: Record<'blocker' | 'critical' | 'warning' | 'recommendation', FindingRule> = {
+  blocker: { id: 'mvp-blocker', level: 'error', description: 'Blocks the MVP plan from proceeding' },
+  critical: { id: 'critical-issue', level: 'error', description: 'Critical issue in scope, timeline or plan data' },
+  warning: { id: 'scope-warning', level: 'warning', description: 'Risk to scope, timeline or validation' },
+  recommendation: { id: 'recommendation', level: 'note', description: 'Suggested change to the plan' },
+};
+
+/**
+ * Machine-readable renderings of a validation report for CI:
+ * plain JSON, SARIF 2.1.0 for code scanning, JUnit XML for test reporters
+ */
+export class ValidationReportGenerator {
+  static generate(
+    format: ValidationReportFormat,
+    report: ValidationReport,
+    source: string,
+    options: { strict?: boolean } = {}
+  ): string {
+    switch (format) {
+      case 'json':
+        return this.toJSON(report, source);
+      case 'sarif':
+        return this.toSARIF(report, source);
+      case 'junit':
+        return this.toJUnit(report, source, options.strict ?? false);
+    }
+  }
+
+  static toJSON(report: ValidationReport, source: string): string {
+    return JSON.stringify({ source, ...report }, null, 2);
+  }
+
+  static toSARIF(report: ValidationReport, source: string): string {
+    const rules = Object.values(RULES);
+    const uri = source.split('\\').join('/');
+
+    const sarif = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            informationUri: TOOL_URI,
+            rules: rules.map(rule => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.level },
+            })),
+          },
+        },
+        artifacts: [{ location: { uri } }],
+        results: collectFindings(report).map(finding => ({
+          ruleId: finding.rule.id,
+          ruleIndex: rules.indexOf(finding.rule),
+          level: finding.rule.level,
+          message: { text: finding.message },
+          locations: [{ physicalLocation: { artifactLocation: { uri, index: 0 } } }],
+        })),
+        properties: {
+          mvpReadinessScore: report.mvpReadinessScore,
+          shouldProceed: report.shouldProceed,
+        },
+      }],
+    };
+
+    return JSON.stringify(sarif, null, 2);
+  }
+
+  /**
+   * One test case per finding; errors fail, warnings fail only in strict mode
+   */
+  static toJUnit(report: ValidationReport, source: string, strict: boolean): string {
+    const findings = collectFindings(report);
+    const fails = (finding: Finding): boolean =>
+      finding.rule.level === 'error' || (strict && finding.rule.level === 'warning');
+    const failures = findings.filter(fails).length;
+    const tests = findings.length + 1;
+
+    const cases = [
+      `    <testcase classname="${TOOL_NAME}" name="${escapeXml(`MVP readiness ${report.mvpReadinessScore}%`)}"/>`,
+      ...findings.map(finding => {
+        const name = escapeXml(finding.message);
+        const classname = `${TOOL_NAME}.${finding.rule.id}`;
+        return fails(finding)
+          ? `    <testcase classname="${classname}" name="${name}">\n      <failure type="${finding.rule.id}" message="${name}"/>\n    </testcase>`
+          : `    <testcase classname="${classname}" name="${name}"/>`;
+      }),
+    ];
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${TOOL_NAME} validate" tests="${tests}" failures="${failures}">`,
+      `  <testsuite name="${escapeXml(source)}" tests="${tests}" failures="${failures}" errors="0" timestamp="${new Date().toISOString().slice(0, 19)}">`,
+      '    <properties>',
+      `      <property name="mvpReadinessScore" value="${report.mvpReadinessScore}"/>`,
+      `      <property name="shouldProceed" value="${report.shouldProceed}"/>`,
+      '    </properties>',
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+}
+
+/**
+ * Blockers are also critical issues, and scope recommendations also
+ * warnings; each message is reported once, under its most severe rule
+ */
+function collectFindings(report: ValidationReport): Finding[] {
+  const seen = new Set<string>();
+  const findings: Finding[] = [];
+  const add = (rule: FindingRule, messages: string[]): void => {
+    messages.filter(message => !seen.has(message)).forEach(message => {
+      seen.add(message);
+      findings.push({ rule, message });
+    });
+  };
+
+  add(RULES.blocker, report.blockers);
+  add(RULES.critical, report.criticalIssues);
+  add(RULES.warning, report.warnings);
+  add(RULES.recommendation, report.recommendations);
+  return findings;
+}
+
+function escapeXml(text: string): string {
+  // Control characters other than tab and line breaks are not allowed in XML 1.0
+  return Array.from(text)
+    .filter(char => char.charCodeAt(0) >= 0x20 || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
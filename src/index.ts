@@ -4,6 +4,23 @@ import * as dotenv from 'dotenv';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { initCommand } from './commands/init.js';
+import { resumeCommand } from './commands/resume.js';
+import { generateCommand } from './commands/generate.js';
+import { exportIssuesCommand } from './commands/export.js';
+import { diffCommand } from './commands/diff.js';
+import { importCommand } from './commands/import.js';
+import { validateCommand } from './commands/validate.js';
+import { rulesListCommand } from './commands/rules.js';
+import { ProjectConfig } from './services/projectConfig.js';
+import { ScopeRuleEngine } from './services/scopeRuleEngine.js';
+import { Logger } from './utils/logger.js';
+import {
+  templatesListCommand,
+  templatesAddCommand,
+  templatesShowCommand,
+  templatesRemoveCommand,
+  templatesUseCommand,
+} from './commands/templates.js';
 import { fileURLToPath } from 'url';
 import { dirname, join, resolve } from 'path';
 import { existsSync } from 'fs';
@@ -31,7 +48,7 @@ function loadEnvFile() {
   // Try to load from each path
   for (const envPath of envPaths) {
     if (existsSync(envPath)) {
-      const result = dotenv.config({ path: envPath });
+      const result = dotenv.config({ path: envPath, quiet: true });
       if (!result.error && process.env.ANTHROPIC_API_KEY) {
         // Successfully loaded with API key
         if (process.env.DEBUG === 'true') {
@@ -43,12 +60,22 @@ function loadEnvFile() {
   }
   
   // Fallback: try default dotenv behavior
-  dotenv.config();
+  dotenv.config({ quiet: true });
 }
 
 // Load environment variables
 loadEnvFile();
 
+// Calendar flags shared by every command that schedules the roadmap
+function addScheduleOptions(command: Command): Command {
+  return command
+    .option('--start-date <date>', 'first day of the project, YYYY-MM-DD (default: today)')
+    .option('--working-days <days>', 'working days per week, counted from Monday', '5')
+    .option('--hours-per-week <hours>', 'hours available per week for sprint capacity', '40')
+    .option('--sprint-length <weeks>', 'sprint length in weeks', '2')
+    .option('--holidays <file>', 'YAML or JSON list of holidays and vacations to skip');
+}
+
 const program = new Command();
 
 program
@@ -56,49 +83,162 @@ program
   .description(chalk.cyan('MVP planning tool for solo developers - from idea to PRD in 70 minutes'))
   .version('1.0.0')
   .option('-d, --debug', 'output extra debugging')
-  .option('--no-color', 'disable colored output');
+  .option('--no-color', 'disable colored output')
+  .option('-c, --config <file>', 'project config file (default: nearest .prdzerorc or prd-zero.config.*)');
 
-program
+// The project config supplies option defaults; flags given on the command line win
+program.hook('preAction', async (_program, actionCommand) => {
+  try {
+    await ProjectConfig.load(program.opts().config);
+    await ScopeRuleEngine.load(ProjectConfig.get().scopeRules);
+    if (ProjectConfig.getPath() && process.env.DEBUG === 'true') {
+      console.log(chalk.gray(`Loaded config from: ${ProjectConfig.getPath()}`));
+    }
+  } catch (error) {
+    Logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const defaults = ProjectConfig.getOptionDefaults(actionCommand.name());
+  actionCommand.options.forEach(option => {
+    const key = option.attributeName();
+    const source = actionCommand.getOptionValueSource(key);
+    if (defaults[key] !== undefined && (source === undefined || source === 'default')) {
+      actionCommand.setOptionValueWithSource(key, defaults[key], 'config');
+    }
+  });
+});
+
+addScheduleOptions(program
   .command('init')
   .description('Start a new MVP planning session (70 minutes max)')
   .option('-o, --output <path>', 'output directory for generated files', './outputs')
   .option('-t, --time-limit <minutes>', 'session time limit in minutes', '70')
   .option('--ai', 'enable AI-powered suggestions (requires API key)')
   .option('--ai-mode <mode>', 'AI interaction mode: active, passive, or off', 'active')
-  .option('--skip-intro', 'skip the introduction and get straight to planning')
+  .option('--ai-record <dir>', 'record every AI prompt/response pair to a cassette directory')
+  .option('--ai-replay <dir>', 'replay AI responses from a cassette directory without network')
+  .option('--model-route <task=model...>', 'use a different model for a task (challenge, list_suggestion, validate, optimize)')
+  .option('--template <name>', 'PRD template (see: prd-zero templates list)')
+  .option('-f, --format <formats>', 'PRD output formats, comma-separated: md, html, json', 'md')
+  .option('--roadmap-chart <style>', 'roadmap charts: mermaid or ascii', 'mermaid')
+  .option('--economics <file>', 'YAML or JSON file with hourly rate, infrastructure and marketing costs')
+  .option('--skip-intro', 'skip the introduction and get straight to planning'))
   .action(initCommand);
 
 program
   .command('resume')
   .description('Resume a previous planning session')
-  .argument('<session-file>', 'path to saved session file')
-  .action((sessionFile) => {
-    console.log(chalk.yellow('Resume feature coming soon!'));
-    console.log(`Would resume from: ${sessionFile}`);
-  });
+  .argument('<session-file>', 'path to a session.json checkpoint or its session directory')
+  .option('--ai-record <dir>', 'record every AI prompt/response pair to a cassette directory')
+  .option('--ai-replay <dir>', 'replay AI responses from a cassette directory without network')
+  .option('--model-route <task=model...>', 'use a different model for a task (challenge, list_suggestion, validate, optimize)')
+  .action(resumeCommand);
+
+addScheduleOptions(program
+  .command('generate')
+  .description('Generate PRD and roadmap from an answers file without prompts (CI-friendly)')
+  .requiredOption('-a, --answers <file>', 'YAML or JSON file with the planning answers')
+  .option('-o, --output <path>', 'output directory for generated files', './outputs')
+  .option('--template <name>', 'PRD template (see: prd-zero templates list)')
+  .option('--roadmap-chart <style>', 'roadmap charts: mermaid or ascii', 'mermaid')
+  .option('--economics <file>', 'YAML or JSON file with hourly rate, infrastructure and marketing costs'))
+  .action(generateCommand);
 
 program
+  .command('diff')
+  .description('Compare the plans of two sessions and write a Markdown changelog')
+  .argument('<session-a>', 'older session directory, session.json or prd.json')
+  .argument('<session-b>', 'newer session directory, session.json or prd.json')
+  .option('-o, --output <file>', 'changelog file (default: PRD_CHANGELOG.md in <session-b>)')
+  .action(diffCommand);
+
+program
+  .command('import')
+  .description('Parse an existing PRD Markdown file back into PRD data (JSON)')
+  .argument('<file>', 'PRD Markdown file in the structure of the default template')
+  .option('-o, --output <file>', 'output JSON file (default: <file>.imported.json)')
+  .option('--no-validate', 'skip the validation report')
+  .action(importCommand);
+
+program
+  .command('validate')
+  .description('Validate a saved plan and report blockers, critical issues and warnings (exit code 0/1/2, 3 on errors)')
+  .argument('<prd-file>', 'prd.json or answers file (YAML/JSON)')
+  .option('-f, --format <format>', 'report format: text, json, sarif or junit', 'text')
+  .option('-o, --output <file>', 'write the report to a file instead of stdout')
+  .option('--strict', 'fail on warnings too')
+  .action(validateCommand);
+
+program
+  .command('rules')
+  .description('List the scope-protection rules in effect and where they come from')
+  .action(rulesListCommand);
+
+const exportCommand = program
+  .command('export')
+  .description('Export planning results to other tools');
+
+addScheduleOptions(exportCommand
+  .command('issues')
+  .description('Export sprints, core features and milestones as issue tracker payloads')
+  .argument('<prd-file>', 'prd.json or answers file (YAML/JSON)')
+  .option('-t, --tracker <tracker>', 'github (REST JSON), gitlab (import CSV) or linear (CSV)', 'github')
+  .option('-o, --output <file>', 'output file (default: issues-<tracker>.<ext> next to the input)')
+  .option('--apply', 'create the milestones and issues through the tracker API')
+  .option('--repo <project>', 'owner/repo on GitHub, project ID or path on GitLab (with --apply)')
+  .option('--api-url <url>', 'API base URL (default: api.github.com or gitlab.com/api/v4)'))
+  .action(exportIssuesCommand);
+
+const templates = program
   .command('templates')
   .description('Manage PRD templates')
   .option('-l, --list', 'list available templates')
   .option('-a, --add <path>', 'add a custom template')
-  .action((options) => {
-    if (options.list) {
-      console.log(chalk.cyan('Available templates:'));
-      console.log('  - default: Standard PRD template');
-      console.log('  - minimal: Lightweight PRD for quick MVPs');
-      console.log('  - detailed: Comprehensive PRD with all sections');
-    } else if (options.add) {
-      console.log(chalk.yellow('Template management coming soon!'));
+  .action(async (options) => {
+    if (options.add) {
+      await templatesAddCommand(options.add, {});
+    } else {
+      await templatesListCommand();
     }
   });
 
+templates
+  .command('list')
+  .description('List built-in and custom templates')
+  .action(templatesListCommand);
+
+templates
+  .command('add')
+  .description('Validate a Handlebars template and add it to the registry')
+  .argument('<path>', 'path to the template file')
+  .option('-n, --name <name>', 'template name (default: file name)')
+  .action(templatesAddCommand);
+
+templates
+  .command('show')
+  .description('Print the source of a template')
+  .argument('<name>', 'template name')
+  .action(templatesShowCommand);
+
+templates
+  .command('remove')
+  .description('Remove a custom template')
+  .argument('<name>', 'template name')
+  .action(templatesRemoveCommand);
+
+templates
+  .command('use')
+  .description('Set the template used when init runs without --template')
+  .argument('<name>', 'template name')
+  .action(templatesUseCommand);
+
 program.on('option:debug', () => {
   process.env.DEBUG = 'true';
   console.log(chalk.gray('Debug mode enabled'));
 });
 
-program.parse(process.argv);
+await program.parseAsync(process.argv);
 
 if (!process.argv.slice(2).length) {
   program.outputHelp();
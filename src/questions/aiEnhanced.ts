@@ -1,10 +1,13 @@
 import { PRDData } from '../types/index.js';
 import { AIService } from '../services/aiService.js';
+import { API_KEY_VARIABLES, isProviderConfigured, resolveAIConfig } from '../services/llmProvider.js';
 import type { SessionAnalytics as ISessionAnalytics } from '../services/sessionAnalytics.js';
-import { OptimizedAIResponse, Warning } from '../types/ai.js';
+import { AIConfig, AIUsageMetrics, OptimizedAIResponse, Warning } from '../types/ai.js';
 import { QuestionTypeDetector, QuestionType } from '../services/questionTypeDetector.js';
 import { ContextMemoryService } from '../services/contextMemory.js';
-import { QuestionCategory } from '../types/contextMemory.js';
+import type { UserStoryDraft } from '../services/featureBreakdown.js';
+import { ProjectConfig } from '../services/projectConfig.js';
+import { QuestionCategory, ContextMemoryExport } from '../types/contextMemory.js';
 
 // Simple SessionAnalytics implementation for AI tracking
 class SessionAnalytics implements Partial<ISessionAnalytics> {
@@ -17,6 +20,7 @@ class SessionAnalytics implements Partial<ISessionAnalytics> {
 }
 import type { FlexibleInputOptions } from '../utils/flexibleInput.js';
 import { Logger } from '../utils/logger.js';
+import { StreamRenderer } from '../utils/streamRenderer.js';
 import { askFlexibleInput, askListInput } from '../utils/flexibleInput.js';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
@@ -31,9 +35,10 @@ export class AIEnhancedQuestions {
   constructor(
     sessionId: string,
     aiMode: 'active' | 'passive' | 'off' = 'passive',
-    showCosts: boolean = true
+    showCosts: boolean = true,
+    aiConfig?: Partial<AIConfig>
   ) {
-    this.aiService = new AIService();
+    this.aiService = new AIService(aiConfig);
     this.analytics = new SessionAnalytics();
     this.contextMemory = new ContextMemoryService();
     this.analytics.sessionId = sessionId;
@@ -67,9 +72,10 @@ export class AIEnhancedQuestions {
   }
 
   /**
-   * Display severity-based feedback with color coding
+   * Display severity-based feedback with color coding. The feedback text is
+   * skipped when it was already streamed to the terminal.
    */
-  private displayOptimizedFeedback(response: OptimizedAIResponse): void {
+  private displayOptimizedFeedback(response: OptimizedAIResponse, feedbackStreamed = false): void {
     // Assessment icon and color
     const assessmentDisplay = {
       good: { icon: '✅', color: chalk.green, label: 'MVP-Ready' },
@@ -84,8 +90,10 @@ export class AIEnhancedQuestions {
     Logger.info(chalk.gray('─'.repeat(60)));
     
     // Main feedback
-    Logger.info(color('Feedback:'));
-    Logger.info(response.feedback);
+    if (!feedbackStreamed) {
+      Logger.info(color('Feedback:'));
+      Logger.info(response.feedback);
+    }
     
     // Warnings if any
     if (response.warnings && response.warnings.length > 0) {
@@ -108,7 +116,8 @@ export class AIEnhancedQuestions {
       });
     }
     
-    // Question-specific metrics
+    // Question-specific metrics, judged against the project's scope policy
+    const policy = ProjectConfig.getScopePolicy();
     if (response.measurability_score !== undefined) {
       Logger.info('');
       Logger.info(chalk.gray(`Measurability Score: ${response.measurability_score}/10`));
@@ -116,9 +125,9 @@ export class AIEnhancedQuestions {
     
     // Enhanced Tech Stack metrics
     if (response.innovation_tokens !== undefined) {
-      const tokenColor = response.innovation_tokens.used > 2 ? chalk.red : chalk.green;
+      const tokenColor = response.innovation_tokens.used > policy.maxInnovationTokens ? chalk.red : chalk.green;
       Logger.info('');
-      Logger.info(tokenColor(`💡 Innovation Tokens: ${response.innovation_tokens.used}/2`));
+      Logger.info(tokenColor(`💡 Innovation Tokens: ${response.innovation_tokens.used}/${policy.maxInnovationTokens}`));
       
       if (response.innovation_tokens.details && response.innovation_tokens.details.length > 0) {
         response.innovation_tokens.details.forEach(token => {
@@ -130,8 +139,8 @@ export class AIEnhancedQuestions {
       }
     } else if (response.innovation_tokens_used !== undefined) {
       // Fallback for simple token count
-      const tokenColor = response.innovation_tokens_used > 2 ? chalk.red : chalk.green;
-      Logger.info(tokenColor(`Innovation Tokens Used: ${response.innovation_tokens_used}/2`));
+      const tokenColor = response.innovation_tokens_used > policy.maxInnovationTokens ? chalk.red : chalk.green;
+      Logger.info(tokenColor(`Innovation Tokens Used: ${response.innovation_tokens_used}/${policy.maxInnovationTokens}`));
     }
     
     // Skills Gap Analysis
@@ -204,12 +213,12 @@ export class AIEnhancedQuestions {
     }
     
     if (response.timeline_weeks !== undefined) {
-      const timelineColor = response.timeline_weeks > 12 ? chalk.red : chalk.green;
+      const timelineColor = response.timeline_weeks > policy.maxTimelineWeeks ? chalk.red : chalk.green;
       Logger.info(timelineColor(`Timeline: ${response.timeline_weeks} weeks`));
     }
     
     if (response.feature_count !== undefined) {
-      const featureColor = response.feature_count > 3 ? chalk.red : chalk.green;
+      const featureColor = response.feature_count > policy.maxFeatures ? chalk.red : chalk.green;
       Logger.info(featureColor(`Feature Count: ${response.feature_count}`));
     }
     
@@ -254,14 +263,17 @@ export class AIEnhancedQuestions {
     
     // AI Challenge in active mode with optimized prompts and context
     if (this.aiMode === 'active') {
+      const renderer = new StreamRenderer('feedback');
       const optimizedResponse = await this.aiService.challengeAnswerOptimized(
         question, 
         answer,
-        contextHistory
+        contextHistory,
+        renderer.begin('🤖 KI-Feedback:')
       );
+      const { rendered } = renderer.end();
       
       if (optimizedResponse) {
-        this.displayOptimizedFeedback(optimizedResponse);
+        this.displayOptimizedFeedback(optimizedResponse, rendered);
         this.analytics.aiInterventions++;
         
         // Handle based on assessment level
@@ -476,11 +488,18 @@ export class AIEnhancedQuestions {
     }
 
     // AI Suggestions in both modes
-    const suggestion = await this.aiService.suggestImprovement(question, answer);
+    const renderer = new StreamRenderer();
+    const suggestion = await this.aiService.suggestImprovement(
+      question,
+      answer,
+      renderer.begin('🤖 KI-Vorgeschlagene Antwort:')
+    );
+    const { rendered } = renderer.end();
     if (suggestion) {
-      Logger.info(chalk.cyan('🤖 KI-Vorgeschlagene Antwort:'));
-      Logger.info(chalk.gray('─'.repeat(60)));
-      Logger.info(suggestion);
+      if (!rendered) {
+        Logger.info(chalk.gray('─'.repeat(60)));
+        Logger.info(suggestion);
+      }
       Logger.info(chalk.gray('─'.repeat(60)));
       this.analytics.aiInterventions++;
       
@@ -672,6 +691,26 @@ export class AIEnhancedQuestions {
     return { isValid: true, issues: [], suggestions: [] };
   }
 
+  /**
+   * Draft user stories for the core features with AI; null when AI is off
+   * or the call fails, so the caller falls back to templates
+   */
+  async breakdownFeaturesWithAI(data: PRDData): Promise<UserStoryDraft[] | null> {
+    if (this.aiMode === 'off') {
+      return null;
+    }
+
+    Logger.info('🤖 AI is breaking your features into user stories...');
+
+    const drafts = await this.aiService.breakdownFeatures(data);
+    if (drafts) {
+      this.analytics.aiInterventions++;
+      this.displayCosts();
+    }
+
+    return drafts;
+  }
+
   /**
    * Optimize the final PRD with AI
    */
@@ -680,9 +719,9 @@ export class AIEnhancedQuestions {
       return content;
     }
 
-    Logger.info('🤖 AI is optimizing your PRD...');
-    
-    const result = await this.aiService.optimizePRD(content);
+    const renderer = new StreamRenderer();
+    const result = await this.aiService.optimizePRD(content, renderer.begin('🤖 AI is optimizing your PRD...'));
+    renderer.end();
     
     if (result) {
       this.analytics.aiInterventions++;
@@ -744,6 +783,18 @@ export class AIEnhancedQuestions {
     return this.contextMemory;
   }
 
+  /**
+   * Restore context memory and AI usage from a saved session checkpoint
+   */
+  restoreState(contextMemory?: ContextMemoryExport, aiMetrics?: AIUsageMetrics): void {
+    if (contextMemory) {
+      this.contextMemory.import(contextMemory);
+    }
+    if (aiMetrics) {
+      this.aiService.restoreUsageMetrics(aiMetrics);
+    }
+  }
+
   /**
    * Display current project context
    */
@@ -779,14 +830,16 @@ export async function createAIEnhancedFlow(
   options: {
     aiMode?: 'active' | 'passive' | 'off';
     showCosts?: boolean;
+    aiConfig?: Partial<AIConfig>;
   } = {}
 ): Promise<AIEnhancedQuestions> {
   const aiMode = options.aiMode || 'passive';
   const showCosts = options.showCosts ?? true;
   
-  // Check if API key is configured
-  if (aiMode !== 'off' && !process.env.ANTHROPIC_API_KEY) {
-    Logger.warning('⚠️  Kein ANTHROPIC_API_KEY in der Umgebung gefunden');
+  // Check if the selected provider is configured
+  const aiConfig = resolveAIConfig(options.aiConfig);
+  if (aiMode !== 'off' && !isProviderConfigured(aiConfig)) {
+    Logger.warning(`⚠️  Kein ${API_KEY_VARIABLES[aiConfig.provider] ?? 'API-Schlüssel'} in der Umgebung gefunden`);
     Logger.info('   KI-Funktionen werden deaktiviert. Fügen Sie Ihren Schlüssel zur .env-Datei hinzu.');
     return new AIEnhancedQuestions(sessionId, 'off', false);
   }
@@ -800,5 +853,10 @@ export async function createAIEnhancedFlow(
     );
   }
   
-  return new AIEnhancedQuestions(sessionId, aiMode, showCosts);
+  if (aiMode !== 'off' && options.aiConfig?.cassette) {
+    const { mode, dir } = options.aiConfig.cassette;
+    Logger.info(`   ${mode === 'record' ? 'KI-Antworten werden aufgezeichnet nach' : 'KI-Antworten werden abgespielt aus'}: ${dir}`);
+  }
+  
+  return new AIEnhancedQuestions(sessionId, aiMode, showCosts, options.aiConfig);
 }
\ No newline at end of file
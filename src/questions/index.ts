@@ -7,10 +7,24 @@ import { askCoreQuestions, coreAnswersToProjectData, enforceTimeBox } from './co
 import { askListInput } from '../utils/flexibleInput.js';
 import inquirer from 'inquirer';
 import { Logger } from '../utils/logger.js';
+import type { SessionCheckpointService } from '../services/sessionCheckpoint.js';
+
+/**
+ * Run a question step through the session checkpoint when one is available.
+ * The non-AI flows checkpoint per section rather than per prompt.
+ */
+function step<T>(checkpoint: SessionCheckpointService | undefined, key: string, ask: () => Promise<T>): Promise<T> {
+  return checkpoint ? checkpoint.step(key, ask) : ask();
+}
+
+export async function collectAllQuestions(
+  sessionStartTime: Date,
+  checkpoint?: SessionCheckpointService
+): Promise<PRDData> {
+  checkpoint?.setTotalSteps(9); // Includes the feature prioritization after the questions
 
-export async function collectAllQuestions(sessionStartTime: Date): Promise<PRDData> {
   // Start with core questions (Phase 2)
-  const coreAnswers = await askCoreQuestions();
+  const coreAnswers = await step(checkpoint, 'coreAnswers', () => askCoreQuestions());
   const { project: coreProject, mvp: coreMvp } = coreAnswersToProjectData(coreAnswers);
   
   // Check time box after core questions
@@ -19,15 +33,15 @@ export async function collectAllQuestions(sessionStartTime: Date): Promise<PRDDa
   }
   
   // Continue with detailed questions, pre-filling with core answers
-  const project = await askProjectQuestions(coreProject);
-  const mvp = await askMVPQuestions(coreMvp);
-  const timeline = await askTimelineQuestions();
-  const { techStack, risks } = await askTechnicalQuestions();
+  const project = await step(checkpoint, 'project', () => askProjectQuestions(coreProject));
+  const mvp = await step(checkpoint, 'mvp', () => askMVPQuestions(coreMvp));
+  const timeline = await step(checkpoint, 'timeline', () => askTimelineQuestions());
+  const { techStack, risks } = await step(checkpoint, 'technical', () => askTechnicalQuestions());
 
   Logger.section('Final Details');
 
   // Use flexible list input for final details
-  const assumptions = await askListInput(
+  const assumptions = await step(checkpoint, 'assumptions', () => askListInput(
     'List key assumptions (what you assume to be true):',
     {
       minItems: 1,
@@ -35,9 +49,9 @@ export async function collectAllQuestions(sessionStartTime: Date): Promise<PRDDa
       itemMinLength: 5,
       defaultItems: ['Users have internet access', 'Target users use smartphones', 'Users are willing to pay for quality'],
     }
-  );
+  ));
 
-  const openQuestions = await askListInput(
+  const openQuestions = await step(checkpoint, 'openQuestions', () => askListInput(
     'List open questions to research:',
     {
       minItems: 1,
@@ -45,9 +59,9 @@ export async function collectAllQuestions(sessionStartTime: Date): Promise<PRDDa
       itemMinLength: 5,
       defaultItems: ['What is the exact market size?', 'Which payment provider to use?', 'How to handle user support?'],
     }
-  );
+  ));
 
-  const nextSteps = await askListInput(
+  const nextSteps = await step(checkpoint, 'nextSteps', () => askListInput(
     'List immediate next steps:',
     {
       minItems: 3,
@@ -55,7 +69,7 @@ export async function collectAllQuestions(sessionStartTime: Date): Promise<PRDDa
       itemMinLength: 5,
       defaultItems: ['Set up development environment', 'Create technical design', 'Start with authentication'],
     }
-  );
+  ));
 
   const sessionDuration = (Date.now() - sessionStartTime.getTime()) / 60000;
 
@@ -73,13 +87,14 @@ export async function collectAllQuestions(sessionStartTime: Date): Promise<PRDDa
   };
 }
 
-export async function askQuickStartQuestions(): Promise<Partial<PRDData>> {
+export async function askQuickStartQuestions(checkpoint?: SessionCheckpointService): Promise<Partial<PRDData>> {
   Logger.title('Quick Start Mode');
+  checkpoint?.setTotalSteps(4); // Includes the feature prioritization after the questions
   
-  const project = await askProjectQuestions();
-  const mvp = await askMVPQuestions();
+  const project = await step(checkpoint, 'project', () => askProjectQuestions());
+  const mvp = await step(checkpoint, 'mvp', () => askMVPQuestions());
 
-  const quickAnswers = await inquirer.prompt([
+  const quickAnswers = await step(checkpoint, 'quickAnswers', () => inquirer.prompt([
     {
       type: 'list',
       name: 'duration',
@@ -103,7 +118,7 @@ export async function askQuickStartQuestions(): Promise<Partial<PRDData>> {
         'AWS/Vercel',
       ],
     },
-  ]);
+  ]));
 
   return {
     project,
@@ -0,0 +1,147 @@
+import inquirer from 'inquirer';
+import { FeaturePrioritization, PRDData } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import {
+  FeaturePrioritizationService,
+  FeatureSuggestion,
+  MOSCOW_LABELS,
+  RICEInput,
+} from '../services/featurePrioritization.js';
+
+const IMPACT_CHOICES = [
+  { name: 'Massive (3)', value: 3 },
+  { name: 'High (2)', value: 2 },
+  { name: 'Medium (1)', value: 1 },
+  { name: 'Low (0.5)', value: 0.5 },
+  { name: 'Minimal (0.25)', value: 0.25 },
+];
+
+const CONFIDENCE_CHOICES = [
+  { name: 'High (100%)', value: 1 },
+  { name: 'Medium (80%)', value: 0.8 },
+  { name: 'Low (50%)', value: 0.5 },
+];
+
+/**
+ * Rank the core features with RICE scores or MoSCoW buckets.
+ * Returns null when there is nothing to rank or the user skips the step.
+ */
+export async function askFeaturePrioritization(data: PRDData): Promise<FeaturePrioritization | null> {
+  if (data.mvp.coreFeatures.length < 2) {
+    return null;
+  }
+
+  Logger.section('Feature Prioritization');
+  const suggestions = FeaturePrioritizationService.suggest(data);
+  suggestions.forEach(suggestion => {
+    Logger.item(`${suggestion.feature}: ~${suggestion.effort} week(s), suggested ${MOSCOW_LABELS[suggestion.bucket]} (${suggestion.reasoning})`);
+  });
+  Logger.info('Only must-haves stay in the MVP; the other features move to the parking lot or the non-goals.');
+
+  const { method } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'method',
+      message: 'How do you want to prioritize your features?',
+      choices: [
+        { name: 'MoSCoW - sort each feature into must, should, could or won\'t have', value: 'moscow' },
+        { name: 'RICE - score reach, impact, confidence and effort', value: 'rice' },
+        { name: 'Skip - keep all features in the MVP', value: 'skip' },
+      ],
+      default: 'moscow',
+    },
+  ]);
+
+  if (method === 'skip') {
+    return null;
+  }
+
+  const prioritization = method === 'rice'
+    ? FeaturePrioritizationService.rankRICE(await askRICEScores(suggestions), data.timeline.totalWeeks)
+    : FeaturePrioritizationService.rankMoSCoW(await askMoSCoWBuckets(suggestions));
+
+  Logger.section('Feature Ranking');
+  prioritization.features.forEach(entry => {
+    const score = entry.rice ? `, RICE ${entry.rice.score}` : '';
+    Logger.item(`${entry.rank}. ${entry.feature} - ${MOSCOW_LABELS[entry.bucket]} (${entry.effort} week(s)${score})`);
+  });
+
+  return prioritization;
+}
+
+async function askMoSCoWBuckets(suggestions: FeatureSuggestion[]): Promise<FeatureSuggestion[]> {
+  for (;;) {
+    const entries: FeatureSuggestion[] = [];
+
+    for (const suggestion of suggestions) {
+      const { bucket } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'bucket',
+          message: `${suggestion.feature} (~${suggestion.effort} week(s)):`,
+          choices: Object.entries(MOSCOW_LABELS).map(([value, name]) => ({ name, value })),
+          default: suggestion.bucket,
+        },
+      ]);
+      entries.push({ ...suggestion, bucket });
+    }
+
+    if (entries.some(entry => entry.bucket === 'must')) {
+      return entries;
+    }
+    Logger.warning('An MVP needs at least one must-have feature. Please sort the features again.');
+  }
+}
+
+async function askRICEScores(suggestions: FeatureSuggestion[]): Promise<RICEInput[]> {
+  const entries: RICEInput[] = [];
+
+  for (const suggestion of suggestions) {
+    Logger.info(`RICE for "${suggestion.feature}"`);
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'reach',
+        message: 'Reach - users affected per quarter:',
+        default: '100',
+        validate: (input: string): true | string => isNumber(input, 0) || 'Please enter a number of 0 or more',
+      },
+      {
+        type: 'list',
+        name: 'impact',
+        message: 'Impact per user:',
+        choices: IMPACT_CHOICES,
+        default: 1,
+      },
+      {
+        type: 'list',
+        name: 'confidence',
+        message: 'Confidence in these estimates:',
+        choices: CONFIDENCE_CHOICES,
+        default: 0.8,
+      },
+      {
+        type: 'input',
+        name: 'effort',
+        message: 'Effort in person-weeks (estimated from complexity):',
+        default: String(suggestion.effort),
+        validate: (input: string): true | string => (isNumber(input, 0) && Number(input) > 0) || 'Please enter a number greater than 0',
+      },
+    ]);
+
+    entries.push({
+      feature: suggestion.feature,
+      reach: Number(answers.reach),
+      impact: answers.impact,
+      confidence: answers.confidence,
+      effort: Number(answers.effort),
+    });
+  }
+
+  return entries;
+}
+
+function isNumber(input: string, min: number): boolean {
+  const value = Number(input.trim());
+  return input.trim() !== '' && !isNaN(value) && value >= min;
+}
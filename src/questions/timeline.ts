@@ -184,15 +184,13 @@ export async function askTimelineQuestions(): Promise<Timeline> {
 
   let milestones: Milestone[] = [];
   if (milestoneAnswers.hasMilestones) {
-    const startDate = new Date();
+    // Relative dates; the roadmap maps them onto the working-day calendar
     milestones = phases.map((phase, index) => {
       const weeksSoFar = phases.slice(0, index + 1).reduce((sum, p) => sum + p.duration, 0);
-      const milestoneDate = new Date(startDate);
-      milestoneDate.setDate(milestoneDate.getDate() + weeksSoFar * 7);
-      
+
       return {
         name: `${phase.name} Complete`,
-        date: milestoneDate.toISOString().split('T')[0],
+        date: `Week ${weeksSoFar}`,
         criteria: phase.deliverables,
       };
     });
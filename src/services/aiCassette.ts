@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AICassetteConfig,
+  CassetteEntry,
+  LLMCompletion,
+  LLMProviderName,
+  LLMRequest,
+  LLMStreamOptions,
+} from '../types/ai.js';
+import type { LLMProvider } from './llmProvider.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Records AI interactions to a cassette directory, or replays them from it
+ * without network access. Entries are keyed by a hash of model, system message and prompt.
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+
+  constructor(
+    private cassette: AICassetteConfig,
+    private inner: LLMProvider | null,
+    providerName: LLMProviderName
+  ) {
+    this.name = inner?.name ?? providerName;
+
+    if (cassette.mode === 'record' && !inner) {
+      throw new Error(`Cannot record to ${cassette.dir}: the ${providerName} provider is not configured`);
+    }
+  }
+
+  /**
+   * Stable key for a request
+   */
+  static keyFor(request: Pick<LLMRequest, 'model' | 'system' | 'prompt' | 'contextPrefix' | 'tool'>): string {
+    const parts = [request.model, request.system, request.prompt];
+    // Only appended when present so keys of prefix-less requests stay stable
+    if (request.contextPrefix) {
+      parts.push(request.contextPrefix);
+    }
+    // Structured requests differ from plain ones by their tool
+    if (request.tool) {
+      parts.push(request.tool.name);
+    }
+    return createHash('sha256')
+      .update(JSON.stringify(parts))
+      .digest('hex')
+      .slice(0, 32);
+  }
+
+  async complete(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMCompletion> {
+    const key = CassetteProvider.keyFor(request);
+    const entryPath = path.join(this.cassette.dir, `${key}.json`);
+
+    if (this.cassette.mode === 'replay') {
+      if (!(await FileSystem.fileExists(entryPath))) {
+        throw new Error(`No cassette entry ${key} in ${this.cassette.dir} (prompt, system message or model changed?)`);
+      }
+      const entry = await FileSystem.loadJSON<CassetteEntry>(entryPath);
+      Logger.debug(`Cassette replay: ${key}`);
+      stream?.onText?.(entry.completion.text);
+      return entry.completion;
+    }
+
+    const completion = await (this.inner as LLMProvider).complete(request, stream);
+
+    // A cancelled stream is incomplete and must not be replayed later
+    if (completion.aborted) {
+      return completion;
+    }
+
+    const entry: CassetteEntry = {
+      key,
+      provider: this.name,
+      model: request.model,
+      system: request.system,
+      contextPrefix: request.contextPrefix,
+      prompt: request.prompt,
+      completion,
+      recordedAt: new Date().toISOString(),
+    };
+
+    // Written quietly: a session records one entry per AI call
+    await FileSystem.ensureDirectory(this.cassette.dir);
+    await fs.writeFile(entryPath, JSON.stringify(entry, null, 2), 'utf-8');
+    Logger.debug(`Cassette recorded: ${key}`);
+
+    return completion;
+  }
+}
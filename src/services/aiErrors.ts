@@ -0,0 +1,102 @@
+import { AIErrorKind, AIRetryConfig, ClassifiedAIError } from '../types/ai.js';
+
+export const DEFAULT_RETRY_CONFIG: AIRetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * HTTP error from a provider that does not bring its own error classes
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly headers?: Headers
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+const KIND_LABELS: Record<AIErrorKind, string> = {
+  rate_limit: 'Rate limit reached',
+  overloaded: 'AI service overloaded',
+  timeout: 'AI request timed out',
+  network: 'AI service unreachable',
+  server: 'AI service error',
+  auth: 'AI authentication failed',
+  invalid_request: 'AI request rejected',
+  unknown: 'AI request failed',
+};
+
+/**
+ * Classify a provider error. Works on Anthropic SDK errors and LLMRequestError
+ * alike, since both expose `status` and `headers`.
+ */
+export function classifyAIError(error: unknown): ClassifiedAIError {
+  const err = error as { name?: string; message?: string; status?: unknown; headers?: unknown; cause?: unknown };
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+  const detail = err?.message || String(error);
+  const kind = detectKind(err, status);
+  const summary = `${KIND_LABELS[kind]}${status ? ` (HTTP ${status})` : ''}`;
+
+  return {
+    kind,
+    retryable: kind === 'rate_limit' || kind === 'overloaded' || kind === 'timeout'
+      || kind === 'network' || kind === 'server',
+    status,
+    retryAfterMs: parseRetryAfter(err?.headers),
+    summary,
+    message: `${summary}: ${detail}`,
+  };
+}
+
+/**
+ * Delay before the given retry attempt (1-based): exponential backoff with
+ * jitter, or the server's retry-after when it sent one
+ */
+export function computeRetryDelay(attempt: number, config: AIRetryConfig, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+  // Jitter between 50% and 100% keeps parallel clients from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function detectKind(err: { name?: string; message?: string; cause?: unknown }, status?: number): AIErrorKind {
+  if (status === 429) return 'rate_limit';
+  if (status === 529) return 'overloaded';
+  if (status === 408) return 'timeout';
+  if (status === 401 || status === 403) return 'auth';
+  if (status !== undefined && status >= 400 && status < 500) return 'invalid_request';
+  if (status !== undefined && status >= 500) return 'server';
+
+  const name = err?.name || '';
+  if (name === 'APIConnectionTimeoutError' || name === 'TimeoutError') return 'timeout';
+  if (name === 'APIConnectionError' || (name === 'TypeError' && /fetch failed/i.test(err?.message || ''))) {
+    return 'network';
+  }
+
+  return 'unknown';
+}
+
+function parseRetryAfter(headers: unknown): number | undefined {
+  if (!headers || typeof (headers as Headers).get !== 'function') return undefined;
+  const h = headers as Headers;
+
+  const ms = Number(h.get('retry-after-ms'));
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const value = h.get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
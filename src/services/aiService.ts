@@ -1,51 +1,78 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
 import { 
   AIConfig, 
+  AITaskType,
+  LLMCompletion,
+  LLMStreamOptions,
+  LLMToolSpec,
+  LLMRequest,
+  AIRetryConfig,
+  ClassifiedAIError,
   AIUsageMetrics, 
   AIInteraction, 
   AIResponse,
   AIOptimizationResult,
   AIValidationResult,
-  CLAUDE_PRICING,
-  TokenPricing,
+  TokenUsage,
   OptimizedAIResponse,
   Warning
 } from '../types/ai.js';
-import { PRDData } from '../types/index.js';
+import { PRDData, UserStory } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
+import { detectLanguage } from '../utils/language.js';
 import chalk from 'chalk';
 import { QuestionTypeDetector, QuestionType } from './questionTypeDetector.js';
 import { PromptTemplates, Language } from './promptTemplates.js';
+import {
+  OptimizedAIResponseSchema,
+  AIValidationResultSchema,
+  FeatureBreakdownSchema,
+  toToolInputSchema,
+  formatSchemaIssues,
+} from '../validators/aiResponseSchemas.js';
+import { classifyAIError, computeRetryDelay, DEFAULT_RETRY_CONFIG } from './aiErrors.js';
+import {
+  API_KEY_VARIABLES,
+  LLMProvider,
+  createLLMProvider,
+  getProviderPricing,
+  resolveAIConfig,
+  resolveTaskModel,
+} from './llmProvider.js';
+import { ProjectConfig } from './projectConfig.js';
+import { WEEKS_PER_POINT } from '../validators/scopeProtection.js';
 
 /**
- * AI Service for Claude integration with cost tracking
+ * Options for a single LLM call. `contextPrefix` is the accumulated project
+ * context; it is sent ahead of the prompt so it can be cached.
+ */
+interface LLMCallOptions {
+  task: AITaskType; // Selects the model through the routing table
+  system?: string;
+  language?: 'de' | 'en';
+  stream?: LLMStreamOptions;
+  tool?: LLMToolSpec;
+  contextPrefix?: string;
+}
+
+/**
+ * AI Service for LLM integration with cost tracking
  */
 export class AIService {
-  private client: Anthropic | null = null;
+  private provider: LLMProvider | null = null;
   private config: AIConfig;
   private usageMetrics: AIUsageMetrics;
   private isEnabled: boolean = false;
-  private pricing: TokenPricing;
+  private degradedReason?: string;
 
   constructor(config?: Partial<AIConfig>) {
-    const apiKey = process.env.ANTHROPIC_API_KEY || config?.apiKey || '';
-    
-    this.config = {
-      apiKey,
-      model: config?.model || 'claude-3-5-sonnet-latest',
-      maxTokens: config?.maxTokens || 4096,
-      temperature: config?.temperature || 0.7,
-      maxBudget: config?.maxBudget || 5.00,
-      showCosts: config?.showCosts !== false,
-    };
+    this.config = resolveAIConfig(config);
+    this.provider = createLLMProvider(this.config);
 
-    this.pricing = CLAUDE_PRICING[this.config.model];
-
-    if (apiKey) {
-      this.client = new Anthropic({ apiKey });
+    if (this.provider) {
       this.isEnabled = true;
     } else {
-      Logger.warning('No Anthropic API key found. AI features disabled.');
+      Logger.warning(`No ${API_KEY_VARIABLES[this.config.provider] ?? 'API key'} found. AI features disabled.`);
     }
 
     this.usageMetrics = this.initializeMetrics();
@@ -57,8 +84,12 @@ export class AIService {
       totalTokensUsed: 0,
       inputTokens: 0,
       outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
       apiCalls: 0,
+      estimatedCalls: 0,
       estimatedCost: 0,
+      provider: this.config.provider,
       model: this.config.model,
       interactions: [],
       startTime: new Date(),
@@ -75,10 +106,49 @@ export class AIService {
   /**
    * Calculate cost based on tokens
    */
-  private calculateCost(inputTokens: number, outputTokens: number): number {
-    const inputCost = (inputTokens / 1_000_000) * this.pricing.inputPricePerMillion;
-    const outputCost = (outputTokens / 1_000_000) * this.pricing.outputPricePerMillion;
-    return Number((inputCost + outputCost).toFixed(6));
+  private calculateCost(tokens: TokenUsage, model: string): number {
+    const pricing = getProviderPricing(this.config.provider, model);
+    const inputCost = (tokens.input / 1_000_000) * pricing.inputPricePerMillion;
+    const outputCost = (tokens.output / 1_000_000) * pricing.outputPricePerMillion;
+    const cacheWriteCost = (tokens.cacheWrite / 1_000_000) * pricing.cacheWritePricePerMillion;
+    const cacheReadCost = (tokens.cacheRead / 1_000_000) * pricing.cacheReadPricePerMillion;
+    return Number((inputCost + outputCost + cacheWriteCost + cacheReadCost).toFixed(6));
+  }
+
+  /**
+   * Read token counts from the API usage fields, falling back to a
+   * ~4 characters per token estimate when the response carries no usage.
+   * A cancelled stream only reports input usage, so its output is estimated
+   * from the text received.
+   */
+  private extractTokenUsage(completion: LLMCompletion, requestText: string): TokenUsage {
+    const { usage } = completion;
+    const estimatedOutput = Math.ceil(completion.text.length / 4);
+
+    if (usage) {
+      const cacheRead = usage.cacheReadTokens ?? 0;
+      const cacheWrite = usage.cacheWriteTokens ?? 0;
+      const output = completion.aborted ? Math.max(usage.outputTokens, estimatedOutput) : usage.outputTokens;
+      return {
+        input: usage.inputTokens,
+        output,
+        cacheRead,
+        cacheWrite,
+        total: usage.inputTokens + output + cacheRead + cacheWrite,
+        source: completion.aborted ? 'estimated' : 'measured',
+      };
+    }
+
+    const input = Math.ceil(requestText.length / 4);
+    const output = estimatedOutput;
+    return {
+      input,
+      output,
+      cacheRead: 0,
+      cacheWrite: 0,
+      total: input + output,
+      source: 'estimated',
+    };
   }
 
   /**
@@ -102,27 +172,21 @@ export class AIService {
   }
 
   /**
-   * Detect language from text
+   * Language configured for AI feedback, else detected from text
    */
   private detectLanguage(text: string): 'de' | 'en' {
-    // Simple German detection based on common German words and characters
-    const germanIndicators = [
-      'der', 'die', 'das', 'ich', 'du', 'sie', 'wir', 'ihr', 'und', 'oder', 'aber',
-      'für', 'mit', 'von', 'zu', 'bei', 'nach', 'aus', 'können', 'müssen', 'werden',
-      'ä', 'ö', 'ü', 'ß', 'Ä', 'Ö', 'Ü'
-    ];
-    
-    const lowerText = text.toLowerCase();
-    const germanMatches = germanIndicators.filter(indicator => lowerText.includes(indicator)).length;
-    
-    return germanMatches >= 2 ? 'de' : 'en';
+    return detectLanguage(text, this.config.language);
   }
 
   /**
-   * Make API call with tracking
+   * Make API call with tracking. With stream options the response text is
+   * delivered incrementally; a cancelled stream is still billed.
    */
-  private async callClaude(prompt: string, system?: string, forceLanguage?: 'de' | 'en'): Promise<AIResponse | null> {
-    if (!this.isEnabled || !this.client) {
+  private async callLLM(prompt: string, options: LLMCallOptions): Promise<AIResponse | null> {
+    const { system, stream, tool, contextPrefix } = options;
+    const model = resolveTaskModel(this.config, options.task);
+
+    if (!this.isEnabled || !this.provider) {
       return null;
     }
 
@@ -132,250 +196,273 @@ export class AIService {
     }
 
     // Detect language from prompt if not forced
-    const language = forceLanguage || this.detectLanguage(prompt);
+    const language = options.language || this.detectLanguage(prompt);
     
     // Set system message based on language
+    const policy = ProjectConfig.getScopePolicy();
     const systemMessage = system || (language === 'de' 
       ? `Du bist ein erfahrener Solo-Entwickler-Coach mit 10+ Jahren Erfahrung beim Launchen erfolgreicher MVPs. Du kennst die typischen Fallen: Analysis Paralysis (70% der Solo-MVPs scheitern daran), Feature Creep, Over-Engineering, und unrealistische Timelines. 
 
-Deine Expertise basiert auf Research erfolgreicher Solo-Entwickler wie Pieter Levels ($170k/Monat) und den Lean Startup-Prinzipien. Du enforcest strikt: max 3 Features, max 12 Wochen Timeline, max 2 Innovation Tokens, Validation vor Development.
+Deine Expertise basiert auf Research erfolgreicher Solo-Entwickler wie Pieter Levels ($170k/Monat) und den Lean Startup-Prinzipien. Du enforcest strikt: max ${policy.maxFeatures} Features, max ${policy.maxTimelineWeeks} Wochen Timeline, max ${policy.maxInnovationTokens} Innovation Tokens, Validation vor Development.
 
 Antworte auf Deutsch. Sei direkt aber konstruktiv. Fokus auf Prevention der typischen Solo-Entwickler-Fallen.`
       : `You are an experienced solo developer coach with 10+ years of experience launching successful MVPs. You know the typical traps: Analysis Paralysis (70% of solo MVPs fail from this), Feature Creep, Over-Engineering, and unrealistic timelines.
 
-Your expertise is based on research of successful solo developers like Pieter Levels ($170k/month) and Lean Startup principles. You strictly enforce: max 3 features, max 12 weeks timeline, max 2 innovation tokens, validation before development.
+Your expertise is based on research of successful solo developers like Pieter Levels ($170k/month) and Lean Startup principles. You strictly enforce: max ${policy.maxFeatures} features, max ${policy.maxTimelineWeeks} weeks timeline, max ${policy.maxInnovationTokens} innovation tokens, validation before development.
 
 Be direct but constructive. Focus on preventing typical solo developer pitfalls.`);
 
-    try {
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        system: systemMessage,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      // Extract token usage (this is simplified - actual implementation depends on API response)
-      const inputTokens = prompt.length / 4; // Rough estimate
-      const outputTokens = response.content[0].type === 'text' 
-        ? response.content[0].text.length / 4 
-        : 0;
-      
-      const cost = this.calculateCost(inputTokens, outputTokens);
+    const completion = await this.completeWithRetry({
+      model,
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      system: systemMessage,
+      prompt,
+      contextPrefix,
+      tool,
+      cache: this.config.promptCaching !== false,
+    }, stream).finally(() => stream?.onEnd?.());
 
-      // Update metrics
-      this.usageMetrics.inputTokens += inputTokens;
-      this.usageMetrics.outputTokens += outputTokens;
-      this.usageMetrics.totalTokensUsed += inputTokens + outputTokens;
-      this.usageMetrics.estimatedCost += cost;
-      this.usageMetrics.apiCalls += 1;
+    if (!completion) {
+      return null;
+    }
 
-      if (this.config.showCosts) {
-        Logger.info(chalk.gray(`💰 API call cost: $${cost.toFixed(4)} | Total: $${this.usageMetrics.estimatedCost.toFixed(4)}`));
-      }
+    const content = completion.text;
+    const tokens = this.extractTokenUsage(completion, systemMessage + (contextPrefix ?? '') + prompt);
+    const cost = this.calculateCost(tokens, model);
+
+    // Update metrics
+    this.usageMetrics.inputTokens += tokens.input;
+    this.usageMetrics.outputTokens += tokens.output;
+    this.usageMetrics.cacheReadTokens += tokens.cacheRead;
+    this.usageMetrics.cacheWriteTokens += tokens.cacheWrite;
+    this.usageMetrics.totalTokensUsed += tokens.total;
+    this.usageMetrics.estimatedCost += cost;
+    this.usageMetrics.apiCalls += 1;
+    if (tokens.source === 'estimated') {
+      this.usageMetrics.estimatedCalls += 1;
+    }
 
-      return {
-        content: response.content[0].type === 'text' ? response.content[0].text : '',
-        tokensUsed: {
-          input: inputTokens,
-          output: outputTokens,
-          total: inputTokens + outputTokens,
-        },
-        cost,
-      };
-    } catch (error) {
-      Logger.error(`Claude API error: ${error}`);
-      return null;
+    if (this.config.showCosts) {
+      const label = tokens.source === 'estimated' ? ' (estimated)' : '';
+      Logger.info(chalk.gray(`💰 API call cost: $${cost.toFixed(4)}${label} | Total: $${this.usageMetrics.estimatedCost.toFixed(4)}`));
     }
+
+    return {
+      content,
+      tokensUsed: tokens,
+      cost,
+      model,
+      aborted: completion.aborted,
+      toolInput: completion.toolInput,
+    };
   }
 
   /**
-   * Challenge a user's answer with optimized prompts
+   * Send a request, retrying rate limits, overload, timeouts and server errors
+   * with exponential backoff. Returns null when the request finally fails.
    */
-  public async challengeAnswerOptimized(
-    question: string, 
-    answer: string,
-    contextHistory?: string
-  ): Promise<OptimizedAIResponse | null> {
-    const language = this.detectLanguage(answer + ' ' + question) as Language;
-    const questionType = QuestionTypeDetector.detectType(question);
-    
-    // Get specialized prompt based on question type with context
-    const prompt = PromptTemplates.getChallengePrompt(
-      questionType, 
-      language, 
-      question, 
-      answer,
-      contextHistory
-    );
-    const systemPrompt = PromptTemplates.getSystemPrompt(language);
-    
-    const response = await this.callClaude(prompt, systemPrompt, language);
-    
-    if (response) {
-      this.recordInteraction('challenge', question, prompt, response.content, response.tokensUsed, response.cost);
-      
-      // Try to extract JSON from the response
-      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        try {
-          const parsed = JSON.parse(jsonMatch[0]) as OptimizedAIResponse;
-          
-          // Ensure all required fields are present
-          if (!parsed.assessment || !parsed.feedback || !parsed.next_actions) {
-            // Try to create structured response from partial data
-            return this.createStructuredFallback(response.content, parsed, language);
-          }
-          
-          return parsed;
-        } catch (error) {
-          // JSON extraction failed, use intelligent fallback
-          Logger.warning('Failed to parse extracted JSON, using intelligent fallback');
-          return this.createIntelligentFallback(response.content, language);
+  private async completeWithRetry(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMCompletion | null> {
+    const provider = this.provider as LLMProvider;
+    const retry = this.config.retry ?? DEFAULT_RETRY_CONFIG;
+
+    // Once text has been shown, a retry would render the answer twice
+    let streamed = false;
+    const trackedStream: LLMStreamOptions | undefined = stream && {
+      signal: stream.signal,
+      onText: (delta): void => {
+        streamed = true;
+        stream.onText?.(delta);
+      },
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await provider.complete(request, trackedStream);
+      } catch (error) {
+        const failure = classifyAIError(error);
+        const skipReason = this.getRetrySkipReason(failure, attempt, retry, streamed, request);
+
+        if (skipReason) {
+          const recurring = failure.kind === 'auth' || (failure.retryable && attempt > retry.maxRetries);
+          this.handleFailure(failure, skipReason, recurring);
+          return null;
+        }
+
+        const delay = computeRetryDelay(attempt, retry, failure.retryAfterMs);
+        Logger.warning(`⏳ ${failure.summary} – retrying in ${(delay / 1000).toFixed(1)}s (${attempt}/${retry.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        if (stream?.signal?.aborted) {
+          return null;
         }
-      } else {
-        // No JSON found in response, use intelligent fallback
-        Logger.warning('No JSON found in response, using intelligent fallback');
-        return this.createIntelligentFallback(response.content, language);
       }
     }
-    
-    return null;
   }
 
   /**
-   * Create structured fallback from partial JSON data
+   * Explain why a failed request should not be retried, or return null to retry
    */
-  private createStructuredFallback(
-    fullResponse: string,
-    partialData: Partial<OptimizedAIResponse>,
-    language: Language
-  ): OptimizedAIResponse {
-    // Extract suggestion from response text if not in JSON
-    let suggestion = partialData.suggestion;
-    if (!suggestion) {
-      const suggestionMatch = fullResponse.match(
-        language === 'de' 
-          ? /(?:Vorschlag|Empfehlung|Besser):\s*([^\n]+)/i
-          : /(?:Suggestion|Recommendation|Better):\s*([^\n]+)/i
-      );
-      if (suggestionMatch) {
-        suggestion = suggestionMatch[1].trim();
+  private getRetrySkipReason(
+    failure: ClassifiedAIError,
+    attempt: number,
+    retry: AIRetryConfig,
+    streamed: boolean,
+    request: LLMRequest
+  ): string | null {
+    if (!failure.retryable) return `${failure.kind} errors are not retryable`;
+    if (attempt > retry.maxRetries) return `gave up after ${retry.maxRetries} retries`;
+    if (streamed) return 'response was already partially shown';
+    if (failure.retryAfterMs !== undefined && failure.retryAfterMs > retry.maxDelayMs) {
+      return `retry-after of ${Math.ceil(failure.retryAfterMs / 1000)}s is too long`;
+    }
+
+    // Retries count against the budget like any other call
+    if (this.config.maxBudget) {
+      const projected = this.usageMetrics.apiCalls > 0
+        ? this.usageMetrics.estimatedCost / this.usageMetrics.apiCalls
+        : this.calculateCost(
+          this.extractTokenUsage({ text: '' }, request.system + (request.contextPrefix ?? '') + request.prompt),
+          request.model
+        );
+      if (this.usageMetrics.estimatedCost + projected > this.config.maxBudget) {
+        return 'a retry would exceed the budget';
       }
     }
 
-    return {
-      assessment: partialData.assessment || 'warning',
-      feedback: partialData.feedback || this.extractCleanFeedback(fullResponse, language),
-      warnings: partialData.warnings || [],
-      suggestion,
-      next_actions: partialData.next_actions || [
-        language === 'de' 
-          ? 'Überprüfen Sie das Feedback und verfeinern Sie Ihre Antwort'
-          : 'Review the feedback and refine your answer'
-      ]
-    } as OptimizedAIResponse;
+    return null;
   }
 
   /**
-   * Create intelligent fallback from text response
+   * Report a failed request. A rejected key or exhausted retries will keep
+   * recurring and disable AI for the rest of the session with a single message;
+   * any other failure skips only this call.
    */
-  private createIntelligentFallback(
-    responseText: string,
-    language: Language
-  ): OptimizedAIResponse {
-    // Determine assessment level from keywords
-    let assessment: 'good' | 'warning' | 'critical' = 'warning';
-    const lowerText = responseText.toLowerCase();
-    
-    if (lowerText.includes('critical') || lowerText.includes('kritisch') || 
-        lowerText.includes('🚨') || lowerText.includes('dangerous')) {
-      assessment = 'critical';
-    } else if (lowerText.includes('good') || lowerText.includes('gut') || 
-               lowerText.includes('ready') || lowerText.includes('✅')) {
-      assessment = 'good';
-    }
-
-    // Extract suggestion from text
-    let suggestion: string | undefined;
-    const suggestionPatterns = [
-      /(?:suggestion|vorschlag|empfehlung|recommendation):\s*"?([^"\n]+)"?/i,
-      /(?:try|versuche|besser|better):\s*"?([^"\n]+)"?/i,
-      /"([^"]+)"\s*(?:wäre|würde|would|könnte|could)/i
-    ];
-    
-    for (const pattern of suggestionPatterns) {
-      const match = responseText.match(pattern);
-      if (match) {
-        suggestion = match[1].trim();
-        break;
+  private handleFailure(failure: ClassifiedAIError, skipReason: string, recurring: boolean): void {
+    if (!recurring) {
+      if (failure.retryable) {
+        Logger.warning(chalk.yellow(`⚠️  ${failure.summary} – skipping this AI call (${skipReason})`));
+      } else {
+        Logger.error(failure.message);
       }
+      return;
     }
 
-    // Clean feedback text
-    const cleanFeedback = this.extractCleanFeedback(responseText, language);
+    this.isEnabled = false;
+    this.degradedReason = failure.message;
 
-    // Extract warnings if mentioned
-    const warnings: Warning[] = [];
-    if (lowerText.includes('generic') || lowerText.includes('generisch')) {
-      warnings.push({
-        type: 'too_generic',
-        severity: 'medium',
-        message: language === 'de' ? 'Zu generisch' : 'Too generic'
-      });
-    }
-    if (lowerText.includes('seo')) {
-      warnings.push({
-        type: 'seo_difficult',
-        severity: 'medium',
-        message: language === 'de' ? 'SEO-Herausforderungen' : 'SEO challenges'
+    Logger.warning(chalk.yellow(`⚠️  ${failure.message}`));
+    Logger.warning(chalk.yellow('   AI features are disabled for the rest of this session. Your answers are still collected.'));
+  }
+
+  /**
+   * Why AI was disabled mid-session, if it was
+   */
+  public getDegradedReason(): string | undefined {
+    return this.degradedReason;
+  }
+
+  /**
+   * Request a structured response through a forced tool call and validate it
+   * with zod. A schema mismatch is retried once with the validation errors.
+   */
+  private async callStructured<T>(
+    schema: z.ZodType<T>,
+    tool: { name: string; description: string },
+    interaction: { type: AIInteraction['type']; context: string },
+    prompt: string,
+    options: Omit<LLMCallOptions, 'tool'>
+  ): Promise<T | null> {
+    const toolSpec: LLMToolSpec = { ...tool, inputSchema: toToolInputSchema(schema) };
+    let attemptPrompt = prompt;
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      // The stream has ended after the first attempt, so retries run silently
+      const response = await this.callLLM(attemptPrompt, {
+        ...options,
+        stream: attempt === 1 ? options.stream : undefined,
+        tool: toolSpec,
       });
+      if (!response) return null;
+
+      this.recordInteraction(
+        interaction.type,
+        interaction.context,
+        attemptPrompt,
+        response.content,
+        response.tokensUsed,
+        response.cost,
+        response.model
+      );
+
+      // Skipped by the user
+      if (response.aborted) return null;
+
+      const result = schema.safeParse(response.toolInput ?? this.parseJSONContent(response.content));
+      if (result.success) {
+        return result.data;
+      }
+
+      const issues = formatSchemaIssues(result.error);
+      if (attempt === 2) {
+        Logger.warning(`AI response did not match the ${tool.name} schema:\n${issues}`);
+        return null;
+      }
+
+      Logger.debug(`Retrying ${tool.name} after schema mismatch:\n${issues}`);
+      attemptPrompt = `${prompt}
+
+Your previous ${tool.name} call did not match the required schema:
+${issues}
+
+Call ${tool.name} again with corrected input.`;
     }
 
-    return {
-      assessment,
-      feedback: cleanFeedback,
-      warnings,
-      suggestion,
-      next_actions: [
-        language === 'de'
-          ? 'Domain-Verfügbarkeit prüfen'
-          : 'Check domain availability',
-        language === 'de'
-          ? 'Nutzer-Feedback einholen'
-          : 'Get user feedback'
-      ]
-    } as OptimizedAIResponse;
+    return null;
   }
 
   /**
-   * Extract clean feedback text without JSON artifacts
+   * Parse a JSON object from plain content, for providers that answer without a tool call
    */
-  private extractCleanFeedback(text: string, language: Language): string {
-    // Remove JSON artifacts
-    let clean = text.replace(/\{[\s\S]*?\}/g, '');
-    
-    // Remove quotes and common JSON remnants
-    clean = clean.replace(/["']/g, '')
-                 .replace(/\n\s*,\s*\n/g, '\n')
-                 .replace(/^\s*,\s*/gm, '')
-                 .replace(/\s*,\s*$/gm, '');
-    
-    // Extract meaningful sentences
-    const sentences = clean.split(/[.!?]+/)
-                          .map(s => s.trim())
-                          .filter(s => s.length > 20);
-    
-    if (sentences.length > 0) {
-      return sentences.join('. ') + '.';
+  private parseJSONContent(content: string): unknown {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return undefined;
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return undefined;
     }
+  }
+
+  /**
+   * Challenge a user's answer with optimized prompts
+   */
+  public async challengeAnswerOptimized(
+    question: string, 
+    answer: string,
+    contextHistory?: string,
+    stream?: LLMStreamOptions
+  ): Promise<OptimizedAIResponse | null> {
+    const language = this.detectLanguage(answer + ' ' + question) as Language;
+    const questionType = QuestionTypeDetector.detectType(question);
     
-    // Fallback message
-    return language === 'de'
-      ? 'Bitte überprüfen Sie Ihre Antwort basierend auf den MVP-Prinzipien.'
-      : 'Please review your answer based on MVP principles.';
+    // Get specialized prompt based on question type; the project context is
+    // sent ahead of it as a cacheable prefix
+    const prompt = PromptTemplates.getChallengePrompt(
+      questionType, 
+      language, 
+      question, 
+      answer
+    );
+    const systemPrompt = PromptTemplates.getSystemPrompt(language);
+    
+    return this.callStructured(
+      OptimizedAIResponseSchema,
+      { name: 'submit_feedback', description: 'Submit the assessment of the user\'s answer' },
+      { type: 'challenge', context: question },
+      prompt,
+      { task: 'challenge', system: systemPrompt, language, stream, contextPrefix: contextHistory }
+    );
   }
 
   /**
@@ -383,6 +470,7 @@ Be direct but constructive. Focus on preventing typical solo developer pitfalls.
    */
   public async challengeAnswer(question: string, answer: string): Promise<{ feedback: string; suggestion?: string } | null> {
     const language = this.detectLanguage(answer + ' ' + question);
+    const policy = ProjectConfig.getScopePolicy();
     
     const prompt = language === 'de' ? `
 Gestellte Frage: "${question}"
@@ -393,7 +481,7 @@ Bewerte diese Antwort kritisch als Solo-Entwickler-Coach. Prüfe auf typische Fa
 Gib ein JSON-Objekt zurück mit:
 {
   "feedback": "Direktes Feedback: Was ist das Problem? Welche Solo-Entwickler-Falle droht? (max. 100 Wörter)",
-  "suggestion": "Konkrete, MVP-fokussierte Version der Antwort (max 3 Features, max 12 Wochen, validierbar)" (nur wenn Verbesserung nötig)
+  "suggestion": "Konkrete, MVP-fokussierte Version der Antwort (max ${policy.maxFeatures} Features, max ${policy.maxTimelineWeeks} Wochen, validierbar)" (nur wenn Verbesserung nötig)
 }
 
 Wenn die Antwort bereits MVP-ready ist, gib zurück:
@@ -408,7 +496,7 @@ Evaluate this answer critically as a solo developer coach. Check for typical tra
 Return a JSON object with:
 {
   "feedback": "Direct feedback: What's the problem? Which solo developer trap is looming? (max 100 words)",
-  "suggestion": "Concrete, MVP-focused version of the answer (max 3 features, max 12 weeks, validatable)" (only if improvement needed)
+  "suggestion": "Concrete, MVP-focused version of the answer (max ${policy.maxFeatures} features, max ${policy.maxTimelineWeeks} weeks, validatable)" (only if improvement needed)
 }
 
 If the answer is already MVP-ready, return:
@@ -416,10 +504,10 @@ If the answer is already MVP-ready, return:
   "feedback": "MVP-ready! [brief explanation why this answer works]"
 }`;
 
-    const response = await this.callClaude(prompt, undefined, language);
+    const response = await this.callLLM(prompt, { task: 'challenge', language });
     
     if (response) {
-      this.recordInteraction('challenge', question, prompt, response.content, response.tokensUsed, response.cost);
+      this.recordInteraction('challenge', question, prompt, response.content, response.tokensUsed, response.cost, response.model);
       
       try {
         return JSON.parse(response.content);
@@ -440,7 +528,8 @@ If the answer is already MVP-ready, return:
     answer: string, 
     questionType?: QuestionType,
     previousWarnings?: Warning[],
-    contextHistory?: string
+    contextHistory?: string,
+    stream?: LLMStreamOptions
   ): Promise<string | null> {
     const language = this.detectLanguage(answer + ' ' + question) as Language;
     const detectedType = questionType || QuestionTypeDetector.detectType(question);
@@ -450,33 +539,43 @@ If the answer is already MVP-ready, return:
       question,
       answer,
       detectedType,
-      previousWarnings || [],
-      contextHistory
+      previousWarnings || []
     );
     
     const systemPrompt = PromptTemplates.getSystemPrompt(language);
-    const response = await this.callClaude(prompt, systemPrompt, language);
+    const response = await this.callLLM(prompt, {
+      task: 'challenge',
+      system: systemPrompt,
+      language,
+      stream,
+      contextPrefix: contextHistory,
+    });
     
     if (response) {
-      this.recordInteraction('suggest', question, prompt, response.content, response.tokensUsed, response.cost);
+      this.recordInteraction('suggest', question, prompt, response.content, response.tokensUsed, response.cost, response.model);
     }
     
-    return response?.content || null;
+    return response && !response.aborted ? response.content || null : null;
   }
 
   /**
    * Suggest improvements for an answer (legacy method)
    */
-  public async suggestImprovement(question: string, answer: string): Promise<string | null> {
+  public async suggestImprovement(
+    question: string,
+    answer: string,
+    stream?: LLMStreamOptions
+  ): Promise<string | null> {
     const language = this.detectLanguage(answer + ' ' + question);
+    const policy = ProjectConfig.getScopePolicy();
     
     const prompt = language === 'de' ? `
 Frage: "${question}"
 Antwort: "${answer}"
 
 Erstelle eine MVP-optimierte Version dieser Antwort. Befolge strikt:
-- Max 3 Features (weniger ist besser)
-- Max 12 Wochen Timeline (kürzer ist besser)
+- Max ${policy.maxFeatures} Features (weniger ist besser)
+- Max ${policy.maxTimelineWeeks} Wochen Timeline (kürzer ist besser)
 - Fokus auf Validation vor Development
 - Vermeide Analysis Paralysis und Feature Creep
 - Mache es messbar und testbar
@@ -486,21 +585,21 @@ Question: "${question}"
 Answer: "${answer}"
 
 Create an MVP-optimized version of this answer. Strictly follow:
-- Max 3 features (less is better)
-- Max 12 weeks timeline (shorter is better)  
+- Max ${policy.maxFeatures} features (less is better)
+- Max ${policy.maxTimelineWeeks} weeks timeline (shorter is better)  
 - Focus on validation before development
 - Avoid analysis paralysis and feature creep
 - Make it measurable and testable
 
 Return the improved answer directly. No explanation, just the concrete, actionable answer.`;
 
-    const response = await this.callClaude(prompt, undefined, language);
+    const response = await this.callLLM(prompt, { task: 'challenge', language, stream });
     
     if (response) {
-      this.recordInteraction('suggest', question, prompt, response.content, response.tokensUsed, response.cost);
+      this.recordInteraction('suggest', question, prompt, response.content, response.tokensUsed, response.cost, response.model);
     }
     
-    return response?.content || null;
+    return response && !response.aborted ? response.content || null : null;
   }
 
   /**
@@ -519,10 +618,10 @@ Suggest 2-3 additional items they might have missed. These should be:
 
 Return ONLY the items, one per line. No numbering or explanations.`;
 
-    const response = await this.callClaude(aiPrompt);
+    const response = await this.callLLM(aiPrompt, { task: 'list_suggestion' });
     
     if (response) {
-      this.recordInteraction('list_suggestion', prompt, aiPrompt, response.content, response.tokensUsed, response.cost);
+      this.recordInteraction('list_suggestion', prompt, aiPrompt, response.content, response.tokensUsed, response.cost, response.model);
       return response.content.split('\n').filter(item => item.trim().length > 0);
     }
     
@@ -548,42 +647,74 @@ Provide:
 1. Critical issues (things that will likely cause failure)
 2. Helpful suggestions (improvements that would increase success)
 
-Format as JSON:
-{
-  "issues": ["issue1", "issue2"],
-  "suggestions": ["suggestion1", "suggestion2"]
-}`;
+Submit them with the submit_validation tool.`;
 
-    const response = await this.callClaude(prompt);
-    
-    if (response) {
-      this.recordInteraction('validation', 'PRD Validation', prompt, response.content, response.tokensUsed, response.cost);
-      
-      try {
-        const result = JSON.parse(response.content);
-        return {
-          isValid: result.issues.length === 0,
-          issues: result.issues || [],
-          suggestions: result.suggestions || [],
-          score: 100 - (result.issues.length * 10)
-        };
-      } catch {
-        return {
-          isValid: true,
-          issues: [],
-          suggestions: [response.content],
-          score: 100
-        };
-      }
-    }
+    const result = await this.callStructured(
+      AIValidationResultSchema,
+      { name: 'submit_validation', description: 'Submit the PRD validation result' },
+      { type: 'validation', context: 'PRD Validation' },
+      prompt,
+      { task: 'validate' }
+    );
     
-    return null;
+    if (!result) return null;
+
+    return {
+      isValid: result.issues.length === 0,
+      issues: result.issues,
+      suggestions: result.suggestions,
+      criticalProblems: result.criticalProblems,
+      score: Math.max(0, 100 - (result.issues.length * 10))
+    };
+  }
+
+  /**
+   * Break the core features into user stories with acceptance criteria and
+   * story points. Story ids are left to the caller.
+   */
+  public async breakdownFeatures(data: PRDData): Promise<Omit<UserStory, 'id'>[] | null> {
+    const language = this.detectLanguage(data.mvp.coreFeatures.join('\n'));
+    const prompt = `
+Break each core feature of this MVP into 1-3 user stories for a solo developer:
+
+Project: ${data.project.name}
+Target Users: ${data.project.targetAudience}
+Problem: ${data.project.problemStatement || data.mvp.problemStatement}
+Timeline: ${data.timeline.totalWeeks} weeks
+Core Features:
+${data.mvp.coreFeatures.map((feature, i) => `${i + 1}. ${feature}`).join('\n')}
+
+For every story:
+- Write it as "As a <persona>, I want <goal>, so that <benefit>"${language === 'de' ? ' in German ("Als <Persona> möchte ich <Ziel>, damit <Nutzen>")' : ''}
+- Add 2-4 testable acceptance criteria
+- Estimate story points (1, 2, 3, 5, 8 or 13), where 1 point is ${WEEKS_PER_POINT} person-weeks of development; split anything above 8
+- Only cover what the MVP needs
+
+Submit them with the submit_user_stories tool.`;
+
+    const result = await this.callStructured(
+      FeatureBreakdownSchema,
+      { name: 'submit_user_stories', description: 'Submit the user stories for the core features' },
+      { type: 'enhance', context: 'Feature Breakdown' },
+      prompt,
+      { task: 'optimize', language }
+    );
+
+    if (!result) return null;
+
+    return result.stories.map(story => ({
+      feature: story.feature,
+      title: story.title,
+      story: story.story,
+      acceptanceCriteria: story.acceptance_criteria,
+      points: story.points,
+    }));
   }
 
   /**
    * Optimize PRD content
    */
-  public async optimizePRD(content: string): Promise<AIOptimizationResult | null> {
+  public async optimizePRD(content: string, stream?: LLMStreamOptions): Promise<AIOptimizationResult | null> {
     const prompt = `
 Optimize this PRD for clarity, specificity, and actionability:
 
@@ -597,11 +728,14 @@ Improvements needed:
 
 Return the optimized version.`;
 
-    const response = await this.callClaude(prompt);
+    const response = await this.callLLM(prompt, { task: 'optimize', stream });
     
     if (!response) return null;
 
-    this.recordInteraction('optimize', 'PRD Optimization', prompt, response.content, response.tokensUsed, response.cost);
+    this.recordInteraction('optimize', 'PRD Optimization', prompt, response.content, response.tokensUsed, response.cost, response.model);
+
+    // A partially streamed PRD is unusable
+    if (response.aborted) return null;
 
     return {
       original: content,
@@ -636,11 +770,11 @@ Check for:
 
 Return issues found and suggestions.`;
 
-    const response = await this.callClaude(prompt);
+    const response = await this.callLLM(prompt, { task: 'validate' });
     
     if (!response) return null;
 
-    this.recordInteraction('validate', 'Answer Validation', prompt, response.content, response.tokensUsed, response.cost);
+    this.recordInteraction('validate', 'Answer Validation', prompt, response.content, response.tokensUsed, response.cost, response.model);
 
     // Parse response (simplified)
     const issues = response.content.includes('Issue:') 
@@ -666,8 +800,9 @@ Return issues found and suggestions.`;
     context: string,
     prompt: string,
     response: string,
-    tokens: { input: number; output: number; total: number },
-    cost: number
+    tokens: TokenUsage,
+    cost: number,
+    model: string
   ): void {
     this.usageMetrics.interactions.push({
       timestamp: new Date(),
@@ -677,6 +812,10 @@ Return issues found and suggestions.`;
       response,
       inputTokens: tokens.input,
       outputTokens: tokens.output,
+      cacheReadTokens: tokens.cacheRead,
+      cacheWriteTokens: tokens.cacheWrite,
+      tokenSource: tokens.source,
+      model,
       cost,
     });
   }
@@ -691,6 +830,37 @@ Return issues found and suggestions.`;
     };
   }
 
+  /**
+   * AI spend allowed per session in USD, unlimited when undefined or 0
+   */
+  public getMaxBudget(): number | undefined {
+    return this.config.maxBudget;
+  }
+
+  /**
+   * Restore usage metrics from a saved session checkpoint
+   */
+  public restoreUsageMetrics(metrics: AIUsageMetrics): void {
+    this.usageMetrics = {
+      ...metrics,
+      interactions: [...metrics.interactions],
+      endTime: undefined,
+    };
+  }
+
+  /**
+   * Describe whether the session's token counts are measured or estimated
+   */
+  public static describeTokenSource(metrics: AIUsageMetrics): string {
+    if (metrics.apiCalls === 0 || metrics.estimatedCalls === 0) {
+      return 'measured (API usage)';
+    }
+    if (metrics.estimatedCalls >= metrics.apiCalls) {
+      return 'estimated (~4 characters per token)';
+    }
+    return `mixed (${metrics.estimatedCalls} of ${metrics.apiCalls} calls estimated)`;
+  }
+
   /**
    * Get cost breakdown
    */
@@ -698,12 +868,17 @@ Return issues found and suggestions.`;
     total: number;
     byType: Record<string, number>;
     byPhase: Record<string, number>;
+    byModel: Record<string, number>;
   } {
     const byType: Record<string, number> = {};
     const byPhase: Record<string, number> = {};
+    const byModel: Record<string, number> = {};
 
     this.usageMetrics.interactions.forEach(interaction => {
       byType[interaction.type] = (byType[interaction.type] || 0) + interaction.cost;
+
+      const model = interaction.model ?? this.usageMetrics.model;
+      byModel[model] = (byModel[model] || 0) + interaction.cost;
       
       // Simple phase detection based on context
       const phase = interaction.context.toLowerCase().includes('project') ? 'project' :
@@ -719,6 +894,7 @@ Return issues found and suggestions.`;
       total: this.usageMetrics.estimatedCost,
       byType,
       byPhase,
+      byModel,
     };
   }
 
@@ -736,6 +912,8 @@ Total API Calls: ${metrics.apiCalls}
 Total Tokens: ${metrics.totalTokensUsed.toFixed(0)}
   - Input: ${metrics.inputTokens.toFixed(0)}
   - Output: ${metrics.outputTokens.toFixed(0)}
+  - Cache read/write: ${metrics.cacheReadTokens.toFixed(0)}/${metrics.cacheWriteTokens.toFixed(0)}
+Token Counts: ${AIService.describeTokenSource(metrics)}
 
 Cost Breakdown:
   Total: $${breakdown.total.toFixed(4)}
@@ -747,6 +925,12 @@ By Feature:`;
       summary += `\n  - ${type}: $${cost.toFixed(4)} (${percent}%)`;
     });
 
+    summary += '\n\nBy Model:';
+    Object.entries(breakdown.byModel).forEach(([model, cost]) => {
+      const percent = (cost / breakdown.total * 100).toFixed(1);
+      summary += `\n  - ${model}: $${cost.toFixed(4)} (${percent}%)`;
+    });
+
     if (this.config.maxBudget) {
       const percentUsed = (breakdown.total / this.config.maxBudget * 100).toFixed(1);
       summary += `\n\nBudget: $${breakdown.total.toFixed(4)} of $${this.config.maxBudget} (${percentUsed}%)`;
@@ -1,5 +1,5 @@
 import { QuestionType } from './questionTypeDetector.js';
-import {
+import type {
   QuestionCategory,
   ContextEntry,
   ProjectContext,
@@ -7,7 +7,7 @@ import {
   ContextMemoryExport
 } from '../types/contextMemory.js';
 
-export { QuestionCategory, ContextEntry, ProjectContext, ConsistencyCheck };
+export type { QuestionCategory, ContextEntry, ProjectContext, ConsistencyCheck };
 
 /**
  * Service for managing context memory across the session
@@ -323,6 +323,7 @@ export class ContextMemoryService {
   public import(data: ContextMemoryExport): void {
     this.history = data.history || [];
     this.projectContext = data.projectContext || {};
+    this.contextDirty = true;
   }
 
   /**
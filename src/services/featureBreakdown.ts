@@ -0,0 +1,215 @@
+import { PRDData, UserStory } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { analyzeFeatureComplexity, detectFeatureLanguage } from '../validators/scopeProtection.js';
+import type { Language } from './promptTemplates.js';
+
+/**
+ * A story before it is numbered, as the AI or a template writes it
+ */
+export type UserStoryDraft = Omit<UserStory, 'id'>;
+
+interface StoryTemplate {
+  title: string;
+  goal: string;
+  benefit: string;
+  criteria: string[];
+}
+
+const STORY_POINTS = [1, 2, 3, 5, 8, 13];
+
+// Share of the feature's points per story, by number of stories
+const STORY_WEIGHTS = [[1], [0.6, 0.4], [0.5, 0.3, 0.2]];
+
+// Placeholders: {feature}, {project}. Low complexity gets the first story,
+// medium the first two, high and extreme all three.
+const STORY_TEMPLATES: Record<Language, { format: string; persona: string; stories: StoryTemplate[] }> = {
+  en: {
+    format: 'As {persona}, I want {goal}, so that {benefit}',
+    persona: 'a user',
+    stories: [
+      {
+        title: '{feature}',
+        goal: 'to use the {feature}',
+        benefit: 'I get the core value of {project} without workarounds',
+        criteria: [
+          '{feature} works end to end for the main use case',
+          'Invalid input is rejected with a clear error message',
+          'Results are saved and still there after a reload',
+        ],
+      },
+      {
+        title: 'Errors and empty states in {feature}',
+        goal: 'clear feedback when {feature} fails or has nothing to show',
+        benefit: 'I know what to do next and lose no data',
+        criteria: [
+          'Failures show a plain-language message with a next step',
+          'No data is lost when an action fails',
+          'Empty states explain how to get started',
+        ],
+      },
+      {
+        title: 'Manage {feature} data',
+        goal: 'to review, change and delete what I created with {feature}',
+        benefit: 'I stay in control of my data',
+        criteria: [
+          'Entries can be listed, edited and deleted',
+          'Changes are visible immediately',
+          'Deleting asks for confirmation',
+        ],
+      },
+    ],
+  },
+  de: {
+    format: 'Als {persona} möchte ich {goal}, damit {benefit}',
+    persona: 'Nutzer',
+    stories: [
+      {
+        title: '{feature}',
+        goal: '{feature} nutzen',
+        benefit: 'ich den Kernnutzen von {project} ohne Umwege bekomme',
+        criteria: [
+          '{feature} funktioniert durchgängig für den Hauptanwendungsfall',
+          'Ungültige Eingaben werden mit einer verständlichen Fehlermeldung abgelehnt',
+          'Ergebnisse werden gespeichert und sind nach dem Neuladen noch da',
+        ],
+      },
+      {
+        title: 'Fehler und leere Zustände bei {feature}',
+        goal: 'klare Rückmeldung, wenn {feature} fehlschlägt oder nichts anzuzeigen hat',
+        benefit: 'ich weiß, was zu tun ist, und keine Daten verliere',
+        criteria: [
+          'Fehler werden verständlich und mit einem nächsten Schritt angezeigt',
+          'Schlägt eine Aktion fehl, gehen keine Daten verloren',
+          'Leere Zustände erklären, wie man anfängt',
+        ],
+      },
+      {
+        title: '{feature}: Daten verwalten',
+        goal: 'ansehen, ändern und löschen, was ich mit {feature} angelegt habe',
+        benefit: 'ich die Kontrolle über meine Daten behalte',
+        criteria: [
+          'Einträge lassen sich auflisten, bearbeiten und löschen',
+          'Änderungen sind sofort sichtbar',
+          'Löschen muss bestätigt werden',
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * Breaks core features into user stories. AI drafts are used where they
+ * cover a feature; every other feature gets stories from templates. Either
+ * way a feature's stories add up to its complexity score, in points of
+ * WEEKS_PER_POINT.
+ */
+export class FeatureBreakdownService {
+  static breakdown(data: PRDData, drafts: UserStoryDraft[] | null = null): UserStory[] {
+    const language = detectFeatureLanguage(data.mvp.coreFeatures);
+    const byFeature = groupDrafts(data.mvp.coreFeatures, drafts ?? []);
+
+    return data.mvp.coreFeatures.flatMap((feature, featureIndex) => {
+      const featureDrafts = byFeature[featureIndex].length > 0
+        ? scaleToEstimate(byFeature[featureIndex], featurePoints(feature, language))
+        : this.fromTemplates(data, feature, language);
+
+      return featureDrafts.map((draft, storyIndex) => ({
+        id: `US-${featureIndex + 1}.${storyIndex + 1}`,
+        ...draft,
+        feature,
+        points: toStoryPoints(draft.points),
+      }));
+    });
+  }
+
+  /**
+   * Template stories for one feature
+   */
+  static fromTemplates(data: PRDData, feature: string, language: Language): UserStoryDraft[] {
+    const complexity = analyzeFeatureComplexity(feature, language);
+    const count = complexity.level === 'low' ? 1 : complexity.level === 'medium' ? 2 : 3;
+    const templates = STORY_TEMPLATES[language];
+    const fill = (text: string, featureText: string = feature): string => text
+      .replace(/\{feature\}/g, featureText)
+      .replace(/\{project\}/g, data.project.name);
+    // German nouns keep their capital letter mid-sentence
+    const inlineFeature = language === 'de' ? feature : lowerFirst(feature);
+    const audience = persona(data.project.targetAudience);
+    const who = language === 'de' ? audience || templates.persona : withArticle(audience) ?? templates.persona;
+
+    return templates.stories.slice(0, count).map((template, index) => ({
+      feature,
+      title: fill(template.title),
+      story: templates.format
+        .replace('{persona}', who)
+        .replace('{goal}', fill(template.goal, inlineFeature))
+        .replace('{benefit}', fill(template.benefit)),
+      acceptanceCriteria: template.criteria.map(criterion => fill(criterion)),
+      points: Math.max(1, Math.round(featurePoints(feature, language) * STORY_WEIGHTS[count - 1][index])),
+    }));
+  }
+}
+
+/**
+ * Drafts per core feature, matched by name; drafts for unknown features are dropped
+ */
+function groupDrafts(features: string[], drafts: UserStoryDraft[]): UserStoryDraft[][] {
+  const keys = features.map(feature => feature.trim().toLowerCase());
+  const groups: UserStoryDraft[][] = features.map(() => []);
+
+  drafts.forEach(draft => {
+    const index = keys.indexOf(draft.feature.trim().toLowerCase());
+    if (index === -1) {
+      Logger.debug(`Dropped user story for unknown feature "${draft.feature}"`);
+      return;
+    }
+    groups[index].push(draft);
+  });
+
+  return groups;
+}
+
+/**
+ * Estimated points of a feature, the total its stories are sized to
+ */
+export function featurePoints(feature: string, language: Language): number {
+  return Math.ceil(analyzeFeatureComplexity(feature, language).score);
+}
+
+// The AI sizes stories relative to each other; the feature's estimate sets the total
+function scaleToEstimate(drafts: UserStoryDraft[], estimate: number): UserStoryDraft[] {
+  const total = drafts.reduce((sum, draft) => sum + draft.points, 0);
+  return drafts.map(draft => ({ ...draft, points: Math.max(1, Math.round(draft.points * estimate / total)) }));
+}
+
+// Nearest point value of the scale, ties round up
+function toStoryPoints(points: number): number {
+  return STORY_POINTS.reduce((best, value) =>
+    Math.abs(value - points) <= Math.abs(best - points) ? value : best
+  );
+}
+
+// The first part of the target audience, if short enough to read as a persona
+function persona(targetAudience: string): string {
+  const first = targetAudience.split(/[,.;:(]/)[0].trim();
+  return first.length <= 40 ? first : '';
+}
+
+// Words that make an audience more than a simple noun phrase
+const AUDIENCE_QUALIFIERS = /\b(with|who|that|for|in|of|and|or|at|on|from|to)\b/i;
+
+// "Indie hacker" → "an indie hacker", "Freelance designers" → "one of the
+// freelance designers"; null unless the audience is a short noun phrase
+function withArticle(audience: string): string | null {
+  if (!/^\p{L}[\p{L}'-]*( \p{L}[\p{L}'-]*){0,3}$/u.test(audience) || AUDIENCE_QUALIFIERS.test(audience)) {
+    return null;
+  }
+  const phrase = lowerFirst(audience);
+  if (/[^s]s$/.test(phrase)) return `one of the ${phrase}`;
+  return `${/^[aeiou]/i.test(phrase) ? 'an' : 'a'} ${phrase}`;
+}
+
+// "Time tracking" reads as "time tracking" mid-sentence; "API access" and "SaaS founders" stay as is
+function lowerFirst(text: string): string {
+  return /^\p{Lu}\p{Ll}*(?!\p{L})/u.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text;
+}
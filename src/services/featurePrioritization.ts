@@ -0,0 +1,183 @@
+import { FeaturePrioritization, MoSCoWBucket, PRDData, RankedFeature } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { PrioritizedFeature, prioritizeFeatures } from '../validators/scopeProtection.js';
+import { ProjectConfig } from './projectConfig.js';
+
+export const MOSCOW_LABELS: Record<MoSCoWBucket, string> = {
+  must: 'Must have',
+  should: 'Should have',
+  could: 'Could have',
+  wont: 'Won\'t have',
+};
+
+const MOSCOW_ORDER: MoSCoWBucket[] = ['must', 'should', 'could', 'wont'];
+
+const SUGGESTED_BUCKETS: Record<PrioritizedFeature['priority'], MoSCoWBucket> = {
+  'must-have': 'must',
+  'should-have': 'should',
+  'nice-to-have': 'could',
+  'defer': 'wont',
+};
+
+// Share of the timeline the must-haves may take, as in prioritizeFeatures
+const MUST_HAVE_SHARE = 0.7;
+
+// The MVP scope lists hold at most this many entries
+const MAX_SCOPE_ITEMS = 10;
+
+export interface FeatureSuggestion {
+  feature: string;
+  bucket: MoSCoWBucket;
+  effort: number; // Person-weeks
+  reasoning: string;
+}
+
+export type MoSCoWInput = Pick<RankedFeature, 'feature' | 'bucket' | 'effort'>;
+
+export interface RICEInput {
+  feature: string;
+  reach: number;
+  impact: number;
+  confidence: number;
+  effort: number;
+}
+
+/**
+ * Ranks the core features by RICE score or MoSCoW bucket. Only must-haves
+ * stay core features; the rest move to the parking lot or the non-goals.
+ */
+export class FeaturePrioritizationService {
+  /**
+   * Bucket and effort per core feature from the complexity analysis, in feature order
+   */
+  static suggest(data: PRDData): FeatureSuggestion[] {
+    const features = data.mvp.coreFeatures;
+    const prioritized = prioritizeFeatures(
+      features,
+      data.timeline.totalWeeks,
+      data.mvp.solutionApproach || data.project.description
+    );
+
+    return prioritized
+      .sort((a, b) => features.indexOf(a.feature) - features.indexOf(b.feature))
+      .map(item => ({
+        feature: item.feature,
+        bucket: SUGGESTED_BUCKETS[item.priority],
+        effort: Math.max(1, item.complexity.estimatedWeeks),
+        reasoning: item.reasoning,
+      }));
+  }
+
+  /**
+   * Must-haves first; within a bucket the smaller effort goes first
+   */
+  static rankMoSCoW(entries: MoSCoWInput[]): FeaturePrioritization {
+    const ranked = [...entries].sort((a, b) =>
+      MOSCOW_ORDER.indexOf(a.bucket) - MOSCOW_ORDER.indexOf(b.bucket) || a.effort - b.effort
+    );
+
+    return {
+      method: 'moscow',
+      features: ranked.map((entry, index) => ({
+        feature: entry.feature,
+        rank: index + 1,
+        bucket: entry.bucket,
+        effort: entry.effort,
+      })),
+    };
+  }
+
+  /**
+   * Highest score first. Features become must-haves in rank order while they
+   * fit into 70% of the timeline and the feature limit of the scope policy;
+   * the top feature always does. Later ones that still fit the timeline are
+   * should-haves, the rest could-haves.
+   */
+  static rankRICE(entries: RICEInput[], timelineWeeks: number): FeaturePrioritization {
+    const { maxFeatures } = ProjectConfig.get().scopePolicy;
+    const scored = entries
+      .map(entry => ({ ...entry, score: riceScore(entry) }))
+      .sort((a, b) => b.score - a.score || a.effort - b.effort);
+
+    let mustCount = 0;
+    let mustWeeks = 0;
+    let plannedWeeks = 0;
+
+    const features = scored.map((entry, index): RankedFeature => {
+      let bucket: MoSCoWBucket = 'could';
+      const fitsCore = mustWeeks + entry.effort <= timelineWeeks * MUST_HAVE_SHARE && mustCount < maxFeatures;
+
+      if (index === 0 || (fitsCore && mustCount === index)) {
+        bucket = 'must';
+        mustCount++;
+        mustWeeks += entry.effort;
+        plannedWeeks += entry.effort;
+      } else if (plannedWeeks + entry.effort <= timelineWeeks) {
+        bucket = 'should';
+        plannedWeeks += entry.effort;
+      }
+
+      return {
+        feature: entry.feature,
+        rank: index + 1,
+        bucket,
+        effort: entry.effort,
+        rice: { reach: entry.reach, impact: entry.impact, confidence: entry.confidence, score: entry.score },
+      };
+    });
+
+    return { method: 'rice', features };
+  }
+
+  /**
+   * Keep the must-haves as core features in rank order. Should and could
+   * haves move to out of scope, won't haves to the non-goals; phase
+   * deliverables and user stories of moved features are dropped.
+   */
+  static apply(data: PRDData, prioritization: FeaturePrioritization): PRDData {
+    const inBucket = (...buckets: MoSCoWBucket[]): string[] => prioritization.features
+      .filter(entry => buckets.includes(entry.bucket))
+      .map(entry => entry.feature);
+    const coreFeatures = inBucket('must');
+    const moved = new Set(inBucket('should', 'could', 'wont').map(normalize));
+
+    return {
+      ...data,
+      mvp: {
+        ...data.mvp,
+        coreFeatures,
+        outOfScope: addToScopeList(data.mvp.outOfScope, inBucket('should', 'could'), 'out of scope'),
+        nonGoals: addToScopeList(data.mvp.nonGoals, inBucket('wont'), 'non-goals'),
+      },
+      timeline: {
+        ...data.timeline,
+        phases: data.timeline.phases.map(phase => {
+          const deliverables = phase.deliverables.filter(deliverable => !moved.has(normalize(deliverable)));
+          // A phase needs at least one deliverable
+          return { ...phase, deliverables: deliverables.length > 0 ? deliverables : phase.deliverables };
+        }),
+      },
+      userStories: data.userStories?.filter(story => !moved.has(normalize(story.feature))),
+      prioritization,
+    };
+  }
+}
+
+// Rounded to one decimal, so the PRD table stays readable
+function riceScore(entry: RICEInput): number {
+  return Math.round((entry.reach * entry.impact * entry.confidence / entry.effort) * 10) / 10;
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+function addToScopeList(list: string[], features: string[], name: string): string[] {
+  const known = new Set(list.map(normalize));
+  const merged = [...list, ...features.filter(feature => !known.has(normalize(feature)))];
+
+  if (merged.length > MAX_SCOPE_ITEMS) {
+    Logger.warning(`Only ${MAX_SCOPE_ITEMS} ${name} fit into the PRD; ${merged.length - MAX_SCOPE_ITEMS} are only listed in the feature ranking`);
+  }
+  return merged.slice(0, MAX_SCOPE_ITEMS);
+}
@@ -0,0 +1,93 @@
+import { IssueExportPlan, IssueTracker, TrackerApiConfig } from '../types/issues.js';
+import { Logger } from '../utils/logger.js';
+
+export const DEFAULT_TRACKER_URLS: Record<Exclude<IssueTracker, 'linear'>, string> = {
+  github: 'https://api.github.com',
+  gitlab: 'https://gitlab.com/api/v4',
+};
+
+/**
+ * Creates milestones and issues through the GitHub or GitLab REST API.
+ * Milestones are created first so issues can reference their IDs.
+ */
+export class IssueTrackerClient {
+  constructor(
+    private tracker: IssueTracker,
+    private config: TrackerApiConfig
+  ) {
+    if (tracker === 'linear') {
+      throw new Error('Linear is supported as CSV import only; --apply works with github and gitlab');
+    }
+  }
+
+  async apply(plan: IssueExportPlan): Promise<{ milestones: number; issues: number }> {
+    const milestoneIds = new Map<string, number>();
+
+    for (const milestone of plan.milestones) {
+      const created = this.tracker === 'github'
+        ? await this.post<{ number: number }>('milestones', {
+          title: milestone.title,
+          description: milestone.description,
+          ...(milestone.dueDate ? { due_on: `${milestone.dueDate}T23:59:59Z` } : {}),
+        })
+        : await this.post<{ id: number }>('milestones', {
+          title: milestone.title,
+          description: milestone.description,
+          ...(milestone.dueDate ? { due_date: milestone.dueDate } : {}),
+        });
+
+      milestoneIds.set(milestone.title, 'number' in created ? created.number : created.id);
+      Logger.success(`Milestone created: ${milestone.title}`);
+    }
+
+    for (const issue of plan.issues) {
+      const milestoneId = issue.milestone ? milestoneIds.get(issue.milestone) : undefined;
+      const body = this.tracker === 'github'
+        ? { title: issue.title, body: issue.body, labels: issue.labels, milestone: milestoneId }
+        : {
+          title: issue.title,
+          description: issue.body,
+          labels: issue.labels.join(','),
+          milestone_id: milestoneId,
+          due_date: issue.dueDate,
+        };
+
+      await this.post('issues', body);
+      Logger.success(`Issue created: ${issue.title}`);
+    }
+
+    return { milestones: milestoneIds.size, issues: plan.issues.length };
+  }
+
+  private async post<T>(resource: 'milestones' | 'issues', body: object): Promise<T> {
+    const response = await fetch(`${this.getProjectUrl()}/${resource}`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw new Error(`${this.tracker} API returned HTTP ${response.status} for POST ${resource}${detail ? `: ${detail}` : ''}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private getProjectUrl(): string {
+    const baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+    return this.tracker === 'github'
+      ? `${baseUrl}/repos/${this.config.project}`
+      : `${baseUrl}/projects/${encodeURIComponent(this.config.project)}`;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.tracker === 'github') {
+      headers.Accept = 'application/vnd.github+json';
+      if (this.config.token) headers.Authorization = `Bearer ${this.config.token}`;
+    } else if (this.config.token) {
+      headers['PRIVATE-TOKEN'] = this.config.token;
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,498 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  AIConfig,
+  AITaskType,
+  LLMCompletion,
+  LLMFixtureFile,
+  LLMProviderName,
+  LLMRequest,
+  LLMStreamOptions,
+  ModelRouting,
+  PROVIDER_PRICING,
+  CLAUDE_PRICING,
+  FREE_PRICING,
+  TokenPricing,
+} from '../types/ai.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { CassetteProvider } from './aiCassette.js';
+import { ProjectConfig } from './projectConfig.js';
+import { DEFAULT_RETRY_CONFIG, LLMRequestError } from './aiErrors.js';
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  anthropic: 'claude-3-5-sonnet-latest',
+  openai: 'llama3.1',
+  mock: 'mock',
+};
+
+// Short, formulaic tasks go to Haiku; challenges and PRD optimization keep the main model
+const DEFAULT_ROUTING: Record<LLMProviderName, ModelRouting> = {
+  anthropic: {
+    list_suggestion: 'claude-3-haiku-20240307',
+    validate: 'claude-3-haiku-20240307',
+  },
+  openai: {},
+  mock: {},
+};
+
+// Environment variable each provider reads its API key from; the mock provider needs none
+export const API_KEY_VARIABLES: Record<LLMProviderName, string | undefined> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  mock: undefined,
+};
+
+const AI_TASK_TYPES: AITaskType[] = ['challenge', 'list_suggestion', 'validate', 'optimize'];
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+// Served by the mock provider when no fixture matches, shaped like OptimizedAIResponse
+const MOCK_FALLBACK_RESPONSE = JSON.stringify({
+  assessment: 'good',
+  feedback: 'Mock provider response.',
+  warnings: [],
+  next_actions: ['Continue with the next question'],
+});
+
+/**
+ * Prompt with the context prefix in front, for providers without cache breakpoints
+ */
+function composePrompt(request: LLMRequest): string {
+  return request.contextPrefix ? `${request.contextPrefix}\n\n${request.prompt}` : request.prompt;
+}
+
+/**
+ * A backend that turns a prompt into a completion. With stream options the
+ * text is delivered incrementally and the call can be cancelled mid-stream.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMCompletion>;
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(apiKey: string, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    // Retries are handled by AIService so they can be classified and budgeted
+    this.client = new Anthropic({ apiKey, maxRetries: 0, timeout: timeoutMs });
+  }
+
+  async complete(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMCompletion> {
+    const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...AnthropicProvider.toCachedInput(request),
+    };
+
+    if (request.tool) {
+      params.tools = [{
+        name: request.tool.name,
+        description: request.tool.description,
+        input_schema: request.tool.inputSchema as Anthropic.Messages.Tool.InputSchema,
+      }];
+      params.tool_choice = { type: 'tool', name: request.tool.name };
+    }
+
+    if (!stream) {
+      const response = await this.client.messages.create(params);
+      return AnthropicProvider.toCompletion(response);
+    }
+
+    const messageStream = this.client.messages.stream(params, { signal: stream.signal });
+    let text = '';
+    const forward = (delta: string): void => {
+      text += delta;
+      stream.onText?.(delta);
+    };
+    messageStream.on('text', forward);
+    // Tool input arrives as partial JSON
+    messageStream.on('inputJson', forward);
+
+    try {
+      return AnthropicProvider.toCompletion(await messageStream.finalMessage());
+    } catch (error) {
+      if (!stream.signal?.aborted) throw error;
+
+      // Input usage arrives with message_start, so a cancelled stream still reports it
+      const usage = messageStream.currentMessage?.usage;
+      return {
+        text,
+        aborted: true,
+        usage: usage ? AnthropicProvider.toUsage(usage) : undefined,
+      };
+    }
+  }
+
+  /**
+   * System prompt and user message, with cache breakpoints after the system
+   * prompt (which also covers the tool definition) and after the context prefix
+   */
+  private static toCachedInput(
+    request: LLMRequest
+  ): Pick<Anthropic.Messages.MessageCreateParamsNonStreaming, 'system' | 'messages'> {
+    if (!request.cache) {
+      return {
+        system: request.system,
+        messages: [{ role: 'user', content: composePrompt(request) }],
+      };
+    }
+
+    const cacheControl = { type: 'ephemeral' } as const;
+    const content: Anthropic.Messages.TextBlockParam[] = [];
+    if (request.contextPrefix) {
+      content.push({ type: 'text', text: request.contextPrefix, cache_control: cacheControl });
+    }
+    content.push({ type: 'text', text: request.prompt });
+
+    return {
+      system: [{ type: 'text', text: request.system, cache_control: cacheControl }],
+      messages: [{ role: 'user', content }],
+    };
+  }
+
+  private static toCompletion(message: Anthropic.Messages.Message): LLMCompletion {
+    const textBlock = message.content.find(block => block.type === 'text');
+    const toolBlock = message.content.find(block => block.type === 'tool_use');
+    const toolInput = toolBlock?.type === 'tool_use' ? toolBlock.input : undefined;
+
+    return {
+      text: textBlock?.type === 'text'
+        ? textBlock.text
+        : toolInput !== undefined ? JSON.stringify(toolInput) : '',
+      toolInput,
+      usage: message.usage ? AnthropicProvider.toUsage(message.usage) : undefined,
+    };
+  }
+
+  private static toUsage(usage: Anthropic.Messages.Usage): NonNullable<LLMCompletion['usage']> {
+    return {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    };
+  }
+}
+
+interface OpenAIMessage {
+  content?: string | null;
+  tool_calls?: Array<{ function?: { arguments?: string } }>;
+}
+
+interface OpenAIChunk {
+  choices?: Array<{ message?: OpenAIMessage; delta?: OpenAIMessage }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+/**
+ * Tool arguments arrive as a JSON string; servers without tool support may answer in plain content
+ */
+function parseToolArguments(value?: string | null): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * OpenAI-compatible `/chat/completions` endpoint (Ollama, llama.cpp, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private baseUrl: string,
+    private apiKey?: string,
+    private timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async complete(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMCompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: stream?.signal
+          ? AbortSignal.any([stream.signal, AbortSignal.timeout(this.timeoutMs)])
+          : AbortSignal.timeout(this.timeoutMs),
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: composePrompt(request) },
+          ],
+          ...(request.tool ? {
+            tools: [{
+              type: 'function',
+              function: {
+                name: request.tool.name,
+                description: request.tool.description,
+                parameters: request.tool.inputSchema,
+              },
+            }],
+            tool_choice: { type: 'function', function: { name: request.tool.name } },
+          } : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+      });
+    } catch (error) {
+      if (stream?.signal?.aborted) return { text: '', aborted: true };
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new LLMRequestError(
+        `HTTP ${response.status} from ${this.baseUrl}: ${await response.text()}`,
+        response.status,
+        response.headers
+      );
+    }
+
+    if (stream && response.body) {
+      return this.readStream(response.body, stream, Boolean(request.tool));
+    }
+
+    const body = await response.json() as OpenAIChunk;
+    const message = body.choices?.[0]?.message;
+    const toolArguments = message?.tool_calls?.[0]?.function?.arguments;
+
+    return {
+      text: toolArguments ?? message?.content ?? '',
+      toolInput: request.tool ? parseToolArguments(toolArguments ?? message?.content) : undefined,
+      usage: OpenAICompatibleProvider.toUsage(body.usage),
+    };
+  }
+
+  /**
+   * Consume a server-sent event stream of chat completion chunks
+   */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    stream: LLMStreamOptions,
+    expectsTool: boolean
+  ): Promise<LLMCompletion> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: LLMCompletion['usage'];
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+
+          const chunk = JSON.parse(data) as OpenAIChunk;
+          const choiceDelta = chunk.choices?.[0]?.delta;
+          const delta = choiceDelta?.tool_calls?.[0]?.function?.arguments ?? choiceDelta?.content;
+          if (delta) {
+            text += delta;
+            stream.onText?.(delta);
+          }
+          usage = OpenAICompatibleProvider.toUsage(chunk.usage) ?? usage;
+        }
+      }
+    } catch (error) {
+      if (!stream.signal?.aborted) throw error;
+      return { text, usage, aborted: true };
+    }
+
+    return { text, usage, toolInput: expectsTool ? parseToolArguments(text) : undefined };
+  }
+
+  private static toUsage(usage: OpenAIChunk['usage']): LLMCompletion['usage'] {
+    const inputTokens = usage?.prompt_tokens;
+    const outputTokens = usage?.completion_tokens;
+    return typeof inputTokens === 'number' && typeof outputTokens === 'number'
+      ? { inputTokens, outputTokens }
+      : undefined;
+  }
+}
+
+/**
+ * Deterministic offline provider that replays responses from a fixture file
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  private fixtures: LLMFixtureFile | null = null;
+
+  constructor(private fixturesPath?: string) {}
+
+  async complete(request: LLMRequest, stream?: LLMStreamOptions): Promise<LLMCompletion> {
+    const fixtures = await this.loadFixtures();
+    const fixture = fixtures.fixtures.find(f =>
+      !f.match || composePrompt(request).includes(f.match) || request.system.includes(f.match)
+    );
+
+    const completion: LLMCompletion = fixture
+      ? { text: fixture.response, usage: fixture.usage }
+      : { text: fixtures.fallback ?? MOCK_FALLBACK_RESPONSE };
+
+    if (request.tool) {
+      completion.toolInput = parseToolArguments(completion.text);
+    }
+
+    stream?.onText?.(completion.text);
+    return completion;
+  }
+
+  private async loadFixtures(): Promise<LLMFixtureFile> {
+    if (!this.fixtures) {
+      this.fixtures = this.fixturesPath
+        ? await FileSystem.loadJSON<LLMFixtureFile>(this.fixturesPath)
+        : { fixtures: [] };
+      this.fixtures.fixtures = this.fixtures.fixtures || [];
+    }
+    return this.fixtures;
+  }
+}
+
+/**
+ * Resolve the AI configuration from explicit settings and the environment
+ */
+export function resolveAIConfig(config?: Partial<AIConfig>): AIConfig {
+  // Explicit settings win over the environment, which wins over the project config
+  const project = ProjectConfig.get().ai;
+  const provider = config?.provider || parseProviderName(process.env.AI_PROVIDER, project.provider);
+
+  const keyVariable = API_KEY_VARIABLES[provider];
+  const apiKey = config?.apiKey || (keyVariable && process.env[keyVariable]) || '';
+
+  return {
+    provider,
+    apiKey,
+    model: config?.model || process.env.AI_MODEL || project.model || DEFAULT_MODELS[provider],
+    maxTokens: config?.maxTokens || 4096,
+    temperature: config?.temperature ?? 0.7,
+    maxBudget: config?.maxBudget ?? project.maxBudget ?? 5.00,
+    showCosts: config?.showCosts !== false,
+    baseUrl: config?.baseUrl || process.env.AI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    fixturesPath: config?.fixturesPath || process.env.AI_FIXTURES,
+    cassette: config?.cassette,
+    retry: {
+      ...DEFAULT_RETRY_CONFIG,
+      ...(process.env.AI_MAX_RETRIES ? { maxRetries: Number(process.env.AI_MAX_RETRIES) } : {}),
+      ...config?.retry,
+    },
+    timeoutMs: config?.timeoutMs || Number(process.env.AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    promptCaching: config?.promptCaching
+      ?? (process.env.AI_PROMPT_CACHE ? process.env.AI_PROMPT_CACHE !== 'false' : project.promptCaching ?? true),
+    routing: {
+      ...DEFAULT_ROUTING[provider],
+      ...project.routing,
+      ...(process.env.AI_MODEL_ROUTES ? parseModelRoutes(process.env.AI_MODEL_ROUTES.split(',')) : {}),
+      ...config?.routing,
+    },
+    language: config?.language || project.language,
+  };
+}
+
+/**
+ * Check whether a provider has everything it needs to serve requests
+ */
+export function isProviderConfigured(config: AIConfig): boolean {
+  // Replayed sessions never reach the network
+  if (config.cassette?.mode === 'replay') return true;
+  return config.provider !== 'anthropic' || config.apiKey.length > 0;
+}
+
+/**
+ * Create the provider selected in the config, or null when it is not configured
+ */
+export function createLLMProvider(config: AIConfig): LLMProvider | null {
+  if (!isProviderConfigured(config)) {
+    return null;
+  }
+
+  if (config.cassette) {
+    const inner = config.cassette.mode === 'record'
+      ? createLLMProvider({ ...config, cassette: undefined })
+      : null;
+    return new CassetteProvider(config.cassette, inner, config.provider);
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        config.baseUrl || DEFAULT_OPENAI_BASE_URL,
+        config.apiKey || undefined,
+        config.timeoutMs
+      );
+    case 'mock':
+      return new MockProvider(config.fixturesPath);
+    default:
+      return new AnthropicProvider(config.apiKey, config.timeoutMs);
+  }
+}
+
+/**
+ * Look up token pricing for a model on the given provider
+ */
+export function getProviderPricing(provider: LLMProviderName, model: string): TokenPricing {
+  const pricing = PROVIDER_PRICING[provider][model];
+  if (pricing) return pricing;
+
+  // Unknown Claude models are billed like the default Sonnet model
+  return provider === 'anthropic' ? CLAUDE_PRICING['claude-3-5-sonnet-latest'] : FREE_PRICING;
+}
+
+/**
+ * Model for a task: the routing entry, or the main model
+ */
+export function resolveTaskModel(config: AIConfig, task: AITaskType): string {
+  return config.routing?.[task] || config.model;
+}
+
+/**
+ * Parse `task=model` pairs from --model-route or AI_MODEL_ROUTES
+ */
+export function parseModelRoutes(routes: string[]): ModelRouting {
+  const routing: ModelRouting = {};
+
+  for (const route of routes) {
+    if (!route.trim()) continue;
+
+    const [task, model] = route.split('=').map(part => part.trim());
+    if (!AI_TASK_TYPES.includes(task as AITaskType) || !model) {
+      throw new Error(`Invalid model route "${route}". Use <task>=<model> with task one of: ${AI_TASK_TYPES.join(', ')}`);
+    }
+    routing[task as AITaskType] = model;
+  }
+
+  return routing;
+}
+
+function parseProviderName(value?: string, fallback: LLMProviderName = 'anthropic'): LLMProviderName {
+  const name = value?.trim().toLowerCase();
+  if (name === 'openai' || name === 'mock' || name === 'anthropic') {
+    return name;
+  }
+  if (name) {
+    throw new Error(`Unknown AI_PROVIDER "${value}". Use anthropic, openai or mock.`);
+  }
+  return fallback;
+}
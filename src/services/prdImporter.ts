@@ -0,0 +1,405 @@
+import { FeaturePrioritization, Milestone, MoSCoWBucket, PRDData, Risk, TechStack, UserStory } from '../types/index.js';
+import { MOSCOW_LABELS } from './featurePrioritization.js';
+
+type RiskLevel = Risk['impact'];
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+const PROJECT_SECTIONS: Record<string, 'problemStatement' | 'uniqueValue' | 'targetAudience'> = {
+  'problem statement': 'problemStatement',
+  'unique value proposition': 'uniqueValue',
+  'unique value': 'uniqueValue',
+  'target audience': 'targetAudience',
+};
+
+const MVP_SECTIONS: Record<string, 'coreFeatures' | 'successMetrics' | 'nonGoals' | 'outOfScope' | 'constraints'> = {
+  'core features': 'coreFeatures',
+  'features': 'coreFeatures',
+  'success metrics': 'successMetrics',
+  'non-goals (out of scope)': 'nonGoals',
+  'non-goals': 'nonGoals',
+  'out of scope': 'nonGoals',
+  'out of scope (parking lot)': 'outOfScope',
+  'parking lot': 'outOfScope',
+  'constraints': 'constraints',
+};
+
+const TECH_SECTIONS: Record<string, keyof TechStack> = {
+  'frontend': 'frontend',
+  'backend': 'backend',
+  'database': 'database',
+  'hosting & deployment': 'hosting',
+  'hosting': 'hosting',
+  'tools': 'tools',
+};
+
+const LIST_SECTIONS: Record<string, 'assumptions' | 'openQuestions' | 'nextSteps'> = {
+  'assumptions': 'assumptions',
+  'open questions': 'openQuestions',
+  'next steps': 'nextSteps',
+};
+
+interface SourceLine {
+  text: string;
+  number: number;
+}
+
+interface MarkdownSection {
+  level: number;
+  title: string;
+  line: number;
+  body: SourceLine[];
+}
+
+export interface PRDImportResult {
+  data: PRDData;
+  warnings: string[];
+}
+
+/**
+ * Reads a PRD in the Markdown structure of the default template back into
+ * PRD data. Sections and lines it cannot map are reported as warnings.
+ */
+export class PRDImporter {
+  static parse(markdown: string): PRDImportResult {
+    const warnings: string[] = [];
+    const data = emptyPRDData();
+    let totalWeeks: number | undefined;
+    let parent = '';
+    let inPhases = false;
+    let inStories = false;
+
+    for (const section of splitSections(markdown)) {
+      const title = section.title.toLowerCase();
+      const where = `"${'#'.repeat(section.level)} ${section.title}" (line ${section.line})`;
+      const ignoreRest = (lines: SourceLine[]): void => warnIgnored(lines, where, warnings);
+
+      if (section.level === 1) {
+        ignoreRest(section.body.filter(line => !isMetadata(line.text)));
+        readMetadata(section.body, data);
+        continue;
+      }
+
+      if (section.level === 2) {
+        parent = title;
+        inPhases = false;
+        inStories = false;
+        const project = /^project:\s*(.+)$/i.exec(section.title);
+
+        if (project) {
+          data.project.name = project[1].trim();
+          readMetadata(section.body, data);
+          ignoreRest(section.body.filter(line => !isMetadata(line.text)));
+        } else if (title === 'executive summary') {
+          data.project.description = readParagraph(section.body);
+        } else if (title === 'timeline') {
+          const total = section.body.map(line => /\*\*Total Duration:\*\*\s*(\d+)/i.exec(line.text)).find(Boolean);
+          totalWeeks = total ? Number(total[1]) : undefined;
+          ignoreRest(section.body.filter(line => !/\*\*Total Duration:\*\*/i.test(line.text)));
+        } else if (LIST_SECTIONS[title]) {
+          data[LIST_SECTIONS[title]] = readList(section.body, ignoreRest);
+        } else if (['mvp scope', 'technical stack', 'risk assessment'].includes(title)) {
+          ignoreRest(section.body);
+        } else {
+          warnings.push(`Unparsed section ${where}`);
+          parent = '';
+        }
+        continue;
+      }
+
+      if (section.level === 3) {
+        inPhases = false;
+        inStories = false;
+        const risk = /^risk(?:\s*\d+)?:\s*(.+)$/i.exec(section.title);
+
+        if (parent === 'executive summary' && PROJECT_SECTIONS[title]) {
+          data.project[PROJECT_SECTIONS[title]] = readParagraph(section.body);
+        } else if (parent === 'mvp scope' && title === 'user stories') {
+          inStories = true;
+          data.userStories = [];
+          ignoreRest(section.body);
+        } else if (parent === 'mvp scope' && title === 'feature prioritization') {
+          data.prioritization = readPrioritization(section.body, ignoreRest);
+        } else if (parent === 'mvp scope' && MVP_SECTIONS[title]) {
+          data.mvp[MVP_SECTIONS[title]] = readList(section.body, ignoreRest);
+        } else if (parent === 'timeline' && title === 'development phases') {
+          inPhases = true;
+          ignoreRest(section.body);
+        } else if (parent === 'timeline' && title === 'milestones') {
+          data.timeline.milestones = readMilestones(section.body, ignoreRest);
+        } else if (parent === 'technical stack' && TECH_SECTIONS[title]) {
+          data.techStack[TECH_SECTIONS[title]] = readList(section.body, ignoreRest);
+        } else if (parent === 'risk assessment' && risk) {
+          data.risks.push(readRisk(risk[1].trim(), section.body, where, warnings));
+        } else if (parent) {
+          warnings.push(`Unparsed section ${where}`);
+        }
+        continue;
+      }
+
+      const phase = /^(.+?)\s*\((\d+)\s*weeks?\)$/i.exec(section.title);
+      const story = /^(US-[\d.]+):\s*(.+?)\s*\((\d+)\s*pts?\)$/i.exec(section.title);
+      if (inStories && story) {
+        data.userStories?.push(readUserStory(story, section.body, ignoreRest));
+      } else if (inPhases && phase) {
+        data.timeline.phases.push({
+          name: phase[1].trim(),
+          duration: Number(phase[2]),
+          deliverables: readList(section.body.filter(line => !/^deliverables:?$/i.test(line.text.trim())), ignoreRest),
+        });
+      } else if (parent) {
+        warnings.push(`Unparsed section ${where}`);
+      }
+    }
+
+    data.timeline.totalWeeks = totalWeeks ?? data.timeline.phases.reduce((sum, phase) => sum + phase.duration, 0);
+
+    const missing: [string, boolean][] = [
+      ['project name', !data.project.name],
+      ['executive summary', !data.project.description],
+      ['problem statement', !data.project.problemStatement],
+      ['core features', data.mvp.coreFeatures.length === 0],
+      ['development phases', data.timeline.phases.length === 0],
+    ];
+    missing.filter(([, isMissing]) => isMissing).forEach(([name]) => warnings.push(`Missing ${name}`));
+
+    return { data, warnings };
+  }
+}
+
+function emptyPRDData(): PRDData {
+  return {
+    project: { name: '', description: '', targetAudience: '', problemStatement: '', uniqueValue: '' },
+    mvp: {
+      problemStatement: '',
+      solutionApproach: '',
+      coreFeatures: [],
+      nonGoals: [],
+      outOfScope: [],
+      successMetrics: [],
+      constraints: [],
+    },
+    timeline: { totalWeeks: 0, phases: [], milestones: [] },
+    techStack: {},
+    risks: [],
+    assumptions: [],
+    openQuestions: [],
+    nextSteps: [],
+    generatedAt: new Date(),
+    sessionDuration: 0,
+  };
+}
+
+/**
+ * Headings outside fenced code blocks start a section; the text before the first heading is dropped
+ */
+function splitSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let inCode = false;
+
+  markdown.split(/\r?\n/).forEach((text, index) => {
+    if (/^\s*```/.test(text)) inCode = !inCode;
+    const heading = inCode ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(text);
+
+    if (heading) {
+      sections.push({ level: heading[1].length, title: heading[2].trim(), line: index + 1, body: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].body.push({ text, number: index + 1 });
+    }
+  });
+
+  return sections;
+}
+
+// Blank lines, rules and italic placeholders such as *No risks identified*
+function isFiller(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed === '' || /^(-{3,}|\*{3,}|_{3,})$/.test(trimmed) || /^\*[^*].*\*$/.test(trimmed);
+}
+
+function isMetadata(text: string): boolean {
+  return /^\*\*(Generated|Session Duration):\*\*/i.test(text.trim());
+}
+
+function readMetadata(lines: SourceLine[], data: PRDData): void {
+  lines.forEach(({ text }) => {
+    const generated = /^\*\*Generated:\*\*\s*(.+?)\s*$/i.exec(text.trim());
+    if (generated) {
+      const date = new Date(generated[1]);
+      if (!isNaN(date.getTime())) data.generatedAt = date;
+    }
+    const duration = /^\*\*Session Duration:\*\*\s*(\d+)/i.exec(text.trim());
+    if (duration) data.sessionDuration = Number(duration[1]);
+  });
+}
+
+function readParagraph(lines: SourceLine[]): string {
+  return lines
+    .filter(line => !isFiller(line.text))
+    .map(line => line.text.trim())
+    .join(' ');
+}
+
+function listItem(text: string): { indent: number; value: string } | null {
+  const match = /^(\s*)(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s+)?(.+)$/.exec(text);
+  return match ? { indent: match[1].length, value: match[2].trim() } : null;
+}
+
+function readList(lines: SourceLine[], ignoreRest: (lines: SourceLine[]) => void): string[] {
+  const items: string[] = [];
+  const ignored: SourceLine[] = [];
+
+  lines.filter(line => !isFiller(line.text)).forEach(line => {
+    const item = listItem(line.text);
+    if (item && item.indent < 2) {
+      items.push(item.value);
+    } else {
+      ignored.push(line);
+    }
+  });
+
+  ignoreRest(ignored);
+  return items;
+}
+
+function readMilestones(lines: SourceLine[], ignoreRest: (lines: SourceLine[]) => void): Milestone[] {
+  const milestones: Milestone[] = [];
+  const ignored: SourceLine[] = [];
+
+  lines.filter(line => !isFiller(line.text)).forEach(line => {
+    const item = listItem(line.text);
+    const milestone = item && item.indent < 2 ? /^\*\*(.+?)\*\*\s*[-–—]\s*(.+)$/.exec(item.value) : null;
+
+    if (milestone) {
+      milestones.push({ name: milestone[1].trim(), date: milestone[2].trim(), criteria: [] });
+    } else if (item && milestones.length > 0) {
+      milestones[milestones.length - 1].criteria.push(item.value);
+    } else {
+      ignored.push(line);
+    }
+  });
+
+  ignoreRest(ignored);
+  return milestones;
+}
+
+function readUserStory(
+  heading: RegExpExecArray,
+  lines: SourceLine[],
+  ignoreRest: (lines: SourceLine[]) => void
+): UserStory {
+  const story: UserStory = {
+    id: heading[1],
+    feature: '',
+    title: heading[2].trim(),
+    story: '',
+    acceptanceCriteria: [],
+    points: Number(heading[3]),
+  };
+  const ignored: SourceLine[] = [];
+
+  lines.filter(line => !isFiller(line.text)).forEach(line => {
+    const feature = /^\*\*Feature:\*\*\s*(.+?)\s*$/i.exec(line.text.trim());
+    const item = listItem(line.text);
+    if (feature) {
+      story.feature = feature[1];
+    } else if (item && item.indent < 2) {
+      story.acceptanceCriteria.push(item.value);
+    } else if (/^acceptance criteria:?$/i.test(line.text.trim())) {
+      return;
+    } else if (!story.story) {
+      story.story = line.text.trim();
+    } else {
+      ignored.push(line);
+    }
+  });
+
+  ignoreRest(ignored);
+  return story;
+}
+
+/**
+ * The ranking table; eight columns are a RICE ranking, four a MoSCoW one
+ */
+function readPrioritization(
+  lines: SourceLine[],
+  ignoreRest: (lines: SourceLine[]) => void
+): FeaturePrioritization | undefined {
+  const buckets = Object.entries(MOSCOW_LABELS) as [MoSCoWBucket, string][];
+  const prioritization: FeaturePrioritization = { method: 'moscow', features: [] };
+  const ignored: SourceLine[] = [];
+
+  lines.filter(line => !isFiller(line.text)).forEach(line => {
+    const cells = tableCells(line.text);
+    if (cells && /^(rank|:?-+:?)$/i.test(cells[0])) {
+      return; // Header and separator
+    }
+    const bucket = cells && cells.length >= 4
+      ? buckets.find(([, label]) => label.toLowerCase() === cells[2].toLowerCase())?.[0]
+      : undefined;
+    if (!cells || !bucket || !/^\d+$/.test(cells[0])) {
+      ignored.push(line);
+      return;
+    }
+
+    const rice = cells.length === 8;
+    prioritization.method = rice ? 'rice' : 'moscow';
+    prioritization.features.push({
+      feature: cells[1],
+      rank: Number(cells[0]),
+      bucket,
+      effort: Number(cells[rice ? 6 : 3]),
+      ...(rice && {
+        rice: { reach: Number(cells[3]), impact: Number(cells[4]), confidence: parseFloat(cells[5]) / 100, score: Number(cells[7]) },
+      }),
+    });
+  });
+
+  // Lines that are neither the explanation nor table rows
+  ignoreRest(ignored.filter(line => !/^Ranked by /i.test(line.text.trim())));
+  return prioritization.features.length > 0 ? prioritization : undefined;
+}
+
+// "| a | b |" → ["a", "b"]; null for lines that are not table rows
+function tableCells(text: string): string[] | null {
+  const trimmed = text.trim();
+  if (!/^\|.*\|$/.test(trimmed)) {
+    return null;
+  }
+  return trimmed.slice(1, -1).split('|').map(cell => cell.trim());
+}
+
+function readRisk(description: string, lines: SourceLine[], where: string, warnings: string[]): Risk {
+  const risk: Risk = { description, impact: 'medium', likelihood: 'medium', mitigation: '' };
+  const ignored: SourceLine[] = [];
+
+  lines.filter(line => !isFiller(line.text)).forEach(line => {
+    const field = /^\*\*(Impact|Likelihood|Mitigation):\*\*\s*(.*)$/i.exec(listItem(line.text)?.value ?? '');
+    if (!field) {
+      ignored.push(line);
+      return;
+    }
+
+    const name = field[1].toLowerCase();
+    const value = field[2].trim();
+    if (name === 'mitigation') {
+      risk.mitigation = value;
+    } else if (RISK_LEVELS.includes(value.toLowerCase() as RiskLevel)) {
+      risk[name as 'impact' | 'likelihood'] = value.toLowerCase() as RiskLevel;
+    } else {
+      warnings.push(`Unknown ${name} "${value}" in ${where}; assuming medium`);
+    }
+  });
+
+  warnIgnored(ignored, where, warnings);
+  return risk;
+}
+
+function warnIgnored(lines: SourceLine[], where: string, warnings: string[]): void {
+  lines
+    .filter(line => !isFiller(line.text))
+    .forEach(line => {
+      const text = line.text.trim();
+      warnings.push(`Ignored line ${line.number} in ${where}: ${text.length > 60 ? `${text.slice(0, 57)}...` : text}`);
+    });
+}
@@ -0,0 +1,143 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import YAML from 'yaml';
+import { PRDZeroConfig, ScopePolicy } from '../types/config.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { Validator } from '../validators/index.js';
+import { PRDZeroConfigSchema } from '../validators/schemas.js';
+
+// Looked up in this order in each directory from the working directory upwards
+export const CONFIG_FILE_NAMES = [
+  '.prdzerorc',
+  '.prdzerorc.json',
+  '.prdzerorc.yaml',
+  '.prdzerorc.yml',
+  'prd-zero.config.js',
+  'prd-zero.config.mjs',
+];
+
+const MODULE_EXTENSIONS = ['.js', '.mjs'];
+
+/**
+ * Project-level defaults and team policy from a .prdzerorc or
+ * prd-zero.config file. CLI flags override its values.
+ */
+export class ProjectConfig {
+  private static config?: PRDZeroConfig;
+  private static filePath?: string;
+
+  /**
+   * Find, parse and validate the config; without a file the built-in defaults apply
+   */
+  static async load(explicitPath?: string, cwd: string = process.cwd()): Promise<PRDZeroConfig> {
+    const filePath = explicitPath
+      ? path.resolve(cwd, explicitPath)
+      : process.env.PRD_ZERO_CONFIG
+        ? path.resolve(cwd, process.env.PRD_ZERO_CONFIG)
+        : await this.discover(cwd);
+
+    if (!filePath) {
+      this.filePath = undefined;
+      this.config = PRDZeroConfigSchema.parse({});
+      return this.config;
+    }
+
+    if (!(await FileSystem.fileExists(filePath))) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+
+    const raw = await this.read(filePath);
+    let config: PRDZeroConfig;
+    try {
+      config = Validator.validate(PRDZeroConfigSchema, raw);
+    } catch (error) {
+      throw new Error(`Invalid config ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Paths in the file are relative to the file, not to where prd-zero runs
+    const baseDir = path.dirname(filePath);
+    if (config.output) config.output = path.resolve(baseDir, config.output);
+    if (config.schedule.holidays) config.schedule.holidays = path.resolve(baseDir, config.schedule.holidays);
+    if (typeof config.economics === 'string') config.economics = path.resolve(baseDir, config.economics);
+    if (config.scopeRules) config.scopeRules = config.scopeRules.map(file => path.resolve(baseDir, file));
+
+    this.filePath = filePath;
+    this.config = config;
+    return config;
+  }
+
+  static get(): PRDZeroConfig {
+    if (!this.config) {
+      this.config = PRDZeroConfigSchema.parse({});
+    }
+    return this.config;
+  }
+
+  static getScopePolicy(): ScopePolicy {
+    return this.get().scopePolicy;
+  }
+
+  /**
+   * Path of the loaded config file, undefined when the defaults apply
+   */
+  static getPath(): string | undefined {
+    return this.filePath;
+  }
+
+  /**
+   * Config values as CLI option defaults, keyed by option name. Only
+   * commands whose `--output` is a directory get the output setting,
+   * and only init writes PRDs in several formats.
+   */
+  static getOptionDefaults(commandName: string): Record<string, string | undefined> {
+    const config = this.get();
+    return {
+      output: ['init', 'generate'].includes(commandName) ? config.output : undefined,
+      timeLimit: config.timeLimit?.toString(),
+      template: config.template,
+      format: commandName === 'init' ? config.formats?.join(',') : undefined,
+      roadmapChart: config.roadmapChart,
+      workingDays: config.schedule.workingDays?.toString(),
+      hoursPerWeek: config.schedule.hoursPerWeek?.toString(),
+      sprintLength: config.schedule.sprintLength?.toString(),
+      holidays: config.schedule.holidays,
+    };
+  }
+
+  private static async discover(cwd: string): Promise<string | undefined> {
+    let dir = path.resolve(cwd);
+    for (;;) {
+      for (const name of CONFIG_FILE_NAMES) {
+        const candidate = path.join(dir, name);
+        if (await FileSystem.fileExists(candidate)) {
+          return candidate;
+        }
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  private static async read(filePath: string): Promise<unknown> {
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (extension === '.ts') {
+      throw new Error(`Cannot load ${filePath}: TypeScript config files are not supported, use prd-zero.config.mjs`);
+    }
+    if (MODULE_EXTENSIONS.includes(extension)) {
+      const module = await import(pathToFileURL(filePath).href);
+      return module.default ?? module;
+    }
+
+    // A bare .prdzerorc may be JSON or YAML; YAML parses both
+    if (extension === '.json') {
+      return FileSystem.loadDataFile<unknown>(filePath);
+    }
+    try {
+      return YAML.parse(await FileSystem.readFile(filePath));
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { PRDData, ProjectEconomics } from '../types/index.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { Validator } from '../validators/index.js';
+import { ProjectEconomicsSchema } from '../validators/schemas.js';
+import { ProjectConfig } from './projectConfig.js';
+import { StackRecommendationService } from './stackRecommendation.js';
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+export interface BudgetLine {
+  category: string;
+  amount: number;
+  basis: string;
+}
+
+export interface BudgetEstimate {
+  lines: BudgetLine[];
+  total: number;
+  assumptions: string[];
+}
+
+/**
+ * Loads the project economics config and turns it into budget estimates
+ */
+export class ProjectEconomicsService {
+  static defaults(): ProjectEconomics {
+    return ProjectEconomicsSchema.parse({});
+  }
+
+  /**
+   * Read a YAML or JSON economics file; omitted fields keep their defaults.
+   * Without a file the economics of the project config apply.
+   */
+  static async load(filePath?: string): Promise<ProjectEconomics> {
+    const source = filePath ?? ProjectConfig.get().economics;
+    if (!source) {
+      return this.defaults();
+    }
+    const economics = typeof source === 'string'
+      ? Validator.validate(ProjectEconomicsSchema, await FileSystem.loadDataFile<unknown>(source))
+      : source;
+    if (economics.stack) {
+      // Fail before a planning session rather than when the roadmap is generated
+      StackRecommendationService.findStack({}, economics.stack);
+    }
+    return economics;
+  }
+
+  /**
+   * Development, infrastructure and marketing cost over the timeline.
+   * `scheduledHoursPerWeek` applies when the config sets no hours of its own.
+   */
+  static estimateBudget(data: PRDData, economics: ProjectEconomics, scheduledHoursPerWeek: number): BudgetEstimate {
+    const weeks = data.timeline.totalWeeks;
+    const months = weeks / WEEKS_PER_MONTH;
+    const hoursPerWeek = economics.hoursPerWeek ?? scheduledHoursPerWeek;
+
+    const lines: BudgetLine[] = [{
+      category: 'Development',
+      amount: Math.round(economics.hourlyRate * hoursPerWeek * weeks),
+      basis: `${weeks} weeks × ${hoursPerWeek} h/week × ${formatCurrency(economics.hourlyRate)}/h`,
+    }];
+    const assumptions = [
+      `Development billed at ${formatCurrency(economics.hourlyRate)}/hour for ${hoursPerWeek} hours per week`,
+    ];
+
+    if (economics.infrastructure) {
+      economics.infrastructure.forEach(item => lines.push({
+        category: `Infrastructure: ${item.name}`,
+        amount: Math.round(item.monthlyCost * months),
+        basis: `${formatCurrency(item.monthlyCost)}/month × ${months.toFixed(1)} months`,
+      }));
+      assumptions.push('Infrastructure line items from the economics config');
+    } else {
+      const matched = StackRecommendationService.findStack(data.techStack, economics.stack);
+      const stack = matched ?? StackRecommendationService.getDefaultStack();
+      const monthlyCost = stack.scores.monthly_cost_1000_users;
+      lines.push({
+        category: `Infrastructure: ${stack.technologies.hosting}`,
+        amount: Math.round(monthlyCost * months),
+        basis: `${formatCurrency(monthlyCost)}/month × ${months.toFixed(1)} months`,
+      });
+      assumptions.push(matched
+        ? `Hosting costs of ${stack.name} at 1,000 users`
+        : `No proven stack matches the tech stack; hosting priced as ${stack.name} at 1,000 users`);
+    }
+
+    lines.push({
+      category: 'Marketing',
+      amount: Math.round(economics.marketingMonthly * months),
+      basis: `${formatCurrency(economics.marketingMonthly)}/month × ${months.toFixed(1)} months`,
+    });
+    assumptions.push(`Marketing spend of ${formatCurrency(economics.marketingMonthly)} per month`);
+
+    return {
+      lines,
+      total: lines.reduce((sum, line) => sum + line.amount, 0),
+      assumptions,
+    };
+  }
+}
+
+export function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
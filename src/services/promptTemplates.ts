@@ -4,6 +4,7 @@
 
 import { QuestionType } from './questionTypeDetector.js';
 import { Warning } from '../types/ai.js';
+import { ProjectConfig } from './projectConfig.js';
 
 export type Language = 'de' | 'en';
 
@@ -11,7 +12,7 @@ export class PromptTemplates {
   private static readonly SYSTEM_PROMPTS: Record<Language, string> = {
     de: `Du bist ein erfahrener Solo-Entwickler-Coach mit 10+ Jahren Erfahrung beim Launchen erfolgreicher MVPs. Du kennst die typischen Fallen: Analysis Paralysis (70% der Solo-MVPs scheitern daran), Feature Creep, Over-Engineering, und unrealistische Timelines. 
 
-Deine Expertise basiert auf Research erfolgreicher Solo-Entwickler wie Pieter Levels ($170k/Monat) und den Lean Startup-Prinzipien. Du enforcest strikt: max 3 Features, max 12 Wochen Timeline, max 2 Innovation Tokens, Validation vor Development.
+Deine Expertise basiert auf Research erfolgreicher Solo-Entwickler wie Pieter Levels ($170k/Monat) und den Lean Startup-Prinzipien. Du enforcest strikt: max {maxFeatures} Features, max {maxTimelineWeeks} Wochen Timeline, max {maxInnovationTokens} Innovation Tokens, Validation vor Development.
 
 WICHTIG: Wenn ein JSON-Format angefordert wird, antworte NUR mit dem JSON-Objekt. Kein Text davor oder danach.
 
@@ -19,7 +20,7 @@ Antworte auf Deutsch. Sei direkt aber konstruktiv. Fokus auf Prevention der typi
     
     en: `You are an experienced solo developer coach with 10+ years of experience launching successful MVPs. You know the typical traps: Analysis Paralysis (70% of solo MVPs fail from this), Feature Creep, Over-Engineering, and unrealistic timelines.
 
-Your expertise is based on research of successful solo developers like Pieter Levels ($170k/month) and Lean Startup principles. You strictly enforce: max 3 features, max 12 weeks timeline, max 2 innovation tokens, validation before development.
+Your expertise is based on research of successful solo developers like Pieter Levels ($170k/month) and Lean Startup principles. You strictly enforce: max {maxFeatures} features, max {maxTimelineWeeks} weeks timeline, max {maxInnovationTokens} innovation tokens, validation before development.
 
 IMPORTANT: When a JSON format is requested, respond ONLY with the JSON object. No text before or after.
 
@@ -212,10 +213,10 @@ QUESTION_TYPE: "mvp_feature_count"
 Als Solo-Entwickler-Coach, bewerte diese Feature-Anzahl für den MVP:
 
 OPTIMALE MVP-GRÖSSE:
-- 3 Features = Ideal für Solo-Developer (empfohlen)
+- {maxFeatures} Features = Ideal für Solo-Developer (empfohlen)
 - 4-5 Features = Noch machbar, aber riskant
 - >5 Features = Zu viel, Scope Creep garantiert
-- <3 Features = Möglicherweise zu wenig Value
+- <{maxFeatures} Features = Möglicherweise zu wenig Value
 
 RED FLAGS:
 - Mehr als 5 Features geplant
@@ -250,10 +251,10 @@ QUESTION_TYPE: "mvp_feature_count"
 As a solo developer coach, evaluate this feature count for the MVP:
 
 OPTIMAL MVP SIZE:
-- 3 features = Ideal for solo developer (recommended)
+- {maxFeatures} features = Ideal for solo developer (recommended)
 - 4-5 features = Still manageable, but risky
 - >5 features = Too much, scope creep guaranteed
-- <3 features = Possibly insufficient value
+- <{maxFeatures} features = Possibly insufficient value
 
 RED FLAGS:
 - More than 5 features planned
@@ -429,19 +430,19 @@ QUESTION_TYPE: "mvp_scope"
 Als Solo-Entwickler-Coach, prüfe den MVP-Scope gegen Scope-Creep:
 
 HARD LIMITS (CRITICAL wenn überschritten):
-- Exakt 3 Features für MVP (mehr = automatisches CRITICAL)
+- Exakt {maxFeatures} Features für MVP (mehr = automatisches CRITICAL)
 - User Story Format: "Als X möchte ich Y um Z"
 - Jedes Feature muss Kern-Problem lösen
 
 RED FLAGS:
-- >3 Features erwähnt
+- >{maxFeatures} Features erwähnt
 - Vage Feature-Beschreibungen
 - "Nice-to-Have" Features im MVP
 - Features die nicht das Kern-Problem lösen
 - Fehlende "Won't Have"-Liste
 
 SCOPE PROTECTION:
-- Alles über 3 Features → "Version 2" Parking Lot
+- Alles über {maxFeatures} Features → "Version 2" Parking Lot
 - Feature Effort Estimation (XS/S/M/L/XL)  
 - MVP Definition: minimal viable, nicht minimal lovable
 
@@ -458,8 +459,8 @@ Gib zurück:
   ],
   "feature_count": X,
   "scope_violation": true/false,
-  "suggestion": "3 fokussierte Features in User Story Format",
-  "parking_lot": ["Alle Features >3 hier"],
+  "suggestion": "{maxFeatures} fokussierte Features in User Story Format",
+  "parking_lot": ["Alle Features >{maxFeatures} hier"],
   "next_actions": ["Scope-Commitment unterschreiben", "Effort schätzen pro Feature"]
 }`,
       en: `QUESTION: "{question}"
@@ -469,19 +470,19 @@ QUESTION_TYPE: "mvp_scope"
 As a solo developer coach, check the MVP scope for scope creep:
 
 HARD LIMITS (CRITICAL if exceeded):
-- Exactly 3 features for MVP (more = automatic CRITICAL)
+- Exactly {maxFeatures} features for MVP (more = automatic CRITICAL)
 - User story format: "As X I want Y so that Z"
 - Each feature must solve core problem
 
 RED FLAGS:
-- >3 features mentioned
+- >{maxFeatures} features mentioned
 - Vague feature descriptions
 - "Nice-to-have" features in MVP
 - Features that don't solve core problem
 - Missing "Won't Have" list
 
 SCOPE PROTECTION:
-- Everything over 3 features → "Version 2" Parking Lot
+- Everything over {maxFeatures} features → "Version 2" Parking Lot
 - Feature Effort Estimation (XS/S/M/L/XL)
 - MVP Definition: minimal viable, not minimal lovable
 
@@ -498,8 +499,8 @@ Return:
   ],
   "feature_count": X,
   "scope_violation": true/false,
-  "suggestion": "3 focused features in user story format",
-  "parking_lot": ["All features >3 here"],
+  "suggestion": "{maxFeatures} focused features in user story format",
+  "parking_lot": ["All features >{maxFeatures} here"],
   "next_actions": ["Sign scope commitment", "Estimate effort per feature"]
 }`
     },
@@ -551,7 +552,7 @@ BORING TECH BIAS:
 - Skills-First > Requirements-First
 
 RED FLAGS:
-- >2 Innovation Tokens
+- >{maxInnovationTokens} Innovation Tokens
 - Microservices für MVP
 - "Ich lerne nebenbei X" für kritische Komponenten
 - Over-Engineering für <1000 Users
@@ -660,7 +661,7 @@ BORING TECH BIAS:
 - Skills-first > Requirements-first
 
 RED FLAGS:
-- >2 innovation tokens
+- >{maxInnovationTokens} innovation tokens
 - Microservices for MVP
 - "I'll learn X on the side" for critical components
 - Over-engineering for <1000 users
@@ -733,7 +734,7 @@ QUESTION_TYPE: "launch_plan"
 Als Solo-Entwickler-Coach, bewerte Realismus der Launch-Strategie:
 
 TIMELINE CONSTRAINTS (CRITICAL wenn überschritten):
-- Max 12 Wochen vom Start bis Launch
+- Max {maxTimelineWeeks} Wochen vom Start bis Launch
 - Validation Gates VOR Development
 - Fixed Time, Variable Scope (nicht umgekehrt)
 
@@ -743,7 +744,7 @@ VALIDATION-FIRST CHECK:
 - Payment Intent vor Full Development
 
 RED FLAGS:
-- >12 Wochen Timeline
+- >{maxTimelineWeeks} Wochen Timeline
 - "Build first, validate later" Mentalität  
 - Vage Marketing-Kanäle ("Social Media")
 - Unrealistic Pricing ohne Market Research
@@ -768,7 +769,7 @@ Gib zurück:
   "timeline_weeks": X,
   "timeline_violation": true/false,
   "validation_gates_missing": ["Welche Gates fehlen"],
-  "suggestion": "Realistischer 12-Wochen-Plan",
+  "suggestion": "Realistischer {maxTimelineWeeks}-Wochen-Plan",
   "next_actions": ["5 Customer Interviews planen", "Landing Page erstellen", "Validation Gates definieren"],
   "realism_score": 1-10
 }`,
@@ -779,7 +780,7 @@ QUESTION_TYPE: "launch_plan"
 As a solo developer coach, evaluate launch strategy realism:
 
 TIMELINE CONSTRAINTS (CRITICAL if exceeded):
-- Max 12 weeks from start to launch
+- Max {maxTimelineWeeks} weeks from start to launch
 - Validation gates BEFORE development
 - Fixed time, variable scope (not vice versa)
 
@@ -789,7 +790,7 @@ VALIDATION-FIRST CHECK:
 - Payment intent before full development
 
 RED FLAGS:
-- >12 weeks timeline
+- >{maxTimelineWeeks} weeks timeline
 - "Build first, validate later" mentality
 - Vague marketing channels ("social media")
 - Unrealistic pricing without market research
@@ -814,7 +815,7 @@ Return:
   "timeline_weeks": X,
   "timeline_violation": true/false,
   "validation_gates_missing": ["Which gates are missing"],
-  "suggestion": "Realistic 12-week plan",
+  "suggestion": "Realistic {maxTimelineWeeks}-week plan",
   "next_actions": ["Plan 5 customer interviews", "Create landing page", "Define validation gates"],
   "realism_score": 1-10
 }`
@@ -902,7 +903,7 @@ Return the improved answer directly without prefix. Make it concrete, actionable
    * Get system prompt for language
    */
   public static getSystemPrompt(language: Language): string {
-    return this.SYSTEM_PROMPTS[language];
+    return this.applyScopePolicy(this.SYSTEM_PROMPTS[language]);
   }
 
   /**
@@ -934,7 +935,7 @@ Return the improved answer directly without prefix. Make it concrete, actionable
       template = template.replace('{contextHistory}\n', '').replace('{contextHistory}', '');
     }
     
-    return template
+    return this.applyScopePolicy(template)
       .replace('{question}', question)
       .replace('{answer}', answer);
   }
@@ -950,7 +951,7 @@ Return the improved answer directly without prefix. Make it concrete, actionable
     warnings: Warning[],
     contextHistory?: string
   ): string {
-    const contextRequirements = this.getContextSpecificRequirements(questionType, language);
+    const contextRequirements = this.applyScopePolicy(this.getContextSpecificRequirements(questionType, language));
     
     let prompt = this.IMPROVEMENT_PROMPTS[language];
     
@@ -962,7 +963,7 @@ Return the improved answer directly without prefix. Make it concrete, actionable
       prompt = contextSection + prompt;
     }
     
-    return prompt
+    return this.applyScopePolicy(prompt)
       .replace('{question}', question)
       .replace('{answer}', answer)
       .replace('{questionType}', questionType)
@@ -970,6 +971,18 @@ Return the improved answer directly without prefix. Make it concrete, actionable
       .replace('{contextSpecificRequirements}', contextRequirements);
   }
 
+  /**
+   * Fill in the limits of the project's scope policy
+   */
+  private static applyScopePolicy(template: string): string {
+    const policy = ProjectConfig.getScopePolicy();
+    return template
+      .replace(/\{maxFeatures\}/g, String(policy.maxFeatures))
+      .replace(/\{maxTimelineWeeks\}/g, String(policy.maxTimelineWeeks))
+      .replace(/\{maxInnovationTokens\}/g, String(policy.maxInnovationTokens))
+      .replace(/\{maxFrameworks\}/g, String(policy.maxFrameworks));
+  }
+
   /**
    * Get context-specific requirements for improvement
    */
@@ -1020,41 +1033,41 @@ Return the improved answer directly without prefix. Make it concrete, actionable
       },
       [QuestionType.MVP_FEATURE_COUNT]: {
         de: `CONTEXT-SPEZIFISCHE VERBESSERUNG:
-- Ideale Anzahl: 3 Features für Solo-Developer
+- Ideale Anzahl: {maxFeatures} Features für Solo-Developer
 - Klare Scope-Limitierung
 - Realistische Umsetzung`,
         en: `CONTEXT-SPECIFIC IMPROVEMENT:
-- Ideal count: 3 features for solo developer
+- Ideal count: {maxFeatures} features for solo developer
 - Clear scope limitation
 - Realistic implementation`
       },
       [QuestionType.MVP_SCOPE]: {
         de: `CONTEXT-SPEZIFISCHE VERBESSERUNG:
-- Exakt 3 Features in User Story Format
+- Exakt {maxFeatures} Features in User Story Format
 - Parking Lot für alle anderen Features
 - Klare Won't-Have-Liste`,
         en: `CONTEXT-SPECIFIC IMPROVEMENT:
-- Exactly 3 features in user story format
+- Exactly {maxFeatures} features in user story format
 - Parking lot for all other features
 - Clear won't-have list`
       },
       [QuestionType.TECH_STACK]: {
         de: `CONTEXT-SPEZIFISCHE VERBESSERUNG:
-- Max 2 Innovation Tokens
+- Max {maxInnovationTokens} Innovation Tokens
 - Boring Tech Recommendations
 - Skills-basierte Entscheidungen`,
         en: `CONTEXT-SPECIFIC IMPROVEMENT:
-- Max 2 innovation tokens
+- Max {maxInnovationTokens} innovation tokens
 - Boring tech recommendations
 - Skills-based decisions`
       },
       [QuestionType.LAUNCH_PLAN]: {
         de: `CONTEXT-SPEZIFISCHE VERBESSERUNG:
-- Max 12 Wochen Timeline
+- Max {maxTimelineWeeks} Wochen Timeline
 - Validation Gates vor Development
 - Realistische Go-to-Market Strategie`,
         en: `CONTEXT-SPECIFIC IMPROVEMENT:
-- Max 12 weeks timeline
+- Max {maxTimelineWeeks} weeks timeline
 - Validation gates before development
 - Realistic go-to-market strategy`
       },
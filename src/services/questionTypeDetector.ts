@@ -2,6 +2,8 @@
  * Question Type Detection System for specialized AI prompts
  */
 
+import { ProjectConfig } from './projectConfig.js';
+
 export enum QuestionType {
   PROJECT_NAME = 'project_name',
   PROJECT_DESCRIPTION = 'project_description',
@@ -196,7 +198,7 @@ export class QuestionTypeDetector {
       
       case QuestionType.MVP_SCOPE:
         return [
-          'Exactly 3 features maximum',
+          `Exactly ${ProjectConfig.getScopePolicy().maxFeatures} features maximum`,
           'User story format',
           'Clear won\'t-have list',
           'Features directly solve core problem'
@@ -204,7 +206,7 @@ export class QuestionTypeDetector {
       
       case QuestionType.TECH_STACK:
         return [
-          'Maximum 2 innovation tokens',
+          `Maximum ${ProjectConfig.getScopePolicy().maxInnovationTokens} innovation tokens`,
           'Boring tech preference',
           'Skills-based decisions',
           'Monolith over microservices for MVP'
@@ -212,7 +214,7 @@ export class QuestionTypeDetector {
       
       case QuestionType.LAUNCH_PLAN:
         return [
-          'Maximum 12 weeks timeline',
+          `Maximum ${ProjectConfig.getScopePolicy().maxTimelineWeeks} weeks timeline`,
           'Validation gates before development',
           'Realistic go-to-market strategy',
           'Measurable launch metrics'
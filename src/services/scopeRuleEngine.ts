@@ -0,0 +1,230 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  FieldPredicate,
+  LocalizedKeywords,
+  ScopeFacts,
+  ScopeRule,
+  ScopeRuleCategory,
+  ScopeRuleFinding,
+  ScopeRuleLanguage,
+  ScopeRuleMatcher,
+} from '../types/scopeRules.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { detectLanguage, findKeywords, stemWord, tokenize } from '../utils/language.js';
+import { Logger } from '../utils/logger.js';
+import { Validator } from '../validators/index.js';
+import { ScopeRuleFileSchema, ScopeRuleSchema } from '../validators/schemas.js';
+import { BUILTIN_SCOPE_RULES } from '../validators/scopeRules.js';
+import { ProjectConfig } from './projectConfig.js';
+
+const RULE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+interface MatchResult {
+  matches: string[];
+  count: number;
+}
+
+/**
+ * Scope-protection rules: the built-in set plus user rule files in
+ * ~/.prd-zero/rules (or $PRD_ZERO_HOME/rules) and the project config
+ */
+export class ScopeRuleEngine {
+  private static rules: ScopeRule[] = builtinRules();
+
+  static getDirectory(): string {
+    const home = process.env.PRD_ZERO_HOME || path.join(os.homedir(), '.prd-zero');
+    return path.join(home, 'rules');
+  }
+
+  /**
+   * Apply the user's rule files, then `files`, on top of the built-in rules.
+   * Entries with a known id override that rule's fields, new ids add rules.
+   */
+  static async load(files: string[] = []): Promise<ScopeRule[]> {
+    const dir = this.getDirectory();
+    const userFiles = (await FileSystem.fileExists(dir))
+      ? (await fs.readdir(dir))
+        .filter(file => RULE_FILE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort()
+        .map(file => path.join(dir, file))
+      : [];
+
+    let rules = builtinRules();
+    for (const file of [...userFiles, ...files]) {
+      rules = await this.applyFile(rules, file);
+    }
+
+    this.rules = rules;
+    return rules;
+  }
+
+  /**
+   * Active rules; disabled ones only when asked for
+   */
+  static getRules(includeDisabled: boolean = false): ScopeRule[] {
+    return this.rules.filter(rule => includeDisabled || rule.enabled !== false);
+  }
+
+  static evaluate(category: ScopeRuleCategory, facts: ScopeFacts): ScopeRuleFinding[] {
+    return this.getRules()
+      .filter(rule => rule.category === category)
+      .flatMap(rule => {
+        const finding = evaluateRule(rule, facts);
+        return finding ? [finding] : [];
+      });
+  }
+
+  private static async applyFile(rules: ScopeRule[], file: string): Promise<ScopeRule[]> {
+    let ruleFile: z.infer<typeof ScopeRuleFileSchema>;
+    try {
+      ruleFile = Validator.validate(ScopeRuleFileSchema, await FileSystem.loadDataFile<unknown>(file));
+    } catch (error) {
+      throw new Error(`Invalid rule file ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const byId = new Map(rules.map(rule => [rule.id, rule]));
+
+    ruleFile.rules.forEach(entry => {
+      const existing = byId.get(entry.id);
+      if (existing) {
+        const { source, ...definition } = existing;
+        const rule = ScopeRuleSchema.safeParse({ ...definition, ...entry });
+        if (!rule.success) {
+          throw new Error(`Rule "${entry.id}" in ${file} makes the ${source} rule invalid (${describeIssues(rule.error)})`);
+        }
+        byId.set(entry.id, { ...rule.data, source: file });
+        return;
+      }
+
+      const rule = ScopeRuleSchema.safeParse(entry);
+      if (!rule.success) {
+        throw new Error(`Rule "${entry.id}" in ${file} is not a built-in rule, so it needs a complete definition (${describeIssues(rule.error)})`);
+      }
+      byId.set(entry.id, { ...rule.data, source: file });
+    });
+
+    ruleFile.disable.forEach(id => {
+      const rule = byId.get(id);
+      if (!rule) {
+        Logger.warning(`Unknown rule "${id}" in the disable list of ${file}`);
+        return;
+      }
+      byId.set(id, { ...rule, enabled: false, source: file });
+    });
+
+    return [...byId.values()];
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => issue.path.join('.') || issue.message).join(', ');
+}
+
+function builtinRules(): ScopeRule[] {
+  return BUILTIN_SCOPE_RULES.map(rule => ({ ...rule, source: 'built-in' }));
+}
+
+function evaluateRule(rule: ScopeRule, facts: ScopeFacts): ScopeRuleFinding | null {
+  if (rule.when && !rule.when.every(predicate => testPredicate(predicate, facts))) {
+    return null;
+  }
+
+  const result = matchRule(rule.match, facts);
+  if (!result) {
+    return null;
+  }
+
+  const score = rule.score ?? 0;
+  return {
+    ruleId: rule.id,
+    severity: rule.severity,
+    message: rule.message
+      .replace(/\{matches\}/g, result.matches.join(', '))
+      .replace(/\{feature\}/g, facts.feature ?? ''),
+    suggestion: rule.suggestion,
+    matches: result.matches,
+    score: rule.perMatch ? score * result.count : score,
+  };
+}
+
+function matchRule(matcher: ScopeRuleMatcher, facts: ScopeFacts): MatchResult | null {
+  if ('field' in matcher) {
+    return testPredicate(matcher, facts) ? { matches: [String(facts[matcher.field])], count: 1 } : null;
+  }
+
+  const fact = facts[matcher.in];
+  if (fact === undefined) {
+    return null;
+  }
+  const isList = Array.isArray(fact);
+  const texts = isList ? fact : [fact];
+
+  if ('regex' in matcher) {
+    const pattern = new RegExp(matcher.regex, matcher.flags ?? 'i');
+    const matches = texts
+      .map(item => pattern.exec(item)?.[0])
+      .filter((match): match is string => match !== undefined);
+    return matches.length > 0 ? { matches, count: matches.length } : null;
+  }
+
+  const language = facts.language ?? detectLanguage(texts.join('\n'), ProjectConfig.get().ai.language);
+  const find = (text: string, keywords: string[] | LocalizedKeywords): string[] =>
+    uniqueTerms(localize(keywords, language).flatMap(([lang, list]) => findKeywords(text, list, lang)));
+
+  const exclude = matcher.exclude;
+  if (exclude && texts.some(text => find(text, exclude).length > 0)) {
+    return null;
+  }
+
+  const found = texts.map(text => find(text, matcher.keywords));
+  const matches = [...new Set(found.flat())];
+  // Lists count matching items (two databases), single texts count keywords
+  const count = isList ? found.filter(list => list.length > 0).length : matches.length;
+
+  return count >= (matcher.minMatches ?? 1) ? { matches, count } : null;
+}
+
+// Plain lists apply to any language; German text also gets the English list
+function localize(
+  keywords: string[] | LocalizedKeywords,
+  language: ScopeRuleLanguage
+): Array<[ScopeRuleLanguage, string[]]> {
+  if (Array.isArray(keywords)) {
+    return [[language, keywords]];
+  }
+  return language === 'de'
+    ? [['de', keywords.de ?? []], ['en', keywords.en ?? []]]
+    : [['en', keywords.en ?? []]];
+}
+
+// "Filter" and "filtering" or "E-Mail" and "email" are one term, counted once
+function uniqueTerms(keywords: string[]): string[] {
+  const seen = new Set<string>();
+  return keywords.filter(keyword => {
+    const term = stemWord(tokenize(keyword).join(''), 'en');
+    if (seen.has(term)) {
+      return false;
+    }
+    seen.add(term);
+    return true;
+  });
+}
+
+function testPredicate(predicate: FieldPredicate, facts: ScopeFacts): boolean {
+  const value = facts[predicate.field];
+  if (value === undefined || Number.isNaN(value)) {
+    return false;
+  }
+
+  switch (predicate.op) {
+    case '<': return value < predicate.value;
+    case '<=': return value <= predicate.value;
+    case '>': return value > predicate.value;
+    case '>=': return value >= predicate.value;
+    case '==': return value === predicate.value;
+    case '!=': return value !== predicate.value;
+  }
+}
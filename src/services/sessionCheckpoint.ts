@@ -0,0 +1,186 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import chalk from 'chalk';
+import { v4 as uuidv4 } from 'uuid';
+import type { AIMode, PRDData, SessionCheckpoint, SessionSettings, SessionType } from '../types/index.js';
+import type { AIEnhancedQuestions } from '../questions/aiEnhanced.js';
+import type { SessionTimer } from '../utils/timer.js';
+import { SessionCheckpointSchema } from '../validators/schemas.js';
+import { Validator } from '../validators/index.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { Logger } from '../utils/logger.js';
+
+export const CHECKPOINT_FILE_NAME = 'session.json';
+
+// All questions answered; validation and document generation are still open
+const GENERATING_STEP = 'generating';
+
+/**
+ * Persists the planning session after every answered question so that
+ * a crashed or closed terminal can be resumed with `prd-zero resume`.
+ */
+export class SessionCheckpointService {
+  private checkpoint: SessionCheckpoint;
+  private timer: SessionTimer | null = null;
+  private aiFlow: AIEnhancedQuestions | null = null;
+  private totalSteps = 0;
+
+  private constructor(checkpoint: SessionCheckpoint) {
+    this.checkpoint = checkpoint;
+  }
+
+  /**
+   * Start a fresh checkpoint for a new session
+   */
+  static create(setup: {
+    id?: string;
+    sessionType: SessionType;
+    aiMode: AIMode;
+    outputDir: string;
+    timeLimit: number;
+    settings: SessionSettings;
+  }): SessionCheckpointService {
+    const now = new Date();
+    return new SessionCheckpointService({
+      id: setup.id || uuidv4(),
+      startTime: now,
+      lastUpdate: now,
+      progress: 0,
+      currentStep: 'start',
+      data: {},
+      sessionType: setup.sessionType,
+      aiMode: setup.aiMode,
+      outputDir: setup.outputDir,
+      timeLimit: setup.timeLimit,
+      elapsedMinutes: 0,
+      answers: {},
+      settings: setup.settings,
+    });
+  }
+
+  /**
+   * Load and validate a checkpoint file (or a session directory containing one)
+   */
+  static async load(sessionPath: string): Promise<SessionCheckpointService> {
+    const filePath = sessionPath.endsWith('.json')
+      ? sessionPath
+      : path.join(sessionPath, CHECKPOINT_FILE_NAME);
+
+    if (!(await FileSystem.fileExists(filePath))) {
+      throw new Error(`No session checkpoint found at ${filePath}`);
+    }
+
+    const raw = await FileSystem.loadJSON<unknown>(filePath);
+    const checkpoint: SessionCheckpoint = Validator.validate(SessionCheckpointSchema, raw);
+
+    // Keep writing next to the checkpoint, even if the session folder was moved
+    checkpoint.outputDir = path.dirname(filePath);
+
+    return new SessionCheckpointService(checkpoint);
+  }
+
+  /**
+   * Attach the live timer and AI flow whose state is captured on every save
+   */
+  attach(timer: SessionTimer, aiFlow: AIEnhancedQuestions): void {
+    this.timer = timer;
+    this.aiFlow = aiFlow;
+  }
+
+  setTotalSteps(total: number): void {
+    this.totalSteps = total;
+  }
+
+  getCheckpoint(): SessionCheckpoint {
+    return { ...this.checkpoint };
+  }
+
+  getFilePath(): string {
+    return path.join(this.checkpoint.outputDir, CHECKPOINT_FILE_NAME);
+  }
+
+  getAnsweredCount(): number {
+    return Object.keys(this.checkpoint.answers).length;
+  }
+
+  isCompleted(): boolean {
+    return this.checkpoint.currentStep === 'completed';
+  }
+
+  isGenerating(): boolean {
+    return this.checkpoint.currentStep === GENERATING_STEP;
+  }
+
+  /**
+   * Run a question step, or return its saved answer when resuming
+   */
+  async step<T>(key: string, ask: () => Promise<T>): Promise<T> {
+    if (key in this.checkpoint.answers) {
+      Logger.info(chalk.gray(`↺ ${key}: restored from checkpoint`));
+      return this.checkpoint.answers[key] as T;
+    }
+
+    const answer = await ask();
+    this.checkpoint.answers[key] = answer;
+    this.checkpoint.currentStep = key;
+    await this.save();
+
+    return answer;
+  }
+
+  /**
+   * Record a completed PRD section
+   */
+  async recordSection<K extends keyof PRDData>(section: K, value: PRDData[K]): Promise<void> {
+    this.checkpoint.data = { ...this.checkpoint.data, [section]: value };
+    await this.save();
+  }
+
+  /**
+   * Save the answered plan before validation and document generation.
+   * The session stays resumable until the documents are written.
+   */
+  async startGenerating(data: PRDData): Promise<void> {
+    this.checkpoint.data = data;
+    this.checkpoint.currentStep = GENERATING_STEP;
+    await this.save();
+  }
+
+  /**
+   * Mark the session as completed once its documents have been saved
+   */
+  async complete(data: PRDData): Promise<void> {
+    this.checkpoint.data = data;
+    this.checkpoint.currentStep = 'completed';
+    this.checkpoint.progress = 100;
+    await this.save();
+  }
+
+  /**
+   * Write the checkpoint to disk. Failures are reported but never abort the session.
+   */
+  async save(): Promise<void> {
+    this.checkpoint.lastUpdate = new Date();
+
+    if (this.timer) {
+      this.checkpoint.elapsedMinutes = Number(this.timer.getElapsedMinutes().toFixed(2));
+    }
+
+    if (this.totalSteps > 0 && this.checkpoint.currentStep !== 'completed') {
+      this.checkpoint.progress = Math.min(99, Math.round((this.getAnsweredCount() / this.totalSteps) * 100));
+    }
+
+    if (this.aiFlow) {
+      this.checkpoint.contextMemory = this.aiFlow.getContextMemory().export();
+      this.checkpoint.aiMetrics = this.aiFlow.getAIService().getUsageMetrics();
+    }
+
+    try {
+      await FileSystem.ensureDirectory(this.checkpoint.outputDir);
+      await fs.writeFile(this.getFilePath(), JSON.stringify(this.checkpoint, null, 2), 'utf-8');
+      Logger.debug(`Checkpoint saved: ${this.getFilePath()}`);
+    } catch (error) {
+      Logger.warning(`Failed to save session checkpoint: ${error}`);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { TechStack } from '../types/index.js';
+
 /**
  * Stack Recommendation Service for Solo Developers
  * Based on proven success stories and research
@@ -251,6 +253,39 @@ export class StackRecommendationService {
     return recommendations.slice(0, 3);
   }
 
+  /**
+   * The safest choice when nothing else is known
+   */
+  public static getDefaultStack(): StackOption {
+    return this.PROVEN_STACKS[0];
+  }
+
+  /**
+   * Proven stack by name, or the one sharing the most technologies with the
+   * PRD tech stack. Undefined when nothing matches.
+   */
+  public static findStack(techStack: TechStack, name?: string): StackOption | undefined {
+    if (name) {
+      const stack = this.PROVEN_STACKS.find(option => option.name.toLowerCase() === name.trim().toLowerCase());
+      if (!stack) {
+        throw new Error(`Unknown stack "${name}". Available: ${this.PROVEN_STACKS.map(option => option.name).join(', ')}`);
+      }
+      return stack;
+    }
+
+    const technologies = Object.values(techStack).flat().filter((tech): tech is string => typeof tech === 'string');
+    let best: StackOption | undefined;
+    let bestScore = 0;
+    for (const stack of this.PROVEN_STACKS) {
+      const score = this.countMatchingSkills(technologies, stack);
+      if (score > bestScore) {
+        best = stack;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
   /**
    * Count how many user skills match the stack
    */
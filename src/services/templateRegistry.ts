@@ -0,0 +1,169 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BUILTIN_TEMPLATES, PRDGenerator } from '../generators/prd.js';
+import { FileSystem } from '../utils/fileSystem.js';
+
+export interface TemplateInfo {
+  name: string;
+  description: string;
+  source: 'builtin' | 'user';
+  path?: string;
+}
+
+interface RegistryConfig {
+  default?: string;
+}
+
+const TEMPLATE_EXTENSION = '.hbs';
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+// A leading Handlebars comment is shown as the template description
+const DESCRIPTION_PATTERN = /^\s*\{\{!(?:--)?\s*([\s\S]*?)\s*(?:--)?\}\}/;
+
+/**
+ * PRD templates: the built-in ones plus user templates stored as
+ * `<name>.hbs` in ~/.prd-zero/templates (or $PRD_ZERO_HOME/templates)
+ */
+export class TemplateRegistry {
+  static getDirectory(): string {
+    const home = process.env.PRD_ZERO_HOME || path.join(os.homedir(), '.prd-zero');
+    return path.join(home, 'templates');
+  }
+
+  static async list(): Promise<TemplateInfo[]> {
+    const builtin: TemplateInfo[] = Object.entries(BUILTIN_TEMPLATES).map(([name, template]) => ({
+      name,
+      description: template.description,
+      source: 'builtin',
+    }));
+
+    const dir = this.getDirectory();
+    if (!(await FileSystem.fileExists(dir))) {
+      return builtin;
+    }
+
+    const files = (await fs.readdir(dir)).filter(file => file.endsWith(TEMPLATE_EXTENSION)).sort();
+    const user = await Promise.all(files.map(async (file): Promise<TemplateInfo> => {
+      const filePath = path.join(dir, file);
+      const content = await FileSystem.readFile(filePath);
+      return {
+        name: path.basename(file, TEMPLATE_EXTENSION),
+        description: DESCRIPTION_PATTERN.exec(content)?.[1] || 'Custom template',
+        source: 'user',
+        path: filePath,
+      };
+    }));
+
+    return [...builtin, ...user];
+  }
+
+  /**
+   * Template source by name
+   */
+  static async load(name: string): Promise<string> {
+    if (Object.hasOwn(BUILTIN_TEMPLATES, name)) {
+      return BUILTIN_TEMPLATES[name].content;
+    }
+
+    this.checkName(name);
+    const filePath = this.getTemplatePath(name);
+    if (!(await FileSystem.fileExists(filePath))) {
+      const available = (await this.list()).map(template => template.name).join(', ');
+      throw new Error(`Unknown template "${name}". Available: ${available}`);
+    }
+    return FileSystem.readFile(filePath);
+  }
+
+  /**
+   * Template source for an explicit name, or the configured default
+   */
+  static async resolve(name?: string): Promise<string> {
+    return this.load(name || await this.getDefault());
+  }
+
+  /**
+   * Validate a template file and copy it into the registry
+   */
+  static async add(sourcePath: string, name?: string): Promise<TemplateInfo> {
+    const templateName = (name || path.basename(sourcePath, path.extname(sourcePath))).toLowerCase();
+
+    this.checkName(templateName);
+    if (Object.hasOwn(BUILTIN_TEMPLATES, templateName)) {
+      throw new Error(`"${templateName}" is a built-in template. Choose another name with --name.`);
+    }
+
+    const content = await FileSystem.readFile(sourcePath);
+    const error = PRDGenerator.validateTemplate(content);
+    if (error) {
+      throw new Error(`Template ${sourcePath} is invalid: ${error}`);
+    }
+
+    const filePath = this.getTemplatePath(templateName);
+    await FileSystem.writeFile(filePath, content);
+
+    return {
+      name: templateName,
+      description: DESCRIPTION_PATTERN.exec(content)?.[1] || 'Custom template',
+      source: 'user',
+      path: filePath,
+    };
+  }
+
+  static async remove(name: string): Promise<void> {
+    if (Object.hasOwn(BUILTIN_TEMPLATES, name)) {
+      throw new Error(`"${name}" is a built-in template and cannot be removed`);
+    }
+
+    this.checkName(name);
+    const filePath = this.getTemplatePath(name);
+    if (!(await FileSystem.fileExists(filePath))) {
+      throw new Error(`Unknown template "${name}"`);
+    }
+    await fs.unlink(filePath);
+
+    // Fall back to the built-in default rather than pointing at a missing template
+    if ((await this.getDefault()) === name) {
+      await this.saveConfig({ default: undefined });
+    }
+  }
+
+  /**
+   * Template used when no --template is given
+   */
+  static async getDefault(): Promise<string> {
+    const configPath = this.getConfigPath();
+    if (!(await FileSystem.fileExists(configPath))) {
+      return 'default';
+    }
+    const config = await FileSystem.loadJSON<RegistryConfig>(configPath);
+    return config.default || 'default';
+  }
+
+  static async setDefault(name: string): Promise<void> {
+    // Fails for unknown names
+    await this.load(name);
+    await this.saveConfig({ default: name });
+  }
+
+  /**
+   * Names become file names in the registry, so paths are rejected
+   */
+  private static checkName(name: string): void {
+    if (!TEMPLATE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid template name "${name}". Use lowercase letters, digits, - and _.`);
+    }
+  }
+
+  private static getTemplatePath(name: string): string {
+    return path.join(this.getDirectory(), `${name}${TEMPLATE_EXTENSION}`);
+  }
+
+  private static getConfigPath(): string {
+    return path.join(this.getDirectory(), 'registry.json');
+  }
+
+  private static async saveConfig(config: RegistryConfig): Promise<void> {
+    await FileSystem.ensureDirectory(this.getDirectory());
+    await fs.writeFile(this.getConfigPath(), JSON.stringify(config, null, 2), 'utf-8');
+  }
+}
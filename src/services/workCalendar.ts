@@ -0,0 +1,143 @@
+import { Holiday, ScheduleConfig } from '../types/index.js';
+import { FileSystem } from '../utils/fileSystem.js';
+import { Validator } from '../validators/index.js';
+import { HolidaysFileSchema } from '../validators/schemas.js';
+import { addDays, formatISODate, parseISODate } from '../utils/dates.js';
+
+export const DEFAULT_WORKING_DAYS_PER_WEEK = 5;
+export const DEFAULT_HOURS_PER_WEEK = 40;
+export const DEFAULT_SPRINT_WEEKS = 2;
+
+// Guards against holiday files that leave no working days
+const MAX_SCHEDULE_DAYS = 3 * 366;
+
+/**
+ * CLI flags describing the schedule
+ */
+export interface ScheduleOptions {
+  startDate?: string;
+  workingDays?: string;
+  hoursPerWeek?: string;
+  sprintLength?: string;
+  holidays?: string;
+}
+
+/**
+ * Maps timeline weeks to calendar dates. Week N consists of working days
+ * (N-1)*W .. N*W-1 counted from the start date, where W is the number of
+ * working days per week (Monday first) and holidays are skipped.
+ */
+export class WorkCalendar {
+  private workingDays: Date[] = [];
+  private holidayDates: Set<string>;
+
+  constructor(readonly config: ScheduleConfig) {
+    this.holidayDates = new Set(config.holidays.flatMap(expandHoliday));
+  }
+
+  /**
+   * Calendar starting today with a five-day, 40-hour week and two-week sprints
+   */
+  static fromToday(): WorkCalendar {
+    return new WorkCalendar({
+      startDate: new Date(),
+      workingDaysPerWeek: DEFAULT_WORKING_DAYS_PER_WEEK,
+      hoursPerWeek: DEFAULT_HOURS_PER_WEEK,
+      sprintWeeks: DEFAULT_SPRINT_WEEKS,
+      holidays: [],
+    });
+  }
+
+  static async fromOptions(options: ScheduleOptions): Promise<WorkCalendar> {
+    let startDate = new Date();
+    if (options.startDate) {
+      const parsed = parseISODate(options.startDate);
+      if (!parsed) {
+        throw new Error(`Invalid start date "${options.startDate}". Use YYYY-MM-DD.`);
+      }
+      startDate = parsed;
+    }
+
+    const workingDaysPerWeek = options.workingDays ? Number(options.workingDays) : DEFAULT_WORKING_DAYS_PER_WEEK;
+    if (!Number.isInteger(workingDaysPerWeek) || workingDaysPerWeek < 1 || workingDaysPerWeek > 7) {
+      throw new Error('Working days per week must be a whole number between 1 and 7');
+    }
+
+    const hoursPerWeek = options.hoursPerWeek ? Number(options.hoursPerWeek) : DEFAULT_HOURS_PER_WEEK;
+    if (!Number.isFinite(hoursPerWeek) || hoursPerWeek <= 0 || hoursPerWeek > 100) {
+      throw new Error('Hours per week must be between 1 and 100');
+    }
+
+    const sprintWeeks = options.sprintLength ? Number(options.sprintLength) : DEFAULT_SPRINT_WEEKS;
+    if (!Number.isInteger(sprintWeeks) || sprintWeeks < 1 || sprintWeeks > 8) {
+      throw new Error('Sprint length must be a whole number of weeks between 1 and 8');
+    }
+
+    const holidays = options.holidays
+      ? Validator.validate(HolidaysFileSchema, await FileSystem.loadDataFile<unknown>(options.holidays))
+      : [];
+
+    return new WorkCalendar({ startDate, workingDaysPerWeek, hoursPerWeek, sprintWeeks, holidays });
+  }
+
+  get hoursPerDay(): number {
+    return this.config.hoursPerWeek / this.config.workingDaysPerWeek;
+  }
+
+  isWorkingDay(date: Date): boolean {
+    // getDay() is 0 for Sunday; count from Monday
+    const weekday = (date.getDay() + 6) % 7;
+    return weekday < this.config.workingDaysPerWeek && !this.holidayDates.has(formatISODate(date));
+  }
+
+  /**
+   * The n-th working day (0-based) on or after the start date
+   */
+  workingDay(index: number): Date {
+    let next = this.workingDays.length > 0
+      ? addDays(this.workingDays[this.workingDays.length - 1], 1)
+      : new Date(this.config.startDate.getFullYear(), this.config.startDate.getMonth(), this.config.startDate.getDate());
+
+    while (this.workingDays.length <= index) {
+      for (let skipped = 0; !this.isWorkingDay(next); skipped++) {
+        if (skipped > MAX_SCHEDULE_DAYS) {
+          throw new Error('No working days left in the schedule; check the holidays file');
+        }
+        next = addDays(next, 1);
+      }
+      this.workingDays.push(next);
+      next = addDays(next, 1);
+    }
+
+    return this.workingDays[index];
+  }
+
+  weekStart(week: number): Date {
+    return this.workingDay((week - 1) * this.config.workingDaysPerWeek);
+  }
+
+  weekEnd(week: number): Date {
+    return this.workingDay(week * this.config.workingDaysPerWeek - 1);
+  }
+
+  /**
+   * "Week N" milestones fall on the last working day of that week; fixed
+   * dates are kept. Returns null for anything else.
+   */
+  resolveMilestoneDate(value: string): Date | null {
+    const week = /^week\s*(\d+)$/i.exec(value.trim());
+    if (week) {
+      return this.weekEnd(Math.max(1, Number(week[1])));
+    }
+    const date = parseISODate(value) ?? new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
+
+function expandHoliday(holiday: Holiday): string[] {
+  const dates: string[] = [];
+  for (let day = holiday.start; day <= holiday.end; day = addDays(day, 1)) {
+    dates.push(formatISODate(day));
+  }
+  return dates;
+}
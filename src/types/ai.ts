@@ -2,22 +2,168 @@
  * AI-related type definitions for Claude integration
  */
 
+export type ClaudeModel = 'claude-3-5-sonnet-latest' | 'claude-3-5-sonnet-20241022' | 'claude-3-opus-20240229' | 'claude-3-haiku-20240307';
+
+/**
+ * Backend that serves completions: Anthropic, an OpenAI-compatible HTTP server
+ * (Ollama, llama.cpp, ...) or the offline fixture-replay mock
+ */
+export type LLMProviderName = 'anthropic' | 'openai' | 'mock';
+
+/**
+ * Task categories that can be routed to different models
+ */
+export type AITaskType = 'challenge' | 'list_suggestion' | 'validate' | 'optimize';
+
+/**
+ * Model per task; tasks without an entry use `AIConfig.model`
+ */
+export type ModelRouting = Partial<Record<AITaskType, string>>;
+
+// 'auto' detects the language of each answer
+export type AILanguage = 'auto' | 'de' | 'en';
+
 export interface AIConfig {
+  provider: LLMProviderName;
   apiKey: string;
-  model: 'claude-3-5-sonnet-latest' | 'claude-3-5-sonnet-20241022' | 'claude-3-opus-20240229' | 'claude-3-haiku-20240307';
+  model: ClaudeModel | string; // Free-form for OpenAI-compatible servers
   maxTokens: number;
   temperature: number;
   maxBudget?: number; // Maximum budget in USD
   showCosts?: boolean; // Show costs in real-time
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  fixturesPath?: string; // JSON fixtures served by the mock provider
+  cassette?: AICassetteConfig; // Record or replay AI interactions
+  retry?: AIRetryConfig;
+  timeoutMs?: number; // Per-request timeout
+  promptCaching?: boolean; // Cache breakpoints for system prompt and context (Anthropic), default on
+  routing?: ModelRouting; // Per-task model overrides
+  language?: AILanguage; // Language of AI feedback
+}
+
+/**
+ * Exponential backoff for retryable API errors
+ */
+export interface AIRetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Also the longest retry-after we are willing to wait
+}
+
+export type AIErrorKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'auth'
+  | 'invalid_request'
+  | 'unknown';
+
+export interface ClassifiedAIError {
+  kind: AIErrorKind;
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+  summary: string; // e.g. "Rate limit reached (HTTP 429)"
+  message: string; // Summary plus the provider's error detail
+}
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface AICassetteConfig {
+  mode: CassetteMode;
+  dir: string;
+}
+
+/**
+ * A recorded prompt/response pair, stored as `<key>.json` in the cassette directory
+ */
+export interface CassetteEntry {
+  key: string;
+  provider: LLMProviderName;
+  model: string;
+  system: string;
+  contextPrefix?: string;
+  prompt: string;
+  completion: LLMCompletion;
+  recordedAt: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  contextPrefix?: string; // Stable project context sent before the prompt
+  cache?: boolean; // Mark system prompt and context prefix as cacheable
+  tool?: LLMToolSpec; // Forces a structured answer through this tool
+}
+
+/**
+ * A tool the model is forced to call; its input is the structured response
+ */
+export interface LLMToolSpec {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>; // JSON Schema
+}
+
+/**
+ * Streaming hooks: `onText` receives each text delta, `onEnd` fires once the
+ * stream is finished or cancelled, aborting `signal` cancels the call
+ */
+export interface LLMStreamOptions {
+  onText?: (delta: string) => void;
+  onEnd?: () => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  text: string;
+  aborted?: boolean; // Stream was cancelled; `text` holds what arrived until then
+  toolInput?: unknown; // Arguments of the forced tool call, when a tool was requested
+  // Missing when the backend does not report usage
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+  };
+}
+
+/**
+ * A single canned response for the mock provider. The first fixture whose
+ * `match` occurs in the prompt (or system message) is served.
+ */
+export interface LLMFixture {
+  match?: string;
+  response: string;
+  usage?: LLMCompletion['usage'];
+}
+
+export interface LLMFixtureFile {
+  fixtures: LLMFixture[];
+  fallback?: string;
 }
 
+/**
+ * Whether token counts come from the API's usage fields or a length-based estimate
+ */
+export type TokenSource = 'measured' | 'estimated';
+
 export interface AIUsageMetrics {
   sessionId: string;
   totalTokensUsed: number;
   inputTokens: number;
   outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
   apiCalls: number;
+  estimatedCalls: number; // Calls without usage data, counted via the length estimate
   estimatedCost: number; // in USD
+  provider: LLMProviderName;
   model: string;
   interactions: AIInteraction[];
   startTime: Date;
@@ -32,6 +178,10 @@ export interface AIInteraction {
   response: string;
   inputTokens: number;
   outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  tokenSource?: TokenSource;
+  model: string; // Model that served the call
   cost: number;
   accepted?: boolean; // Was the suggestion accepted by user
 }
@@ -40,16 +190,26 @@ export interface TokenPricing {
   model: string;
   inputPricePerMillion: number; // USD per million tokens
   outputPricePerMillion: number; // USD per million tokens
+  cacheWritePricePerMillion: number; // USD per million tokens written to the prompt cache
+  cacheReadPricePerMillion: number; // USD per million tokens read from the prompt cache
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  total: number;
+  source: TokenSource;
 }
 
 export interface AIResponse {
   content: string;
-  tokensUsed: {
-    input: number;
-    output: number;
-    total: number;
-  };
+  tokensUsed: TokenUsage;
   cost: number;
+  model: string;
+  aborted?: boolean;
+  toolInput?: unknown;
 }
 
 export interface AIEnhancedQuestion {
@@ -82,29 +242,53 @@ export interface SessionCostBreakdown {
 }
 
 // Claude model pricing (as of 2024)
-export const CLAUDE_PRICING: Record<string, TokenPricing> = {
+export const CLAUDE_PRICING: Record<ClaudeModel, TokenPricing> = {
   'claude-3-5-sonnet-latest': {
     model: 'Claude 3.5 Sonnet (Latest)',
     inputPricePerMillion: 3.00,
     outputPricePerMillion: 15.00,
+    cacheWritePricePerMillion: 3.75,
+    cacheReadPricePerMillion: 0.30,
   },
   'claude-3-5-sonnet-20241022': {
     model: 'Claude 3.5 Sonnet',
     inputPricePerMillion: 3.00,
     outputPricePerMillion: 15.00,
+    cacheWritePricePerMillion: 3.75,
+    cacheReadPricePerMillion: 0.30,
   },
   'claude-3-opus-20240229': {
     model: 'Claude 3 Opus',
     inputPricePerMillion: 15.00,
     outputPricePerMillion: 75.00,
+    cacheWritePricePerMillion: 18.75,
+    cacheReadPricePerMillion: 1.50,
   },
   'claude-3-haiku-20240307': {
     model: 'Claude 3 Haiku',
     inputPricePerMillion: 0.25,
     outputPricePerMillion: 1.25,
+    cacheWritePricePerMillion: 0.30,
+    cacheReadPricePerMillion: 0.03,
   },
 };
 
+// Self-hosted and mock backends cost nothing per token
+export const FREE_PRICING: TokenPricing = {
+  model: 'Free',
+  inputPricePerMillion: 0,
+  outputPricePerMillion: 0,
+  cacheWritePricePerMillion: 0,
+  cacheReadPricePerMillion: 0,
+};
+
+// Pricing tables per provider, looked up by model name
+export const PROVIDER_PRICING: Record<LLMProviderName, Record<string, TokenPricing>> = {
+  anthropic: CLAUDE_PRICING,
+  openai: {},
+  mock: {},
+};
+
 export interface AIOptimizationResult {
   original: string;
   content: string; // The optimized content
@@ -0,0 +1,41 @@
+/**
+ * Type definitions for the project-level config file (.prdzerorc)
+ */
+
+import { PRDFormat, ProjectEconomics, RoadmapChartStyle } from './index.js';
+import { AILanguage, LLMProviderName, ModelRouting } from './ai.js';
+
+/**
+ * Limits that keep an MVP small; prompts and validators enforce them
+ */
+export interface ScopePolicy {
+  maxFeatures: number;
+  maxTimelineWeeks: number;
+  maxInnovationTokens: number; // New technologies the team is willing to learn
+  maxFrameworks: number; // Frameworks the team already knows and builds on
+}
+
+export interface PRDZeroConfig {
+  ai: {
+    provider?: LLMProviderName;
+    model?: string;
+    maxBudget?: number; // USD per session
+    language: AILanguage;
+    promptCaching?: boolean;
+    routing?: ModelRouting;
+  };
+  output?: string; // Output directory, relative to the config file
+  timeLimit?: number; // Minutes
+  template?: string;
+  formats?: PRDFormat[];
+  roadmapChart?: RoadmapChartStyle;
+  schedule: {
+    workingDays?: number;
+    hoursPerWeek?: number;
+    sprintLength?: number;
+    holidays?: string; // Path, relative to the config file
+  };
+  economics?: string | ProjectEconomics; // Path to an economics file or the values inline
+  scopeRules?: string[]; // Rule files, relative to the config file
+  scopePolicy: ScopePolicy;
+}
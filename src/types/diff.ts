@@ -0,0 +1,50 @@
+/**
+ * Type definitions for comparing the PRD data of two planning sessions
+ */
+
+import { Risk } from './index.js';
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface FieldChange extends ValueChange<string> {
+  field: string;
+}
+
+export interface PhaseChange {
+  name: string;
+  before: number; // Weeks
+  after: number;
+}
+
+export interface RiskChange {
+  description: string;
+  before: Risk;
+  after: Risk;
+}
+
+export interface PRDDiff {
+  project: FieldChange[];
+  features: ListChange;
+  nonGoals: ListChange;
+  successMetrics: ListChange;
+  timeline: {
+    totalWeeks?: ValueChange<number>;
+    phases: ListChange & { changed: PhaseChange[] };
+    milestones: ListChange;
+  };
+  risks: {
+    added: Risk[];
+    removed: Risk[];
+    changed: RiskChange[];
+  };
+  techStack: Record<string, ListChange>; // Only categories that changed
+  hasChanges: boolean;
+}
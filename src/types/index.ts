@@ -1,3 +1,6 @@
+import type { AIUsageMetrics } from './ai.js';
+import type { ContextMemoryExport } from './contextMemory.js';
+
 export interface ProjectInfo {
   name: string;
   description: string;
@@ -30,10 +33,48 @@ export interface Phase {
 
 export interface Milestone {
   name: string;
-  date: string;
+  date: string; // "Week N" relative to the start date, or a fixed YYYY-MM-DD date
   criteria: string[];
 }
 
+/**
+ * Days off that push the schedule back, inclusive
+ */
+export interface Holiday {
+  start: Date;
+  end: Date;
+  name?: string;
+}
+
+/**
+ * Calendar the roadmap is scheduled on. Timeline weeks are work weeks of
+ * `workingDaysPerWeek` days; holidays are skipped.
+ */
+export interface ScheduleConfig {
+  startDate: Date;
+  workingDaysPerWeek: number;
+  hoursPerWeek: number;
+  sprintWeeks: number;
+  holidays: Holiday[];
+}
+
+export interface InfrastructureItem {
+  name: string;
+  monthlyCost: number;
+}
+
+/**
+ * Rates behind the roadmap budget and the AI cost report ROI
+ */
+export interface ProjectEconomics {
+  hourlyRate: number;
+  hoursPerWeek?: number; // The schedule's hours per week when omitted
+  marketingMonthly: number;
+  stack?: string; // Proven stack to take hosting costs from; matched to the tech stack when omitted
+  infrastructure?: InfrastructureItem[]; // Replaces the stack's hosting estimate
+  hoursSavedPerSession: number; // Planning time the AI assistance saves
+}
+
 export interface TechStack {
   frontend?: string[];
   backend?: string[];
@@ -42,6 +83,49 @@ export interface TechStack {
   tools?: string[];
 }
 
+/**
+ * A slice of a core feature: "As a …, I want …, so that …" with the
+ * criteria that decide when it is done
+ */
+export interface UserStory {
+  id: string; // US-<feature>.<story>, e.g. US-2.1
+  feature: string; // Core feature the story belongs to
+  title: string; // Short name for sprint plans and issues
+  story: string;
+  acceptanceCriteria: string[];
+  points: number; // Rough estimate in story points (1, 2, 3, 5, 8 or 13)
+}
+
+export type PrioritizationMethod = 'rice' | 'moscow';
+
+/**
+ * Must have, should have, could have, won't have (this time)
+ */
+export type MoSCoWBucket = 'must' | 'should' | 'could' | 'wont';
+
+/**
+ * RICE inputs of one feature; score = reach × impact × confidence / effort
+ */
+export interface RICEScore {
+  reach: number; // Users or events per quarter
+  impact: number; // 3 massive, 2 high, 1 medium, 0.5 low, 0.25 minimal
+  confidence: number; // 1, 0.8 or 0.5
+  score: number;
+}
+
+export interface RankedFeature {
+  feature: string;
+  rank: number; // 1 = build first
+  bucket: MoSCoWBucket; // Only must-haves stay core features
+  effort: number; // Person-weeks, pre-filled from the complexity estimate
+  rice?: RICEScore; // RICE prioritization only
+}
+
+export interface FeaturePrioritization {
+  method: PrioritizationMethod;
+  features: RankedFeature[];
+}
+
 export interface PRDData {
   project: ProjectInfo;
   mvp: MVPScope;
@@ -51,6 +135,8 @@ export interface PRDData {
   assumptions: string[];
   openQuestions: string[];
   nextSteps: string[];
+  userStories?: UserStory[]; // Core features broken down; plans from older versions have none
+  prioritization?: FeaturePrioritization; // Ranked feature backlog, when the features were prioritized
   generatedAt: Date;
   sessionDuration: number;
 }
@@ -71,6 +157,39 @@ export interface SessionData {
   data: Partial<PRDData>;
 }
 
+export type SessionType = 'quick' | 'complete';
+export type PRDFormat = 'md' | 'html' | 'json';
+export type RoadmapChartStyle = 'mermaid' | 'ascii';
+export type AIMode = 'active' | 'passive' | 'off';
+
+/**
+ * Output choices of a session, saved in its checkpoint so that a resumed
+ * session renders the same documents
+ */
+export interface SessionSettings {
+  template: string; // PRD template source
+  formats: PRDFormat[];
+  roadmapChart: RoadmapChartStyle;
+  schedule: ScheduleConfig;
+  economics: ProjectEconomics;
+}
+
+/**
+ * Persisted session state written after every answered question.
+ * Extends SessionData with everything needed to resume the session.
+ */
+export interface SessionCheckpoint extends SessionData {
+  sessionType: SessionType;
+  aiMode: AIMode;
+  outputDir: string;
+  timeLimit: number;
+  elapsedMinutes: number;
+  answers: Record<string, unknown>;
+  contextMemory?: ContextMemoryExport;
+  aiMetrics?: AIUsageMetrics;
+  settings: SessionSettings;
+}
+
 export interface QuestionAnswer {
   question: string;
   answer: any;
@@ -0,0 +1,33 @@
+/**
+ * Type definitions for exporting the roadmap to issue trackers
+ */
+
+export type IssueTracker = 'github' | 'gitlab' | 'linear';
+
+export interface TrackerMilestone {
+  title: string;
+  description: string;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface TrackerIssue {
+  title: string;
+  body: string; // Markdown
+  labels: string[];
+  milestone?: string; // Title of a TrackerMilestone
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface IssueExportPlan {
+  milestones: TrackerMilestone[];
+  issues: TrackerIssue[];
+}
+
+/**
+ * Where --apply sends the issues
+ */
+export interface TrackerApiConfig {
+  baseUrl: string;
+  project: string; // owner/repo on GitHub, project ID or path on GitLab
+  token?: string;
+}
@@ -0,0 +1,84 @@
+/**
+ * Type definitions for the declarative scope-protection rules
+ */
+
+import { AILanguage } from './ai.js';
+
+export type ScopeRuleSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Where a rule runs: per core feature (scored into its complexity), on the
+ * whole plan (overengineering), or on the business side of the answers
+ */
+export type ScopeRuleCategory = 'complexity' | 'overengineering' | 'business';
+
+export type ScopeTextFact = 'feature' | 'features' | 'techStack' | 'databaseExperience';
+export type ScopeNumberFact = 'featureCount' | 'techCount' | 'timelineWeeks' | 'targetUsers' | 'targetValue' | 'painLevel';
+export type ScopeRuleLanguage = Exclude<AILanguage, 'auto'>;
+
+/**
+ * What a rule is evaluated against; rules that need a missing fact don't match
+ */
+export interface ScopeFacts {
+  feature?: string;
+  features?: string[];
+  techStack?: string[];
+  databaseExperience?: string;
+  featureCount?: number;
+  techCount?: number;
+  timelineWeeks?: number;
+  targetUsers?: number;
+  targetValue?: number; // Number in the success target, e.g. 100 of "100 users"
+  painLevel?: number;
+  language?: ScopeRuleLanguage; // Language of the text facts; detected when missing
+}
+
+export interface FieldPredicate {
+  field: ScopeNumberFact;
+  op: '<' | '<=' | '>' | '>=' | '==' | '!=';
+  value: number;
+}
+
+/**
+ * Keywords per language. German text is matched against both lists,
+ * since German feature descriptions mix in English tech terms.
+ */
+export type LocalizedKeywords = Partial<Record<ScopeRuleLanguage, string[]>>;
+
+export interface KeywordMatcher {
+  keywords: string[] | LocalizedKeywords; // Compared by word stem, also inside compounds
+  in: ScopeTextFact;
+  exclude?: string[]; // No match when any of these appear
+  minMatches?: number; // Matching list items, or keywords in a single text (default 1)
+}
+
+export interface RegexMatcher {
+  regex: string;
+  flags?: string; // Default 'i'
+  in: ScopeTextFact;
+}
+
+export type ScopeRuleMatcher = KeywordMatcher | RegexMatcher | FieldPredicate;
+
+export interface ScopeRule {
+  id: string; // e.g. complexity/high or team/multi-tenant
+  category: ScopeRuleCategory;
+  match: ScopeRuleMatcher;
+  when?: FieldPredicate[]; // Extra conditions, all must hold
+  severity: ScopeRuleSeverity;
+  message: string; // {matches} and {feature} are filled in
+  suggestion?: string;
+  score?: number; // Complexity points, complexity rules only
+  perMatch?: boolean; // Score each match instead of once
+  enabled?: boolean;
+  source?: string; // Rule file that defined or last changed the rule
+}
+
+export interface ScopeRuleFinding {
+  ruleId: string;
+  severity: ScopeRuleSeverity;
+  message: string;
+  suggestion?: string;
+  matches: string[];
+  score: number;
+}
@@ -1,5 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import YAML from 'yaml';
 import { Logger } from './logger.js';
 
 export class FileSystem {
@@ -89,6 +90,21 @@ export class FileSystem {
     return JSON.parse(content) as T;
   }
 
+  /**
+   * Load a YAML (.yaml/.yml) or JSON data file
+   */
+  static async loadDataFile<T>(filePath: string): Promise<T> {
+    const content = await this.readFile(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+    try {
+      return (extension === '.yaml' || extension === '.yml'
+        ? YAML.parse(content)
+        : JSON.parse(content)) as T;
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   static generateFileName(prefix: string, extension: string): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
     return `${prefix}_${timestamp}.${extension}`;
@@ -0,0 +1,124 @@
+import type { AILanguage } from '../types/ai.js';
+import type { Language } from '../services/promptTemplates.js';
+
+/**
+ * Language helpers: the German/English detection used for AI feedback, and
+ * keyword matching that survives inflection and German compound words
+ */
+
+// Matched as whole words: "order" or "products" say nothing about the language
+const GERMAN_WORDS = [
+  'der', 'die', 'das', 'ich', 'du', 'sie', 'wir', 'ihr', 'und', 'oder', 'aber',
+  'für', 'mit', 'von', 'zu', 'bei', 'nach', 'aus', 'können', 'müssen', 'werden'
+];
+
+const GERMAN_CHARACTERS = ['ä', 'ö', 'ü', 'ß'];
+
+// Shorter keywords (AI, SSO, KI) only match whole words, never compound parts
+const MIN_COMPOUND_PART = 4;
+
+// Stems that take a linking "s" in compounds: Zahlung-s-abwicklung
+const LINKING_S_STEM = /(ung|heit|keit|ion|tat|schaft|ling)$/;
+
+/**
+ * 'de' or 'en'; a configured language other than 'auto' wins over detection
+ */
+export function detectLanguage(text: string, preferred: AILanguage = 'auto'): Language {
+  if (preferred !== 'auto') {
+    return preferred;
+  }
+
+  // Simple German detection based on common German words and characters
+  const lowerText = text.toLowerCase();
+  const words = new Set(tokenize(text));
+  const germanMatches = GERMAN_WORDS.filter(word => words.has(word)).length
+    + GERMAN_CHARACTERS.filter(character => lowerText.includes(character)).length;
+
+  return germanMatches >= 2 ? 'de' : 'en';
+}
+
+/**
+ * Lowercased words; hyphens, slashes and punctuation separate them
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Light suffix stripping, enough to match plurals and inflected forms
+ * ("Benachrichtigungen" → "benachrichtigung", "payments" → "payment")
+ */
+export function stemWord(word: string, language: Language): string {
+  return language === 'de' ? stemGerman(word) : stemEnglish(word);
+}
+
+/**
+ * Split a word at the known stems it contains, dropping linking "s":
+ * "zahlungsabwicklung" with ["zahlung"] → ["zahlung", "abwicklung"]
+ */
+export function splitCompound(word: string, stems: string[]): string[] {
+  const stem = stems
+    .filter(candidate => candidate.length >= MIN_COMPOUND_PART && candidate.length < word.length && word.includes(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!stem) {
+    return [word];
+  }
+
+  const index = word.indexOf(stem);
+  let tail = word.slice(index + stem.length);
+  if (tail.startsWith('s') && LINKING_S_STEM.test(stem)) {
+    tail = tail.slice(1);
+  }
+
+  return [
+    ...(index > 0 ? splitCompound(word.slice(0, index), stems) : []),
+    stem,
+    ...(tail ? splitCompound(tail, stems) : []),
+  ];
+}
+
+/**
+ * The keywords that occur in `text`, compared stem by stem. Multi-word
+ * keywords match consecutive words or one closed compound ("realtime").
+ */
+export function findKeywords(text: string, keywords: string[], language: Language): string[] {
+  const stemmed = keywords.map(keyword => ({
+    keyword,
+    parts: tokenize(keyword).map(word => stemWord(word, language)),
+    compound: stemWord(tokenize(keyword).join(''), language),
+  }));
+  const lexicon = stemmed.flatMap(entry => entry.parts);
+  const words = tokenize(text).map(word => stemWord(word, language));
+  const forms = words.map(word => new Set([word, ...splitCompound(word, lexicon)]));
+
+  return stemmed
+    .filter(({ parts, compound }) => parts.length > 0 && (
+      words.includes(compound) ||
+      forms.some((_, start) => parts.every((part, offset) => forms[start + offset]?.has(part)))
+    ))
+    .map(entry => entry.keyword);
+}
+
+function stemGerman(word: string): string {
+  const base = word.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u');
+  if (base.endsWith('ungen')) {
+    return base.slice(0, -2);
+  }
+
+  const suffix = ['ern', 'em', 'en', 'er', 'es', 'e', 'n', 's']
+    .find(ending => base.endsWith(ending) && base.length - ending.length >= 4);
+  return suffix ? base.slice(0, -suffix.length) : base;
+}
+
+function stemEnglish(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ing') && word.length >= 7) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length >= 6) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word) && word.length > 3) return word.slice(0, -1);
+  return word;
+}
@@ -0,0 +1,124 @@
+import chalk from 'chalk';
+import type { LLMStreamOptions } from '../types/ai.js';
+import { Logger } from './logger.js';
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '',
+  b: '',
+  f: '',
+};
+
+/**
+ * Renders streamed AI output in the terminal as it arrives. Ctrl+C cancels
+ * the stream instead of ending the session.
+ *
+ * With a `field` the response is expected to be JSON and only that string
+ * field is rendered (e.g. `feedback` of an OptimizedAIResponse).
+ */
+export class StreamRenderer {
+  private controller = new AbortController();
+  private buffer = '';
+  private cursor = -1;
+  private fieldDone = false;
+  private rendered = false;
+  private lineOpen = false;
+  private finished = false;
+  private readonly onSigint = (): void => this.controller.abort();
+
+  constructor(private field?: string) {}
+
+  /**
+   * Start listening for Ctrl+C and return the stream hooks for an AI call
+   */
+  begin(heading: string): LLMStreamOptions {
+    Logger.info(chalk.yellow(heading) + chalk.gray('  (Ctrl+C: skip)'));
+    process.once('SIGINT', this.onSigint);
+
+    return {
+      signal: this.controller.signal,
+      onText: delta => this.write(delta),
+      onEnd: () => this.finish(),
+    };
+  }
+
+  /**
+   * Stop listening for Ctrl+C. `rendered` tells whether any text was shown;
+   * when it is false the caller should display the full response itself.
+   */
+  end(): { cancelled: boolean; rendered: boolean } {
+    this.finish();
+    process.removeListener('SIGINT', this.onSigint);
+    return { cancelled: this.controller.signal.aborted, rendered: this.rendered };
+  }
+
+  private write(delta: string): void {
+    if (this.finished) return;
+    this.buffer += delta;
+    const text = this.field ? this.readField() : delta;
+    if (!text) return;
+
+    process.stdout.write(text);
+    this.rendered = true;
+    this.lineOpen = !text.endsWith('\n');
+  }
+
+  private finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    if (this.lineOpen) {
+      process.stdout.write('\n');
+      this.lineOpen = false;
+    }
+    if (this.controller.signal.aborted) {
+      Logger.info(chalk.gray('⏭  Skipped'));
+    }
+  }
+
+  /**
+   * Decode as much of the JSON string field as has arrived so far
+   */
+  private readField(): string {
+    if (this.fieldDone) return '';
+
+    if (this.cursor < 0) {
+      const match = new RegExp(`"${this.field}"\\s*:\\s*"`).exec(this.buffer);
+      if (!match) return '';
+      this.cursor = match.index + match[0].length;
+    }
+
+    let text = '';
+    while (this.cursor < this.buffer.length) {
+      const char = this.buffer[this.cursor];
+
+      if (char === '"') {
+        this.fieldDone = true;
+        break;
+      }
+
+      if (char === '\\') {
+        const next = this.buffer[this.cursor + 1];
+        if (next === undefined) break;
+
+        if (next === 'u') {
+          const hex = this.buffer.slice(this.cursor + 2, this.cursor + 6);
+          if (hex.length < 4) break;
+          text += String.fromCharCode(parseInt(hex, 16));
+          this.cursor += 6;
+          continue;
+        }
+
+        text += JSON_ESCAPES[next] ?? next;
+        this.cursor += 2;
+        continue;
+      }
+
+      text += char;
+      this.cursor++;
+    }
+
+    return text;
+  }
+}
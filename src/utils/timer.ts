@@ -9,8 +9,9 @@ export class SessionTimer {
   private pausedTime: number = 0;
   private pauseStart: Date | null = null;
 
-  constructor(limitMinutes: number = 70) {
-    this.startTime = new Date();
+  constructor(limitMinutes: number = 70, alreadyElapsedMinutes: number = 0) {
+    // A resumed session continues with the budget that was left
+    this.startTime = new Date(Date.now() - alreadyElapsedMinutes * 60000);
     this.limitMinutes = limitMinutes;
     this.warningThreshold = limitMinutes * 0.8;
   }
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for structured AI responses. They are sent to the model as
+ * tool input schemas (zod → JSON Schema) and used to validate what comes back.
+ */
+
+const WarningSchema = z.object({
+  type: z.string().describe('Short snake_case identifier, e.g. too_generic'),
+  severity: z.enum(['low', 'medium', 'high']),
+  message: z.string(),
+});
+
+const InnovationTokenSchema = z.object({
+  tech: z.string(),
+  token_cost: z.number(),
+  risk_level: z.enum(['low', 'medium', 'high']),
+  reason: z.string(),
+});
+
+export const SkillsGapAnalysisSchema = z.object({
+  new_technologies: z.array(z.string()),
+  learning_hours_estimate: z.number().min(0),
+  tutorial_hell_risk: z.array(z.string()),
+  timeline_impact_weeks: z.number().min(0),
+});
+
+export const TechStackRecommendationSchema = z.object({
+  current: z.string(),
+  suggested: z.string(),
+  reason: z.string(),
+});
+
+const AlternativeStackSchema = z.object({
+  name: z.string(),
+  tech: z.array(z.string()),
+  pros: z.array(z.string()),
+  cons: z.array(z.string()),
+  learning_curve_weeks: z.number().min(0),
+  innovation_tokens: z.number().min(0),
+});
+
+export const OptimizedAIResponseSchema = z.object({
+  assessment: z.enum(['good', 'warning', 'critical']),
+  feedback: z.string().min(1).describe('Direct feedback for the user'),
+  warnings: z.array(WarningSchema),
+  suggestion: z.string().optional().describe('Improved version of the answer, only when improvement is needed'),
+  next_actions: z.array(z.string()),
+  // Question-specific fields
+  validation_required: z.boolean().optional(),
+  measurability_score: z.number().min(0).max(10).optional(),
+  feature_count: z.number().int().min(0).optional(),
+  scope_violation: z.boolean().optional(),
+  parking_lot: z.array(z.string()).optional(),
+  innovation_tokens_used: z.number().min(0).optional(),
+  complexity_score: z.number().optional(),
+  boring_tech_recommendation: z.string().optional(),
+  timeline_weeks: z.number().min(0).optional(),
+  timeline_violation: z.boolean().optional(),
+  validation_gates_missing: z.array(z.string()).optional(),
+  realism_score: z.number().optional(),
+  // Tech stack fields
+  skills_gap_analysis: SkillsGapAnalysisSchema.optional(),
+  compatibility_score: z.number().min(0).max(10).optional(),
+  solo_developer_score: z.number().min(0).max(10).optional(),
+  innovation_tokens: z.object({
+    used: z.number().min(0),
+    details: z.array(InnovationTokenSchema),
+  }).optional(),
+  recommendations: z.object({
+    keep: z.array(z.string()),
+    replace: z.array(TechStackRecommendationSchema),
+    add_missing: z.array(z.string()),
+  }).optional(),
+  alternative_stacks: z.array(AlternativeStackSchema).optional(),
+  final_recommendation: z.string().optional(),
+});
+
+export const AIValidationResultSchema = z.object({
+  issues: z.array(z.string()).describe('Critical issues that will likely cause failure'),
+  suggestions: z.array(z.string()).describe('Improvements that would increase the chance of success'),
+  criticalProblems: z.array(z.string()).optional(),
+});
+
+export const FeatureBreakdownSchema = z.object({
+  stories: z.array(z.object({
+    feature: z.string().describe('The core feature exactly as given'),
+    title: z.string().min(1).describe('Short name, at most 8 words'),
+    story: z.string().min(1).describe('As a <persona>, I want <goal>, so that <benefit>'),
+    acceptance_criteria: z.array(z.string().min(1)).min(1).max(6),
+    points: z.number().int().min(1).max(13).describe('Story points: 1, 2, 3, 5, 8 or 13'),
+  })),
+});
+
+/**
+ * Convert a response schema into the JSON Schema sent as tool input schema
+ */
+export function toToolInputSchema(schema: z.ZodType): Record<string, unknown> {
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input' }) as Record<string, unknown>;
+  // Tool input schemas must not carry the draft identifier
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * Format zod issues for a retry prompt
+ */
+export function formatSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
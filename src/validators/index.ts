@@ -1,5 +1,9 @@
 import { z } from 'zod';
 import { Logger } from '../utils/logger.js';
+import { PRDFormat, RoadmapChartStyle } from '../types/index.js';
+
+const PRD_FORMATS: PRDFormat[] = ['md', 'html', 'json'];
+const ROADMAP_CHART_STYLES: RoadmapChartStyle[] = ['mermaid', 'ascii'];
 
 export class Validator {
   static validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
@@ -61,4 +65,24 @@ export class Validator {
     }
     return limit;
   }
-}
\ No newline at end of file
+
+  /**
+   * Parse a comma-separated --format value such as "md,html"
+   */
+  static validateFormats(value: string): PRDFormat[] {
+    const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+    const invalid = formats.filter(format => !PRD_FORMATS.includes(format as PRDFormat));
+    if (formats.length === 0 || invalid.length > 0) {
+      throw new Error(`Invalid format "${invalid.join(', ') || value}". Use one or more of: ${PRD_FORMATS.join(', ')}`);
+    }
+    return [...new Set(formats)] as PRDFormat[];
+  }
+
+  static validateRoadmapChart(value: string): RoadmapChartStyle {
+    const style = value.trim().toLowerCase() as RoadmapChartStyle;
+    if (!ROADMAP_CHART_STYLES.includes(style)) {
+      throw new Error(`Invalid roadmap chart style "${value}". Use ${ROADMAP_CHART_STYLES.join(' or ')}`);
+    }
+    return style;
+  }
+}
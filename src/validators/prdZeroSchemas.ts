@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { ProjectConfig } from '../services/projectConfig.js';
+import { ScopeRuleEngine } from '../services/scopeRuleEngine.js';
+import { formatScopeWarning } from './scopeProtection.js';
 
 /**
  * Comprehensive validation schemas for PRD-ZERO
@@ -125,8 +128,10 @@ const TechSchema = z.object({
     .refine((val) => {
       const frameworks = val.toLowerCase();
       const knownCount = (frameworks.match(/,/g) || []).length + 1;
-      return knownCount <= 3;
-    }, 'Stick to max 3 frameworks you know well - avoid learning too many new things'),
+      return knownCount <= ProjectConfig.getScopePolicy().maxFrameworks;
+    }, {
+      error: () => `Stick to max ${ProjectConfig.getScopePolicy().maxFrameworks} frameworks you know well - avoid learning too many new things`,
+    }),
   
   database_experience: z.string()
     .min(5)
@@ -261,48 +266,22 @@ export function validatePRDData(data: unknown): {
 }
 
 /**
- * Generate business logic warnings based on validated data
+ * Generate business logic warnings based on validated data, from the
+ * business rules of the scope rule set
  */
 function generateBusinessWarnings(data: PRDZeroData): string[] {
-  const warnings: string[] = [];
-  
-  // Timeline warnings
   const targetDate = new Date(data.launch.target_date);
   const today = new Date();
   const weeks = Math.ceil((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24 * 7));
   
-  if (weeks <= 2) {
-    warnings.push('⚠️ CRITICAL: 2 weeks is extremely aggressive - consider extending timeline');
-  }
-  
-  if (weeks <= 4 && data.tech.known_frameworks.split(',').length > 2) {
-    warnings.push('⚠️ Too many technologies for short timeline - reduce tech stack');
-  }
-  
-  // Scope warnings
-  const totalFeatures = 3 + data.scope.nice_to_have.length;
-  if (totalFeatures > 5) {
-    warnings.push('⚠️ Feature overload detected - consider moving more to v2');
-  }
-  
-  // Technical complexity warnings
-  if (data.tech.database_experience.toLowerCase().includes('none') || 
-      data.tech.database_experience.toLowerCase().includes('no')) {
-    warnings.push('⚠️ No database experience - consider using a managed solution like Supabase');
-  }
-  
-  // Market validation warnings
-  if (data.problem.pain_level < 7) {
-    warnings.push('⚡ Low pain level - ensure there\'s real demand before building');
-  }
-  
-  // Success metric warnings
-  const targetNum = parseInt(data.value.target_value.match(/\d+/)?.[0] || '0');
-  if (targetNum > 1000 && weeks <= 8) {
-    warnings.push('⚠️ Ambitious target for timeline - consider reducing initial target');
-  }
-  
-  return warnings;
+  return ScopeRuleEngine.evaluate('business', {
+    timelineWeeks: weeks,
+    techCount: data.tech.known_frameworks.split(',').length,
+    featureCount: 3 + data.scope.nice_to_have.length,
+    databaseExperience: data.tech.database_experience,
+    painLevel: data.problem.pain_level,
+    targetValue: parseInt(data.value.target_value.match(/\d+/)?.[0] || '0'),
+  }).map(finding => formatScopeWarning(finding));
 }
 
 /**
@@ -315,16 +294,17 @@ export function validateScopeProtection(features: string[], timeline: number): {
 } {
   const featureCount = features.length;
   const weeksPerFeature = timeline / featureCount;
+  const { maxFeatures } = ProjectConfig.getScopePolicy();
   
   if (weeksPerFeature < 1) {
     return {
       valid: false,
       message: 'Impossible timeline - less than 1 week per feature',
-      recommendation: 'Reduce features to 3 maximum or extend timeline',
+      recommendation: `Reduce features to ${maxFeatures} maximum or extend timeline`,
     };
   }
   
-  if (weeksPerFeature < 2 && featureCount > 3) {
+  if (weeksPerFeature < 2 && featureCount > maxFeatures) {
     return {
       valid: false,
       message: 'Risky timeline - not enough time per feature',
@@ -336,7 +316,7 @@ export function validateScopeProtection(features: string[], timeline: number): {
     return {
       valid: false,
       message: 'Too many features for MVP',
-      recommendation: 'Maximum 3 core features + 2 nice-to-haves',
+      recommendation: `Maximum ${maxFeatures} core features + 2 nice-to-haves`,
     };
   }
   
@@ -474,7 +454,7 @@ export function calculateMVPReadiness(data: PRDZeroData): {
   const today = new Date();
   const weeks = Math.ceil((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24 * 7));
   
-  if (weeks >= 6 && weeks <= 12) {
+  if (weeks >= 6 && weeks <= ProjectConfig.getScopePolicy().maxTimelineWeeks) {
     strengths.push('Realistic timeline');
   } else if (weeks < 3) {
     score -= 25;
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { parseISODate } from '../utils/dates.js';
+import { QuestionType } from '../services/questionTypeDetector.js';
 
 export const ProjectInfoSchema = z.object({
   name: z.string().min(1).max(100),
@@ -9,8 +11,11 @@ export const ProjectInfoSchema = z.object({
 });
 
 export const MVPScopeSchema = z.object({
+  problemStatement: z.string().max(500).default(''),
+  solutionApproach: z.string().max(500).default(''),
   coreFeatures: z.array(z.string().min(5).max(200)).min(1).max(10),
   nonGoals: z.array(z.string().min(5).max(200)).min(0).max(10),
+  outOfScope: z.array(z.string().min(5).max(200)).max(10).default([]),
   successMetrics: z.array(z.string().min(5).max(200)).min(1).max(10),
   constraints: z.array(z.string().min(5).max(200)).min(0).max(10),
 });
@@ -27,6 +32,44 @@ export const MilestoneSchema = z.object({
   criteria: z.array(z.string().min(5).max(200)).min(1),
 });
 
+const LocalDateSchema = z.string().transform((value, ctx) => {
+  const date = parseISODate(value);
+  if (!date) {
+    ctx.addIssue({ code: 'custom', message: `Expected a YYYY-MM-DD date, got "${value}"` });
+    return z.NEVER;
+  }
+  return date;
+});
+
+// A single date or a range, e.g. summer vacation
+export const HolidaySchema = z.union([
+  LocalDateSchema.transform(date => ({ start: date, end: date, name: undefined as string | undefined })),
+  z.object({
+    start: LocalDateSchema,
+    end: LocalDateSchema.optional(),
+    name: z.string().optional(),
+  }).transform(({ start, end, name }) => ({ start, end: end ?? start, name })),
+]);
+
+export const HolidaysFileSchema = z.union([
+  z.array(HolidaySchema),
+  z.object({ holidays: z.array(HolidaySchema) }).transform(file => file.holidays),
+]);
+
+export const InfrastructureItemSchema = z.object({
+  name: z.string().min(1),
+  monthlyCost: z.number().min(0),
+});
+
+export const ProjectEconomicsSchema = z.object({
+  hourlyRate: z.number().positive().default(50),
+  hoursPerWeek: z.number().positive().max(100).optional(),
+  marketingMonthly: z.number().min(0).default(1000),
+  stack: z.string().optional(),
+  infrastructure: z.array(InfrastructureItemSchema).optional(),
+  hoursSavedPerSession: z.number().min(0).default(2),
+});
+
 export const TimelineSchema = z.object({
   totalWeeks: z.number().min(1).max(52),
   phases: z.array(PhaseSchema).min(1).max(10),
@@ -48,6 +91,33 @@ export const RiskSchema = z.object({
   mitigation: z.string().min(10).max(300),
 });
 
+export const UserStorySchema = z.object({
+  id: z.string().min(1),
+  feature: z.string().min(1),
+  title: z.string().min(1),
+  story: z.string().min(1),
+  acceptanceCriteria: z.array(z.string().min(1)),
+  points: z.number().int().min(1).max(13),
+});
+
+export const RankedFeatureSchema = z.object({
+  feature: z.string().min(1),
+  rank: z.number().int().min(1),
+  bucket: z.enum(['must', 'should', 'could', 'wont']),
+  effort: z.number().positive(),
+  rice: z.object({
+    reach: z.number().min(0),
+    impact: z.number().positive().max(3),
+    confidence: z.number().positive().max(1),
+    score: z.number().min(0),
+  }).optional(),
+});
+
+export const FeaturePrioritizationSchema = z.object({
+  method: z.enum(['rice', 'moscow']),
+  features: z.array(RankedFeatureSchema).min(1),
+});
+
 export const PRDDataSchema = z.object({
   project: ProjectInfoSchema,
   mvp: MVPScopeSchema,
@@ -57,15 +127,238 @@ export const PRDDataSchema = z.object({
   assumptions: z.array(z.string().min(5).max(200)),
   openQuestions: z.array(z.string().min(5).max(200)),
   nextSteps: z.array(z.string().min(5).max(200)),
-  generatedAt: z.date(),
+  userStories: z.array(UserStorySchema).optional(),
+  prioritization: FeaturePrioritizationSchema.optional(),
+  generatedAt: z.coerce.date(),
   sessionDuration: z.number(),
 });
 
 export const SessionDataSchema = z.object({
   id: z.string(),
-  startTime: z.date(),
-  lastUpdate: z.date(),
+  startTime: z.coerce.date(),
+  lastUpdate: z.coerce.date(),
   progress: z.number().min(0).max(100),
   currentStep: z.string(),
   data: PRDDataSchema.partial(),
-});
\ No newline at end of file
+});
+
+// Checkpoints hold whatever the prompts accepted, so only the shape is
+// checked here; the PRD limits apply when the plan is validated
+const CheckpointPRDDataSchema = z.object({
+  project: z.object({
+    name: z.string(),
+    description: z.string(),
+    targetAudience: z.string(),
+    problemStatement: z.string(),
+    uniqueValue: z.string(),
+  }),
+  mvp: z.object({
+    problemStatement: z.string().default(''),
+    solutionApproach: z.string().default(''),
+    coreFeatures: z.array(z.string()),
+    nonGoals: z.array(z.string()),
+    outOfScope: z.array(z.string()).default([]),
+    successMetrics: z.array(z.string()),
+    constraints: z.array(z.string()),
+  }),
+  timeline: z.object({
+    totalWeeks: z.number(),
+    phases: z.array(z.object({ name: z.string(), duration: z.number(), deliverables: z.array(z.string()) })),
+    milestones: z.array(z.object({ name: z.string(), date: z.string(), criteria: z.array(z.string()) })),
+  }),
+  techStack: TechStackSchema,
+  risks: z.array(z.object({
+    description: z.string(),
+    impact: z.enum(['low', 'medium', 'high']),
+    likelihood: z.enum(['low', 'medium', 'high']),
+    mitigation: z.string(),
+  })),
+  assumptions: z.array(z.string()),
+  openQuestions: z.array(z.string()),
+  nextSteps: z.array(z.string()),
+  userStories: z.array(z.object({
+    id: z.string(),
+    feature: z.string(),
+    title: z.string(),
+    story: z.string(),
+    acceptanceCriteria: z.array(z.string()),
+    points: z.number(),
+  })).optional(),
+  prioritization: z.object({
+    method: z.enum(['rice', 'moscow']),
+    features: z.array(z.object({
+      feature: z.string(),
+      rank: z.number(),
+      bucket: z.enum(['must', 'should', 'could', 'wont']),
+      effort: z.number(),
+      rice: z.object({ reach: z.number(), impact: z.number(), confidence: z.number(), score: z.number() }).optional(),
+    })),
+  }).optional(),
+  generatedAt: z.coerce.date(),
+  sessionDuration: z.number(),
+}).partial();
+
+const ContextEntrySchema = z.object({
+  // Lazy: questionTypeDetector imports the project config, which imports this file
+  questionType: z.lazy(() => z.enum(QuestionType)),
+  question: z.string(),
+  answer: z.string(),
+  timestamp: z.coerce.date(),
+  category: z.enum(['project', 'mvp', 'tech', 'timeline', 'launch', 'other']),
+  improved: z.boolean().optional(),
+});
+
+const AIInteractionSchema = z.object({
+  timestamp: z.coerce.date(),
+  type: z.enum(['challenge', 'optimize', 'suggest', 'validate', 'enhance', 'list_suggestion', 'validation']),
+  context: z.string(),
+  prompt: z.string(),
+  response: z.string(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cacheReadTokens: z.number().optional(),
+  cacheWriteTokens: z.number().optional(),
+  tokenSource: z.enum(['measured', 'estimated']).optional(),
+  model: z.string(),
+  cost: z.number(),
+  accepted: z.boolean().optional(),
+});
+
+export const SessionCheckpointSchema = SessionDataSchema.extend({
+  data: CheckpointPRDDataSchema,
+  sessionType: z.enum(['quick', 'complete']),
+  aiMode: z.enum(['active', 'passive', 'off']),
+  outputDir: z.string().min(1),
+  timeLimit: z.number().min(10).max(180),
+  elapsedMinutes: z.number().min(0),
+  answers: z.record(z.string(), z.unknown()),
+  contextMemory: z.object({
+    history: z.array(ContextEntrySchema),
+    projectContext: z.record(z.string(), z.unknown()),
+    exportedAt: z.coerce.date(),
+    sessionId: z.string().optional(),
+  }).optional(),
+  settings: z.object({
+    template: z.string(),
+    formats: z.array(z.enum(['md', 'html', 'json'])),
+    roadmapChart: z.enum(['mermaid', 'ascii']),
+    schedule: z.object({
+      startDate: z.coerce.date(),
+      workingDaysPerWeek: z.number(),
+      hoursPerWeek: z.number(),
+      sprintWeeks: z.number(),
+      holidays: z.array(z.object({ start: z.coerce.date(), end: z.coerce.date(), name: z.string().optional() })),
+    }),
+    economics: ProjectEconomicsSchema,
+  }),
+  aiMetrics: z.object({
+    sessionId: z.string(),
+    totalTokensUsed: z.number(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cacheReadTokens: z.number(),
+    cacheWriteTokens: z.number(),
+    apiCalls: z.number(),
+    estimatedCalls: z.number(),
+    estimatedCost: z.number(),
+    provider: z.enum(['anthropic', 'openai', 'mock']),
+    model: z.string(),
+    interactions: z.array(AIInteractionSchema),
+    startTime: z.coerce.date(),
+    endTime: z.coerce.date().optional(),
+  }).optional(),
+});
+
+const FieldPredicateSchema = z.strictObject({
+  field: z.enum(['featureCount', 'techCount', 'timelineWeeks', 'targetUsers', 'targetValue', 'painLevel']),
+  op: z.enum(['<', '<=', '>', '>=', '==', '!=']),
+  value: z.number(),
+});
+
+const ScopeTextFactSchema = z.enum(['feature', 'features', 'techStack', 'databaseExperience']);
+
+const KeywordListSchema = z.array(z.string().min(1)).min(1);
+
+const ScopeRuleMatcherSchema = z.union([
+  z.strictObject({
+    keywords: z.union([
+      KeywordListSchema,
+      z.strictObject({ de: KeywordListSchema.optional(), en: KeywordListSchema.optional() })
+        .refine(keywords => keywords.de || keywords.en, 'Add keywords for de or en'),
+    ]),
+    in: ScopeTextFactSchema,
+    exclude: z.array(z.string().min(1)).optional(),
+    minMatches: z.number().int().min(1).optional(),
+  }),
+  z.strictObject({
+    regex: z.string().min(1),
+    flags: z.string().regex(/^[imsu]*$/, 'Use only the flags i, m, s and u').optional(),
+    in: ScopeTextFactSchema,
+  }).refine(matcher => {
+    try {
+      new RegExp(matcher.regex, matcher.flags);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid regular expression'),
+  FieldPredicateSchema,
+]);
+
+export const ScopeRuleSchema = z.strictObject({
+  id: z.string().regex(/^[a-z0-9][a-z0-9/_.-]*$/i, 'Use letters, digits and / _ . - in rule ids'),
+  category: z.enum(['complexity', 'overengineering', 'business']),
+  match: ScopeRuleMatcherSchema,
+  when: z.array(FieldPredicateSchema).optional(),
+  severity: z.enum(['info', 'warning', 'critical']),
+  message: z.string().min(1),
+  suggestion: z.string().min(1).optional(),
+  score: z.number().min(0).max(10).optional(),
+  perMatch: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+});
+
+// Entries for existing rules only need the id and the fields they change
+export const ScopeRuleEntrySchema = ScopeRuleSchema.partial().required({ id: true });
+
+// A rule file is either a list of rules or { rules, disable }
+export const ScopeRuleFileSchema = z.preprocess(
+  file => (Array.isArray(file) ? { rules: file } : file),
+  z.strictObject({
+    rules: z.array(ScopeRuleEntrySchema).default([]),
+    disable: z.array(z.string().min(1)).default([]),
+  })
+);
+
+export const ScopePolicySchema = z.strictObject({
+  maxFeatures: z.number().int().min(1).max(10).default(3),
+  maxTimelineWeeks: z.number().int().min(1).max(52).default(12),
+  maxInnovationTokens: z.number().int().min(0).max(5).default(2),
+  maxFrameworks: z.number().int().min(1).max(10).default(3),
+});
+
+// Unknown keys are rejected so that typos in a team policy don't go unnoticed
+export const PRDZeroConfigSchema = z.strictObject({
+  ai: z.strictObject({
+    provider: z.enum(['anthropic', 'openai', 'mock']).optional(),
+    model: z.string().min(1).optional(),
+    maxBudget: z.number().positive().optional(),
+    language: z.enum(['auto', 'de', 'en']).default('auto'),
+    promptCaching: z.boolean().optional(),
+    routing: z.partialRecord(z.enum(['challenge', 'list_suggestion', 'validate', 'optimize']), z.string().min(1)).optional(),
+  }).prefault({}),
+  output: z.string().min(1).optional(),
+  timeLimit: z.number().int().min(10).max(180).optional(),
+  template: z.string().min(1).optional(),
+  formats: z.array(z.enum(['md', 'html', 'json'])).min(1).optional(),
+  roadmapChart: z.enum(['mermaid', 'ascii']).optional(),
+  schedule: z.strictObject({
+    workingDays: z.number().int().min(1).max(7).optional(),
+    hoursPerWeek: z.number().positive().max(100).optional(),
+    sprintLength: z.number().int().min(1).max(8).optional(),
+    holidays: z.string().min(1).optional(),
+  }).prefault({}),
+  economics: z.union([z.string().min(1), ProjectEconomicsSchema]).optional(),
+  scopeRules: z.array(z.string().min(1)).optional(),
+  scopePolicy: ScopePolicySchema.prefault({}),
+});
@@ -1,5 +1,9 @@
 import chalk from 'chalk';
 import { Logger } from '../utils/logger.js';
+import { ProjectConfig } from '../services/projectConfig.js';
+import { ScopeRuleEngine } from '../services/scopeRuleEngine.js';
+import { ScopeRuleFinding, ScopeRuleLanguage } from '../types/scopeRules.js';
+import { detectLanguage } from '../utils/language.js';
 
 /**
  * Advanced scope protection mechanisms for solo developers
@@ -10,95 +14,43 @@ import { Logger } from '../utils/logger.js';
 // ANTI-PATTERNS DETECTION
 // ==========================================
 
-export const COMPLEXITY_KEYWORDS = {
-  high: [
-    'AI', 'ML', 'machine learning', 'artificial intelligence',
-    'blockchain', 'crypto', 'web3', 'NFT',
-    'real-time', 'websocket', 'streaming',
-    'scalable', 'microservices', 'distributed',
-    '3D', 'VR', 'AR', 'metaverse',
-    'marketplace', 'platform', 'ecosystem',
-    'social network', 'community platform',
-  ],
-  medium: [
-    'payment', 'subscription', 'billing',
-    'authentication', 'authorization', 'SSO',
-    'notification', 'email', 'SMS',
-    'file upload', 'image processing',
-    'search', 'filtering', 'sorting',
-    'dashboard', 'analytics', 'reporting',
-  ],
-  low: [
-    'form', 'CRUD', 'list', 'display',
-    'static', 'landing page', 'blog',
-    'contact', 'about', 'FAQ',
-  ],
-};
-
-export const SCOPE_CREEP_PHRASES = [
-  'and also',
-  'plus',
-  'in addition',
-  'furthermore',
-  'as well as',
-  'along with',
-  'everything',
-  'all features',
-  'complete solution',
-  'full platform',
-];
+// Keyword lists (de/en) behind the built-in rules (scopeRules.ts); user rule files extend them
+export { COMPLEXITY_KEYWORDS, SCOPE_CREEP_PHRASES } from './scopeRules.js';
 
 // ==========================================
 // FEATURE COMPLEXITY ANALYZER
 // ==========================================
 
+/**
+ * The unit of complexity scores and story points: one point is half a
+ * person-week of development, before testing and deployment
+ */
+export const WEEKS_PER_POINT = 0.5;
+
 export interface ComplexityScore {
   score: number; // 1-10
   level: 'low' | 'medium' | 'high' | 'extreme';
   warnings: string[];
   estimatedWeeks: number;
+  findings: ScopeRuleFinding[];
 }
 
-export function analyzeFeatureComplexity(feature: string): ComplexityScore {
-  const featureLower = feature.toLowerCase();
-  const warnings: string[] = [];
-  let score = 1; // Base score
-  
-  // Check for high complexity keywords
-  const highComplexityMatches = COMPLEXITY_KEYWORDS.high.filter(keyword => 
-    featureLower.includes(keyword.toLowerCase())
-  );
-  
-  if (highComplexityMatches.length > 0) {
-    score += highComplexityMatches.length * 3;
-    warnings.push(`High complexity detected: ${highComplexityMatches.join(', ')}`);
-  }
-  
-  // Check for medium complexity
-  const mediumComplexityMatches = COMPLEXITY_KEYWORDS.medium.filter(keyword => 
-    featureLower.includes(keyword.toLowerCase())
-  );
-  
-  if (mediumComplexityMatches.length > 0) {
-    score += mediumComplexityMatches.length * 1.5;
-    warnings.push(`Medium complexity elements: ${mediumComplexityMatches.join(', ')}`);
-  }
-  
-  // Check for scope creep indicators
-  const scopeCreepDetected = SCOPE_CREEP_PHRASES.some(phrase => 
-    featureLower.includes(phrase)
-  );
-  
-  if (scopeCreepDetected) {
-    score += 2;
-    warnings.push('Multiple sub-features detected - consider splitting');
-  }
-  
-  // Check feature length (longer = more complex usually)
-  if (feature.length > 100) {
-    score += 1;
-    warnings.push('Feature description too detailed - might be multiple features');
-  }
+/**
+ * Language of a feature list, detected over all features at once since
+ * single short features ("Echtzeit-Chat") give the detection little to go on
+ */
+export function detectFeatureLanguage(features: string[]): ScopeRuleLanguage {
+  return detectLanguage(features.join('\n'), ProjectConfig.get().ai.language);
+}
+
+/**
+ * Without a language, the one of the feature text is detected
+ */
+export function analyzeFeatureComplexity(feature: string, language?: ScopeRuleLanguage): ComplexityScore {
+  // Base score plus the points of every complexity rule that matches
+  const findings = ScopeRuleEngine.evaluate('complexity', { feature, language });
+  let score = 1 + findings.reduce((sum, finding) => sum + finding.score, 0);
+  const warnings = findings.map(finding => finding.message);
   
   // Cap score at 10
   score = Math.min(10, score);
@@ -111,13 +63,14 @@ export function analyzeFeatureComplexity(feature: string): ComplexityScore {
   else level = 'extreme';
   
   // Estimate weeks based on complexity
-  const estimatedWeeks = Math.ceil(score / 2);
+  const estimatedWeeks = Math.ceil(score * WEEKS_PER_POINT);
   
   return {
     score,
     level,
     warnings,
     estimatedWeeks,
+    findings,
   };
 }
 
@@ -142,7 +95,8 @@ export function validateSoloDeveloperCapacity(
   const recommendations: string[] = [];
   
   // Analyze each feature
-  const complexityScores = features.map(f => analyzeFeatureComplexity(f));
+  const language = detectFeatureLanguage(features);
+  const complexityScores = features.map(f => analyzeFeatureComplexity(f, language));
   const totalComplexity = complexityScores.reduce((sum, c) => sum + c.score, 0);
   
   // Calculate estimated weeks
@@ -169,8 +123,9 @@ export function validateSoloDeveloperCapacity(
   if (!feasible) {
     recommendations.push('⚠️ Timeline too aggressive for feature set');
     
-    if (features.length > 3) {
-      recommendations.push('Reduce to 3 core features maximum');
+    const { maxFeatures } = ProjectConfig.getScopePolicy();
+    if (features.length > maxFeatures) {
+      recommendations.push(`Reduce to ${maxFeatures} core features maximum`);
     }
     
     const highComplexityFeatures = complexityScores.filter(c => c.level === 'high' || c.level === 'extreme');
@@ -209,54 +164,21 @@ export function detectOverengineering(
   detected: boolean;
   issues: string[];
   suggestions: string[];
+  findings: ScopeRuleFinding[];
 } {
-  const issues: string[] = [];
-  const suggestions: string[] = [];
-  
-  // Check for premature optimization
-  if (techStack.some(tech => tech.toLowerCase().includes('kubernetes')) && userCount < 10000) {
-    issues.push('Kubernetes is overkill for < 10k users');
-    suggestions.push('Use simple VPS or PaaS like Railway/Fly.io');
-  }
-  
-  if (techStack.some(tech => tech.toLowerCase().includes('microservice')) && features.length < 10) {
-    issues.push('Microservices unnecessary for small feature set');
-    suggestions.push('Start with monolithic architecture');
-  }
-  
-  if (techStack.some(tech => tech.toLowerCase().includes('redis')) && userCount < 1000) {
-    issues.push('Redis caching premature for < 1000 users');
-    suggestions.push('Use in-memory caching initially');
-  }
-  
-  if (techStack.some(tech => tech.toLowerCase().includes('graphql')) && features.length < 5) {
-    issues.push('GraphQL adds complexity for simple APIs');
-    suggestions.push('Start with REST API');
-  }
-  
-  // Check for too many databases/services
-  const databases = techStack.filter(tech => 
-    ['postgres', 'mysql', 'mongodb', 'redis', 'elasticsearch', 'dynamodb'].some(db => 
-      tech.toLowerCase().includes(db)
-    )
-  );
-  
-  if (databases.length > 1) {
-    issues.push('Multiple databases increase complexity');
-    suggestions.push('Start with single database (PostgreSQL recommended)');
-  }
-  
-  // Check for unnecessary real-time features
-  if (features.some(f => f.toLowerCase().includes('real-time')) && 
-      !features.some(f => f.toLowerCase().includes('chat') || f.toLowerCase().includes('collaboration'))) {
-    issues.push('Real-time might be unnecessary');
-    suggestions.push('Consider polling or refresh buttons initially');
-  }
+  const findings = ScopeRuleEngine.evaluate('overengineering', {
+    techStack,
+    features,
+    featureCount: features.length,
+    techCount: techStack.length,
+    targetUsers: userCount,
+  });
   
   return {
-    detected: issues.length > 0,
-    issues,
-    suggestions,
+    detected: findings.length > 0,
+    issues: findings.map(finding => finding.message),
+    suggestions: findings.map(finding => finding.suggestion ?? ''),
+    findings,
   };
 }
 
@@ -277,7 +199,8 @@ export function checkTimelineSanity(
   targetWeeks: number,
   hasExistingCode: boolean = false
 ): TimelineSanity {
-  const complexityScores = features.map(f => analyzeFeatureComplexity(f));
+  const language = detectFeatureLanguage(features);
+  const complexityScores = features.map(f => analyzeFeatureComplexity(f, language));
   const baseWeeks = complexityScores.reduce((sum, c) => sum + c.estimatedWeeks, 0);
   
   // Add time for non-coding activities
@@ -350,9 +273,10 @@ export function prioritizeFeatures(
   const prioritized: PrioritizedFeature[] = [];
   
   // Analyze all features
+  const language = detectFeatureLanguage(features);
   const analyzed = features.map(feature => ({
     feature,
-    complexity: analyzeFeatureComplexity(feature),
+    complexity: analyzeFeatureComplexity(feature, language),
   }));
   
   // Sort by complexity (simple first for quick wins)
@@ -403,12 +327,22 @@ export function prioritizeFeatures(
 // WARNING SYSTEM
 // ==========================================
 
+export interface ScopeWarning {
+  level: 'info' | 'warning' | 'critical';
+  message: string;
+  suggestion?: string;
+  ruleId?: string; // Rule that raised it, for overrides and disable lists
+}
+
+/**
+ * Warning text with the id of the rule that raised it
+ */
+export function formatScopeWarning(warning: { message: string; ruleId?: string }): string {
+  return warning.ruleId ? `${warning.message} [${warning.ruleId}]` : warning.message;
+}
+
 export class ScopeProtectionWarnings {
-  private warnings: Array<{
-    level: 'info' | 'warning' | 'critical';
-    message: string;
-    suggestion?: string;
-  }> = [];
+  private warnings: ScopeWarning[] = [];
   
   addInfo(message: string, suggestion?: string) {
     this.warnings.push({ level: 'info', message, suggestion });
@@ -422,21 +356,31 @@ export class ScopeProtectionWarnings {
     this.warnings.push({ level: 'critical', message, suggestion });
   }
   
+  addFinding(finding: ScopeRuleFinding, subject?: string): void {
+    this.warnings.push({
+      level: finding.severity,
+      message: subject ? `${subject}: ${finding.message}` : finding.message,
+      suggestion: finding.suggestion,
+      ruleId: finding.ruleId,
+    });
+  }
+  
   display() {
     if (this.warnings.length === 0) return;
     
     Logger.section('Scope Protection Analysis');
     
     this.warnings.forEach(warning => {
+      const text = warning.ruleId ? `${warning.message} ${chalk.gray(`[${warning.ruleId}]`)}` : warning.message;
       switch (warning.level) {
         case 'info':
-          Logger.info(`ℹ️  ${warning.message}`);
+          Logger.info(`ℹ️  ${text}`);
           break;
         case 'warning':
-          Logger.warning(`⚠️  ${warning.message}`);
+          Logger.warning(`⚠️  ${text}`);
           break;
         case 'critical':
-          Logger.error(`🚨 ${warning.message}`);
+          Logger.error(`🚨 ${text}`);
           break;
       }
       
@@ -454,7 +398,7 @@ export class ScopeProtectionWarnings {
     return this.getCriticalCount() > 2;
   }
   
-  getAll() {
+  getAll(): ScopeWarning[] {
     return [...this.warnings];
   }
 }
@@ -509,11 +453,13 @@ export function performComprehensiveScopeValidation(data: {
     data.targetUsers
   );
   
-  if (overengineering.detected) {
-    overengineering.issues.forEach((issue, i) => {
-      warnings.addWarning(issue, overengineering.suggestions[i]);
-    });
-  }
+  overengineering.findings.forEach(finding => warnings.addFinding(finding));
+  
+  // Feature rules, e.g. a team's red flags, with the severity they declare
+  const language = detectFeatureLanguage(data.features);
+  data.features.forEach(feature => {
+    analyzeFeatureComplexity(feature, language).findings.forEach(finding => warnings.addFinding(finding, feature));
+  });
   
   // 3. Check timeline sanity
   const timeline = checkTimelineSanity(
@@ -0,0 +1,228 @@
+import { ScopeRule, ScopeRuleLanguage } from '../types/scopeRules.js';
+
+/**
+ * Built-in scope-protection rules. User rule files can add rules, change
+ * any field of these by id, or disable them.
+ */
+
+interface ComplexityKeywords {
+  high: string[];
+  medium: string[];
+  low: string[];
+}
+
+// German lists add the German terms; German text is also checked against English
+export const COMPLEXITY_KEYWORDS: Record<ScopeRuleLanguage, ComplexityKeywords> = {
+  en: {
+    high: [
+      'AI', 'ML', 'machine learning', 'artificial intelligence',
+      'blockchain', 'crypto', 'web3', 'NFT',
+      'real-time', 'websocket', 'streaming',
+      'scalable', 'microservices', 'distributed',
+      '3D', 'VR', 'AR', 'metaverse',
+      'marketplace', 'platform', 'ecosystem',
+      'social network', 'community platform',
+    ],
+    medium: [
+      'payment', 'subscription', 'billing',
+      'authentication', 'authorization', 'SSO',
+      'notification', 'email', 'SMS',
+      'file upload', 'image processing',
+      'search', 'filtering', 'sorting',
+      'dashboard', 'analytics', 'reporting',
+    ],
+    low: [
+      'form', 'CRUD', 'list', 'display',
+      'static', 'landing page', 'blog',
+      'contact', 'about', 'FAQ',
+    ],
+  },
+  de: {
+    high: [
+      'KI', 'künstliche Intelligenz', 'maschinelles Lernen',
+      'Krypto', 'Echtzeit', 'live',
+      'skalierbar', 'verteilt',
+      'Marktplatz', 'Plattform', 'Ökosystem',
+      'soziales Netzwerk', 'Community-Plattform',
+    ],
+    medium: [
+      'Zahlung', 'Abonnement', 'Abo', 'Rechnung',
+      'Anmeldung', 'Registrierung', 'Authentifizierung', 'Berechtigung',
+      'Benachrichtigung', 'E-Mail', 'Upload', 'Bildbearbeitung',
+      'Suche', 'Filter', 'Sortierung',
+      'Auswertung', 'Statistik', 'Bericht',
+    ],
+    low: [
+      'Formular', 'Liste', 'Anzeige',
+      'statisch', 'Startseite', 'Landingpage',
+      'Kontakt', 'Impressum', 'Über uns',
+    ],
+  },
+};
+
+export const SCOPE_CREEP_PHRASES: Record<ScopeRuleLanguage, string[]> = {
+  en: [
+    'and also',
+    'plus',
+    'in addition',
+    'furthermore',
+    'as well as',
+    'along with',
+    'everything',
+    'all features',
+    'complete solution',
+    'full platform',
+  ],
+  de: [
+    'und außerdem',
+    'außerdem',
+    'zusätzlich',
+    'darüber hinaus',
+    'sowie',
+    'inklusive',
+    'alles in einem',
+    'alle Funktionen',
+    'Komplettlösung',
+    'Gesamtlösung',
+  ],
+};
+
+const DATABASES = ['postgres', 'mysql', 'mongodb', 'redis', 'elasticsearch', 'dynamodb'];
+
+export const BUILTIN_SCOPE_RULES: ScopeRule[] = [
+  // Feature complexity
+  {
+    id: 'complexity/high',
+    category: 'complexity',
+    match: { keywords: { en: COMPLEXITY_KEYWORDS.en.high, de: COMPLEXITY_KEYWORDS.de.high }, in: 'feature' },
+    severity: 'warning',
+    message: 'High complexity detected: {matches}',
+    score: 3,
+    perMatch: true,
+  },
+  {
+    id: 'complexity/medium',
+    category: 'complexity',
+    match: { keywords: { en: COMPLEXITY_KEYWORDS.en.medium, de: COMPLEXITY_KEYWORDS.de.medium }, in: 'feature' },
+    severity: 'info',
+    message: 'Medium complexity elements: {matches}',
+    score: 1.5,
+    perMatch: true,
+  },
+  {
+    id: 'complexity/scope-creep',
+    category: 'complexity',
+    match: { keywords: SCOPE_CREEP_PHRASES, in: 'feature' },
+    severity: 'info',
+    message: 'Multiple sub-features detected - consider splitting',
+    score: 2,
+  },
+  {
+    id: 'complexity/too-detailed',
+    category: 'complexity',
+    match: { regex: '^[\\s\\S]{101,}$', in: 'feature' },
+    severity: 'info',
+    message: 'Feature description too detailed - might be multiple features',
+    score: 1,
+  },
+
+  // Overengineering
+  {
+    id: 'overengineering/kubernetes',
+    category: 'overengineering',
+    match: { keywords: ['kubernetes'], in: 'techStack' },
+    when: [{ field: 'targetUsers', op: '<', value: 10000 }],
+    severity: 'warning',
+    message: 'Kubernetes is overkill for < 10k users',
+    suggestion: 'Use simple VPS or PaaS like Railway/Fly.io',
+  },
+  {
+    id: 'overengineering/microservices',
+    category: 'overengineering',
+    match: { keywords: ['microservice'], in: 'techStack' },
+    when: [{ field: 'featureCount', op: '<', value: 10 }],
+    severity: 'warning',
+    message: 'Microservices unnecessary for small feature set',
+    suggestion: 'Start with monolithic architecture',
+  },
+  {
+    id: 'overengineering/redis',
+    category: 'overengineering',
+    match: { keywords: ['redis'], in: 'techStack' },
+    when: [{ field: 'targetUsers', op: '<', value: 1000 }],
+    severity: 'warning',
+    message: 'Redis caching premature for < 1000 users',
+    suggestion: 'Use in-memory caching initially',
+  },
+  {
+    id: 'overengineering/graphql',
+    category: 'overengineering',
+    match: { keywords: ['graphql'], in: 'techStack' },
+    when: [{ field: 'featureCount', op: '<', value: 5 }],
+    severity: 'warning',
+    message: 'GraphQL adds complexity for simple APIs',
+    suggestion: 'Start with REST API',
+  },
+  {
+    id: 'overengineering/multiple-databases',
+    category: 'overengineering',
+    match: { keywords: DATABASES, in: 'techStack', minMatches: 2 },
+    severity: 'warning',
+    message: 'Multiple databases increase complexity',
+    suggestion: 'Start with single database (PostgreSQL recommended)',
+  },
+  {
+    id: 'overengineering/real-time',
+    category: 'overengineering',
+    match: { keywords: { en: ['real-time'], de: ['Echtzeit'] }, in: 'features', exclude: ['chat', 'collaboration', 'Zusammenarbeit'] },
+    severity: 'warning',
+    message: 'Real-time might be unnecessary',
+    suggestion: 'Consider polling or refresh buttons initially',
+  },
+
+  // Business risks in the answers
+  {
+    id: 'business/timeline-extreme',
+    category: 'business',
+    match: { field: 'timelineWeeks', op: '<=', value: 2 },
+    severity: 'warning',
+    message: '⚠️ CRITICAL: 2 weeks is extremely aggressive - consider extending timeline',
+  },
+  {
+    id: 'business/tech-overload',
+    category: 'business',
+    match: { field: 'techCount', op: '>', value: 2 },
+    when: [{ field: 'timelineWeeks', op: '<=', value: 4 }],
+    severity: 'warning',
+    message: '⚠️ Too many technologies for short timeline - reduce tech stack',
+  },
+  {
+    id: 'business/feature-overload',
+    category: 'business',
+    match: { field: 'featureCount', op: '>', value: 5 },
+    severity: 'warning',
+    message: '⚠️ Feature overload detected - consider moving more to v2',
+  },
+  {
+    id: 'business/no-database-experience',
+    category: 'business',
+    match: { keywords: ['none', 'no'], in: 'databaseExperience' },
+    severity: 'warning',
+    message: '⚠️ No database experience - consider using a managed solution like Supabase',
+  },
+  {
+    id: 'business/low-pain',
+    category: 'business',
+    match: { field: 'painLevel', op: '<', value: 7 },
+    severity: 'warning',
+    message: '⚡ Low pain level - ensure there\'s real demand before building',
+  },
+  {
+    id: 'business/ambitious-target',
+    category: 'business',
+    match: { field: 'targetValue', op: '>', value: 1000 },
+    when: [{ field: 'timelineWeeks', op: '<=', value: 8 }],
+    severity: 'warning',
+    message: '⚠️ Ambitious target for timeline - consider reducing initial target',
+  },
+];
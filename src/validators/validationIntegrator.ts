@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import { Logger } from '../utils/logger.js';
 import { PRDData } from '../types/index.js';
+import { ProjectConfig } from '../services/projectConfig.js';
 import {
   type PRDZeroData,
   validatePRDData,
@@ -9,8 +10,11 @@ import {
   validateTechnicalFeasibility,
 } from './prdZeroSchemas.js';
 import {
+  type ScopeWarning,
+  formatScopeWarning,
   performComprehensiveScopeValidation,
   analyzeFeatureComplexity,
+  detectFeatureLanguage,
 } from './scopeProtection.js';
 
 /**
@@ -48,7 +52,8 @@ export function transformToPRDZeroData(data: PRDData): PRDZeroData {
       tool_version: '1.0.0', // Should be from package.json
       warnings: [],
       session_type: data.sessionDuration <= 15 ? 'quick' : 'complete',
-      completion_time_minutes: data.sessionDuration,
+      // Plans from generate or import have no session
+      completion_time_minutes: data.sessionDuration || undefined,
     },
     problem: {
       statement: data.mvp.problemStatement || data.project.problemStatement,
@@ -125,6 +130,7 @@ export interface ValidationReport {
   warnings: string[];
   recommendations: string[];
   blockers: string[];
+  scopeWarnings: ScopeWarning[];
   
   // Formatted output
   summary: string;
@@ -171,9 +177,14 @@ export function validateProject(data: PRDData): ValidationReport {
     mvpGoal: data.mvp.solutionApproach || data.project.description,
   });
   
+  const scopeWarnings = scopeValidation.warnings.getAll();
+  const scopeMessages = (level: ScopeWarning['level']): string[] =>
+    scopeWarnings.filter(warning => warning.level === level).map(formatScopeWarning);
+  
   // Analyze each feature
+  const language = detectFeatureLanguage(data.mvp.coreFeatures);
   const featureAnalysis = data.mvp.coreFeatures.map(feature => {
-    const complexity = analyzeFeatureComplexity(feature);
+    const complexity = analyzeFeatureComplexity(feature, language);
     return {
       feature,
       complexity: complexity.score,
@@ -191,7 +202,7 @@ export function validateProject(data: PRDData): ValidationReport {
     scopeAnalysis: {
       featureComplexity: featureAnalysis,
       totalComplexity: featureAnalysis.reduce((sum, f) => sum + f.complexity, 0),
-      recommendedFeatures: Math.min(3, data.mvp.coreFeatures.length),
+      recommendedFeatures: Math.min(ProjectConfig.getScopePolicy().maxFeatures, data.mvp.coreFeatures.length),
     },
     
     timelineAnalysis: {
@@ -215,16 +226,19 @@ export function validateProject(data: PRDData): ValidationReport {
     criticalIssues: [
       ...mvpReadiness.blockers,
       ...(schemaValidation.errors || []),
+      ...scopeMessages('critical'),
     ],
     
     warnings: [
       ...mvpReadiness.weaknesses,
       ...schemaValidation.warnings,
+      ...scopeMessages('warning'),
       ...scopeValidation.recommendations,
     ],
     
     recommendations: scopeValidation.recommendations,
     blockers: mvpReadiness.blockers,
+    scopeWarnings,
     
     summary: generateValidationSummary(
       mvpReadiness.score,
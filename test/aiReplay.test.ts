@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { AIService } from '../src/services/aiService.js';
+
+// Anthropic responses in the format --ai-record writes; a prompt or system
+// message change misses the cassette and has to be recorded again
+const CASSETTE_DIR = fileURLToPath(new URL('./fixtures/cassettes', import.meta.url));
+
+const PROBLEM_QUESTION = 'What problem does your project solve? (Be specific)';
+const PROBLEM_ANSWER = 'Freelancers lose billable hours because they track time in spreadsheets and forget to log it';
+
+function replayService(): AIService {
+  return new AIService({
+    provider: 'anthropic',
+    model: 'claude-3-5-haiku-20241022',
+    routing: { challenge: 'claude-3-5-haiku-20241022', list_suggestion: 'claude-3-haiku-20240307' },
+    showCosts: false,
+    cassette: { mode: 'replay', dir: CASSETTE_DIR },
+  });
+}
+
+describe('AI flows replayed from a cassette', () => {
+  it('challenges an answer with a structured assessment', async () => {
+    const ai = replayService();
+    const response = await ai.challengeAnswerOptimized(PROBLEM_QUESTION, PROBLEM_ANSWER);
+
+    assert.ok(response);
+    assert.equal(response.assessment, 'warning');
+    assert.equal(response.validation_required, true);
+    assert.deepEqual(response.warnings.map(warning => warning.type), ['no_evidence']);
+    assert.match(response.suggestion ?? '', /3-5 billable hours/);
+
+    const metrics = ai.getUsageMetrics();
+    assert.equal(metrics.apiCalls, 1);
+    assert.equal(metrics.inputTokens, 1184);
+    assert.equal(metrics.outputTokens, 172);
+    assert.equal(metrics.estimatedCalls, 0);
+    assert.deepEqual(metrics.interactions.map(interaction => interaction.type), ['challenge']);
+  });
+
+  it('suggests list items with the routed model', async () => {
+    const ai = replayService();
+    const items = await ai.suggestListItems(
+      'List 3-5 core features for your MVP (most essential only):',
+      ['Time tracking with a start/stop timer', 'Client list', 'Invoice export as PDF']
+    );
+
+    assert.deepEqual(items, [
+      'Client-facing timesheet link',
+      'Reminder when a timer runs overnight',
+      'Hourly rate per client',
+    ]);
+    assert.equal(ai.getUsageMetrics().interactions[0].model, 'claude-3-haiku-20240307');
+  });
+
+  it('fails instead of calling the API when the prompt changed', async () => {
+    const ai = replayService();
+    const response = await ai.challengeAnswerOptimized(PROBLEM_QUESTION, `${PROBLEM_ANSWER}.`);
+
+    assert.equal(response, null);
+    assert.equal(ai.getUsageMetrics().apiCalls, 0);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeFeatureComplexity, detectFeatureLanguage } from '../src/validators/scopeProtection.js';
+
+// Reference corpus of the built-in complexity rules, as listed in the README
+const GERMAN_FEATURES: Array<[string, string]> = [
+  ['Echtzeit-Benachrichtigungen und außerdem Zahlungsabwicklung', 'extreme'],
+  ['Marktplatz für gebrauchte Fahrräder mit Zahlungen', 'high'],
+  ['KI-gestützte Empfehlungen für Kunden', 'medium'],
+  ['Benutzeranmeldung mit E-Mail-Bestätigung', 'medium'],
+  ['Volltextsuche und Filter für die Rezeptliste', 'medium'],
+  ['Echtzeit-Chat', 'medium'],
+  ['Kontaktformular auf der Startseite', 'low'],
+];
+
+const ENGLISH_FEATURES: Array<[string, string]> = [
+  ['Real-time dashboard with payment analytics', 'extreme'],
+  ['Search and filtering plus sorting of products', 'high'],
+  ['Marketplace with subscriptions and billing', 'high'],
+  ['Email notifications for new comments', 'medium'],
+  ['AI-powered tagging', 'medium'],
+  ['Realtime sync', 'medium'],
+  ['Simple contact form', 'low'],
+  ['Detail page for each recipe', 'low'],
+];
+
+describe('feature complexity corpus', () => {
+  it('detects the language over the whole feature list', () => {
+    assert.equal(detectFeatureLanguage(GERMAN_FEATURES.map(([feature]) => feature)), 'de');
+    assert.equal(detectFeatureLanguage(ENGLISH_FEATURES.map(([feature]) => feature)), 'en');
+  });
+
+  for (const [feature, level] of GERMAN_FEATURES) {
+    it(`rates "${feature}" ${level}`, () => {
+      assert.equal(analyzeFeatureComplexity(feature, 'de').level, level);
+    });
+  }
+
+  for (const [feature, level] of ENGLISH_FEATURES) {
+    it(`rates "${feature}" ${level}`, () => {
+      assert.equal(analyzeFeatureComplexity(feature, 'en').level, level);
+    });
+  }
+});